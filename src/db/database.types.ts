@@ -20,33 +20,93 @@ export interface Database {
   };
   public: {
     Tables: {
+      access_anomalies: {
+        Row: {
+          detected_at: string;
+          details: Json;
+          event_id: string;
+          id: number;
+          kind: Database["public"]["Enums"]["access_anomaly_kind_enum"];
+          link_revoked: boolean;
+          share_link_id: string;
+          window_end: string;
+          window_start: string;
+        };
+        Insert: {
+          detected_at?: string;
+          details?: Json;
+          event_id: string;
+          id?: number;
+          kind: Database["public"]["Enums"]["access_anomaly_kind_enum"];
+          link_revoked?: boolean;
+          share_link_id: string;
+          window_end: string;
+          window_start: string;
+        };
+        Update: {
+          detected_at?: string;
+          details?: Json;
+          event_id?: string;
+          id?: number;
+          kind?: Database["public"]["Enums"]["access_anomaly_kind_enum"];
+          link_revoked?: boolean;
+          share_link_id?: string;
+          window_end?: string;
+          window_start?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "access_anomalies_event_id_fkey";
+            columns: ["event_id"];
+            isOneToOne: false;
+            referencedRelation: "events";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "access_anomalies_share_link_id_fkey";
+            columns: ["share_link_id"];
+            isOneToOne: false;
+            referencedRelation: "share_links";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       access_logs: {
         Row: {
           accessed_at: string;
+          browser: string | null;
+          device: string | null;
           event_id: string;
           geo_country: string | null;
           id: number;
           ip: unknown;
+          kind: Database["public"]["Enums"]["access_log_kind_enum"];
           pii_exposed: boolean;
           share_link_id: string;
           user_agent: string | null;
         };
         Insert: {
           accessed_at?: string;
+          browser?: string | null;
+          device?: string | null;
           event_id: string;
           geo_country?: string | null;
           id?: number;
           ip?: unknown;
+          kind?: Database["public"]["Enums"]["access_log_kind_enum"];
           pii_exposed?: boolean;
           share_link_id: string;
           user_agent?: string | null;
         };
         Update: {
           accessed_at?: string;
+          browser?: string | null;
+          device?: string | null;
           event_id?: string;
           geo_country?: string | null;
           id?: number;
           ip?: unknown;
+          kind?: Database["public"]["Enums"]["access_log_kind_enum"];
           pii_exposed?: boolean;
           share_link_id?: string;
           user_agent?: string | null;
@@ -95,26 +155,35 @@ export interface Database {
       analytics_events: {
         Row: {
           created_at: string;
+          event_hash: string | null;
           event_id: string | null;
           event_type: Database["public"]["Enums"]["analytics_event_type_enum"];
           id: number;
           metadata: Json | null;
+          salt_period: string | null;
+          user_hash: string | null;
           user_id: string | null;
         };
         Insert: {
           created_at?: string;
+          event_hash?: string | null;
           event_id?: string | null;
           event_type: Database["public"]["Enums"]["analytics_event_type_enum"];
           id?: number;
           metadata?: Json | null;
+          salt_period?: string | null;
+          user_hash?: string | null;
           user_id?: string | null;
         };
         Update: {
           created_at?: string;
+          event_hash?: string | null;
           event_id?: string | null;
           event_type?: Database["public"]["Enums"]["analytics_event_type_enum"];
           id?: number;
           metadata?: Json | null;
+          salt_period?: string | null;
+          user_hash?: string | null;
           user_id?: string | null;
         };
         Relationships: [
@@ -127,6 +196,24 @@ export interface Database {
           },
         ];
       };
+      analytics_salts: {
+        Row: {
+          created_at: string;
+          period: string;
+          salt: string;
+        };
+        Insert: {
+          created_at?: string;
+          period: string;
+          salt: string;
+        };
+        Update: {
+          created_at?: string;
+          period?: string;
+          salt?: string;
+        };
+        Relationships: [];
+      };
       audit_log: {
         Row: {
           action_type: Database["public"]["Enums"]["action_type_enum"];
@@ -177,8 +264,12 @@ export interface Database {
           event_id: string | null;
           id: string;
           processed_at: string | null;
+          rejection_reason: string | null;
+          report: Json | null;
           requested_at: string;
+          result_expires_at: string | null;
           result_url: string | null;
+          started_at: string | null;
           status: Database["public"]["Enums"]["data_request_status_enum"];
           type: Database["public"]["Enums"]["data_request_type_enum"];
           user_id: string;
@@ -187,8 +278,12 @@ export interface Database {
           event_id?: string | null;
           id?: string;
           processed_at?: string | null;
+          rejection_reason?: string | null;
+          report?: Json | null;
           requested_at?: string;
+          result_expires_at?: string | null;
           result_url?: string | null;
+          started_at?: string | null;
           status?: Database["public"]["Enums"]["data_request_status_enum"];
           type: Database["public"]["Enums"]["data_request_type_enum"];
           user_id: string;
@@ -197,8 +292,12 @@ export interface Database {
           event_id?: string | null;
           id?: string;
           processed_at?: string | null;
+          rejection_reason?: string | null;
+          report?: Json | null;
           requested_at?: string;
+          result_expires_at?: string | null;
           result_url?: string | null;
+          started_at?: string | null;
           status?: Database["public"]["Enums"]["data_request_status_enum"];
           type?: Database["public"]["Enums"]["data_request_type_enum"];
           user_id?: string;
@@ -264,44 +363,63 @@ export interface Database {
       guest_imports: {
         Row: {
           audit_trail: Json | null;
+          column_mapping: Json | null;
           completed_at: string | null;
+          consent_id: string | null;
           duplicate_count: number;
           error_count: number;
           event_id: string;
           id: string;
           original_filename: string | null;
+          previous_import_id: string | null;
           row_count: number;
+          source: Json | null;
           started_at: string;
           status: Database["public"]["Enums"]["import_status_enum"];
           user_id: string;
         };
         Insert: {
           audit_trail?: Json | null;
+          column_mapping?: Json | null;
           completed_at?: string | null;
+          consent_id?: string | null;
           duplicate_count?: number;
           error_count?: number;
           event_id: string;
           id?: string;
           original_filename?: string | null;
+          previous_import_id?: string | null;
           row_count?: number;
+          source?: Json | null;
           started_at?: string;
           status: Database["public"]["Enums"]["import_status_enum"];
           user_id: string;
         };
         Update: {
           audit_trail?: Json | null;
+          column_mapping?: Json | null;
           completed_at?: string | null;
+          consent_id?: string | null;
           duplicate_count?: number;
           error_count?: number;
           event_id?: string;
           id?: string;
           original_filename?: string | null;
+          previous_import_id?: string | null;
           row_count?: number;
+          source?: Json | null;
           started_at?: string;
           status?: Database["public"]["Enums"]["import_status_enum"];
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "guest_imports_consent_id_fkey";
+            columns: ["consent_id"];
+            isOneToOne: false;
+            referencedRelation: "import_consent";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "guest_imports_event_id_fkey";
             columns: ["event_id"];
@@ -309,6 +427,13 @@ export interface Database {
             referencedRelation: "events";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "guest_imports_previous_import_id_fkey";
+            columns: ["previous_import_id"];
+            isOneToOne: false;
+            referencedRelation: "guest_imports";
+            referencedColumns: ["id"];
+          },
         ];
       };
       import_consent: {
@@ -372,42 +497,60 @@ export interface Database {
       };
       share_links: {
         Row: {
+          auto_revoke_on_anomaly: boolean;
           created_at: string;
           created_by: string;
           event_id: string;
           expires_at: string | null;
+          guest_names: Database["public"]["Enums"]["guest_name_display_enum"];
           id: string;
           include_pii: boolean;
           last_accessed_at: string | null;
           password_hash: string | null;
           revoked_at: string | null;
           revoked_by: string | null;
+          show_rsvp: boolean;
+          show_tags: boolean;
+          snapshot_id: string | null;
+          source: Database["public"]["Enums"]["share_link_source_enum"];
           token: string;
         };
         Insert: {
+          auto_revoke_on_anomaly?: boolean;
           created_at?: string;
           created_by: string;
           event_id: string;
           expires_at?: string | null;
+          guest_names?: Database["public"]["Enums"]["guest_name_display_enum"];
           id?: string;
           include_pii?: boolean;
           last_accessed_at?: string | null;
           password_hash?: string | null;
           revoked_at?: string | null;
           revoked_by?: string | null;
+          show_rsvp?: boolean;
+          show_tags?: boolean;
+          snapshot_id?: string | null;
+          source?: Database["public"]["Enums"]["share_link_source_enum"];
           token: string;
         };
         Update: {
+          auto_revoke_on_anomaly?: boolean;
           created_at?: string;
           created_by?: string;
           event_id?: string;
           expires_at?: string | null;
+          guest_names?: Database["public"]["Enums"]["guest_name_display_enum"];
           id?: string;
           include_pii?: boolean;
           last_accessed_at?: string | null;
           password_hash?: string | null;
           revoked_at?: string | null;
           revoked_by?: string | null;
+          show_rsvp?: boolean;
+          show_tags?: boolean;
+          snapshot_id?: string | null;
+          source?: Database["public"]["Enums"]["share_link_source_enum"];
           token?: string;
         };
         Relationships: [
@@ -418,6 +561,13 @@ export interface Database {
             referencedRelation: "events";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "share_links_snapshot_id_fkey";
+            columns: ["snapshot_id"];
+            isOneToOne: false;
+            referencedRelation: "snapshots";
+            referencedColumns: ["id"];
+          },
         ];
       };
       snapshots: {
@@ -478,13 +628,54 @@ export interface Database {
         Args: { p_event_id: string; p_minutes?: number };
         Returns: boolean;
       };
+      analytics_funnel: {
+        Args: { p_from: string; p_to: string };
+        Returns: Json;
+      };
+      analytics_salt: { Args: { p_period: string }; Returns: string };
       create_snapshot: {
-        Args: { p_event_id: string; p_is_manual?: boolean; p_label?: string };
+        Args: {
+          p_diff_base?: string;
+          p_diff_summary?: Json;
+          p_event_id: string;
+          p_is_manual?: boolean;
+          p_label?: string;
+        };
         Returns: string;
       };
+      erase_event_logs: {
+        Args: { p_event_ids: string[]; p_user_id?: string };
+        Returns: Json;
+      };
+      erase_personal_fields: { Args: { p_value: Json }; Returns: Json };
+      erasure_residual_matches: {
+        Args: { p_event_ids: string[]; p_terms: string[]; p_user_id?: string };
+        Returns: Json;
+      };
+      prune_expired_snapshots: {
+        Args: { p_dry_run?: boolean; p_event_id?: string; p_retention?: unknown };
+        Returns: Json;
+      };
       release_event_lock: { Args: { p_event_id: string }; Returns: boolean };
+      review_share_link_access: {
+        Args: {
+          p_country_threshold?: number;
+          p_dry_run?: boolean;
+          p_pii_min_baseline_hours?: number;
+          p_pii_min_hits?: number;
+          p_pii_spike_factor?: number;
+          p_window?: unknown;
+        };
+        Returns: Json;
+      };
+      share_link_access_summary: {
+        Args: { p_from: string; p_share_link_id: string; p_to: string };
+        Returns: Json;
+      };
     };
     Enums: {
+      access_anomaly_kind_enum: "country_burst" | "pii_spike";
+      access_log_kind_enum: "view" | "seat_lookup";
       action_type_enum:
         | "guest_add"
         | "guest_edit"
@@ -502,7 +693,19 @@ export interface Database {
         | "snapshot_created"
         | "snapshot_restored"
         | "data_request_created"
-        | "seat_order_changed";
+        | "seat_order_changed"
+        | "table_delete"
+        | "guest_move"
+        | "seat_assign"
+        | "seat_unassign"
+        | "party_create"
+        | "party_update"
+        | "party_delete"
+        | "bulk_update"
+        | "share_link_updated"
+        | "share_link_published"
+        | "share_link_authenticated"
+        | "data_erased";
       analytics_event_type_enum:
         | "event_created"
         | "import_started"
@@ -515,7 +718,9 @@ export interface Database {
         | "feedback_submitted";
       data_request_status_enum: "pending" | "processing" | "completed" | "rejected";
       data_request_type_enum: "export" | "deletion";
+      guest_name_display_enum: "full" | "first_last_initial" | "initials" | "hidden";
       import_status_enum: "started" | "validated" | "completed" | "failed";
+      share_link_source_enum: "live" | "snapshot" | "latest_manual";
       table_shape_enum: "round" | "rectangular" | "long";
     };
     CompositeTypes: Record<never, never>;
@@ -637,6 +842,8 @@ export const Constants = {
   },
   public: {
     Enums: {
+      access_anomaly_kind_enum: ["country_burst", "pii_spike"],
+      access_log_kind_enum: ["view", "seat_lookup"],
       action_type_enum: [
         "guest_add",
         "guest_edit",
@@ -655,6 +862,18 @@ export const Constants = {
         "snapshot_restored",
         "data_request_created",
         "seat_order_changed",
+        "table_delete",
+        "guest_move",
+        "seat_assign",
+        "seat_unassign",
+        "party_create",
+        "party_update",
+        "party_delete",
+        "bulk_update",
+        "share_link_updated",
+        "share_link_published",
+        "share_link_authenticated",
+        "data_erased",
       ],
       analytics_event_type_enum: [
         "event_created",
@@ -669,7 +888,9 @@ export const Constants = {
       ],
       data_request_status_enum: ["pending", "processing", "completed", "rejected"],
       data_request_type_enum: ["export", "deletion"],
+      guest_name_display_enum: ["full", "first_last_initial", "initials", "hidden"],
       import_status_enum: ["started", "validated", "completed", "failed"],
+      share_link_source_enum: ["live", "snapshot", "latest_manual"],
       table_shape_enum: ["round", "rectangular", "long"],
     },
   },
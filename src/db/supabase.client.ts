@@ -1,8 +1,29 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient as SupabaseClientBase } from "@supabase/supabase-js";
 
 import type { Database } from "../db/database.types";
 
 const supabaseUrl = import.meta.env.SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.SUPABASE_KEY;
 
+export type SupabaseClient = SupabaseClientBase<Database>;
+
 export const supabaseClient = createClient<Database>(supabaseUrl, supabaseAnonKey);
+
+// Per-request client that forwards the caller's bearer token so RLS and auth.uid() apply.
+export function createSupabaseClient(authorization: string | null): SupabaseClient {
+  if (!authorization) {
+    return supabaseClient;
+  }
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+// Service-role client for scheduled jobs and the public share endpoints; bypasses RLS, so
+// callers must scope every query themselves (public share queries go through the link token).
+export function createSupabaseAdminClient(): SupabaseClient {
+  return createClient<Database>(supabaseUrl, import.meta.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
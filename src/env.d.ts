@@ -1,12 +1,13 @@
 /// <reference types="astro/client" />
 
-import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Database } from "./db/database.types";
+import type { User } from "@supabase/supabase-js";
+import type { SupabaseClient } from "./db/supabase.client";
 
 declare global {
   namespace App {
     interface Locals {
-      supabase: SupabaseClient<Database>;
+      supabase: SupabaseClient;
+      user: User | null;
     }
   }
 }
@@ -14,6 +15,12 @@ declare global {
 interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
+  readonly SUPABASE_SERVICE_ROLE_KEY: string;
+  readonly CRON_SECRET: string;
+  readonly SHARE_TOKEN_SECRET: string;
+  readonly GEOIP_COUNTRY_DB?: string;
+  readonly DATA_EXPORT_SECRET: string;
+  readonly DATA_EXPORT_DIR?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,121 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { isIP } from "node:net";
+import { resolve } from "node:path";
+
+// Country lookup against an offline database in the DB-IP "IP to Country Lite" CSV layout:
+// `first_ip,last_ip,country_code` rows, ranges sorted and disjoint. The data ships with the
+// @ip-location-db/dbip-country package (one IPv4 and one IPv6 file, CC BY 4.0, attribution to
+// DB-IP.com); DB-IP publishes it monthly, so refreshing it means bumping that package with
+// `npm update @ip-location-db/dbip-country` and redeploying. GEOIP_COUNTRY_DB points at a single
+// file instead (IPv4 and IPv6 rows may be mixed). The data is read once per process; if it cannot
+// be read every lookup returns undefined and access logs keep geo_country null.
+
+const packageRequire = createRequire(import.meta.url);
+
+export const DEFAULT_GEOIP_COUNTRY_DBS = [
+  "@ip-location-db/dbip-country/dbip-country-ipv4.csv",
+  "@ip-location-db/dbip-country/dbip-country-ipv6.csv",
+] as const;
+
+const UNKNOWN_COUNTRY = "ZZ"; // Reserved / unassigned ranges in DB-IP data
+
+interface RangeTable<T> {
+  starts: T[];
+  ends: T[];
+  countries: string[];
+}
+
+interface CountryDatabase {
+  v4: RangeTable<number>;
+  v6: RangeTable<bigint>;
+}
+
+let database: Promise<CountryDatabase | undefined> | undefined;
+
+/** ISO 3166-1 alpha-2 code for an IP address, or undefined when it is unknown or private. */
+export async function lookupCountry(ip: string): Promise<string | undefined> {
+  const db = await (database ??= loadDatabase());
+  if (!db) {
+    return undefined;
+  }
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip)?.[1];
+  const address = mapped ?? ip;
+  switch (isIP(address)) {
+    case 4:
+      return findRange(db.v4, ipv4ToNumber(address));
+    case 6:
+      return findRange(db.v6, ipv6ToBigInt(address));
+    default:
+      return undefined;
+  }
+}
+
+async function loadDatabase(): Promise<CountryDatabase | undefined> {
+  let texts: string[];
+  try {
+    const files = import.meta.env.GEOIP_COUNTRY_DB
+      ? [resolve(process.cwd(), import.meta.env.GEOIP_COUNTRY_DB)]
+      : DEFAULT_GEOIP_COUNTRY_DBS.map((file) => packageRequire.resolve(file));
+    texts = await Promise.all(files.map((file) => readFile(file, "utf8")));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn(`Geo-IP database not available (${(error as Error).message}); countries will not be resolved`);
+    return undefined;
+  }
+
+  const db: CountryDatabase = {
+    v4: { starts: [], ends: [], countries: [] },
+    v6: { starts: [], ends: [], countries: [] },
+  };
+  for (const line of texts.flatMap((text) => text.split(/\r?\n/))) {
+    const [first, last, country] = line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    if (!country || country === UNKNOWN_COUNTRY || !/^[A-Z]{2}$/.test(country)) {
+      continue;
+    }
+    if (isIP(first) === 4 && isIP(last) === 4) {
+      db.v4.starts.push(ipv4ToNumber(first));
+      db.v4.ends.push(ipv4ToNumber(last));
+      db.v4.countries.push(country);
+    } else if (isIP(first) === 6 && isIP(last) === 6) {
+      db.v6.starts.push(ipv6ToBigInt(first));
+      db.v6.ends.push(ipv6ToBigInt(last));
+      db.v6.countries.push(country);
+    }
+  }
+  return db;
+}
+
+function findRange<T extends number | bigint>(table: RangeTable<T>, address: T): string | undefined {
+  let low = 0;
+  let high = table.starts.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    if (address < table.starts[middle]) {
+      high = middle - 1;
+    } else if (address > table.ends[middle]) {
+      low = middle + 1;
+    } else {
+      return table.countries[middle];
+    }
+  }
+  return undefined;
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function ipv6ToBigInt(address: string): bigint {
+  let text = address.toLowerCase().replace(/%.*$/, ""); // Drop a zone id
+  const embedded = /(\d+\.\d+\.\d+\.\d+)$/.exec(text)?.[1];
+  if (embedded) {
+    const v4 = ipv4ToNumber(embedded);
+    text = text.slice(0, -embedded.length) + `${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = tail === undefined ? [] : new Array<string>(8 - headGroups.length - tailGroups.length).fill("0");
+  return [...headGroups, ...zeros, ...tailGroups].reduce((value, group) => (value << 16n) | BigInt(`0x${group}`), 0n);
+}
@@ -0,0 +1,48 @@
+import type { AccessDevice } from "../../types";
+
+// Coarse user agent classification for share link access logs: a device class and a browser
+// family, no versions. Link preview fetchers (chat apps, social networks) count as bots.
+
+export interface ParsedUserAgent {
+  device: AccessDevice;
+  browser: string | null;
+}
+
+const BOT =
+  /bot\b|crawl|spider|slurp|facebookexternalhit|whatsapp|preview|headless|curl\/|wget\/|python-requests|okhttp/i;
+const TABLET = /ipad|tablet|playbook|silk\/|kindle|android(?!.*mobile)/i;
+const MOBILE = /mobi|iphone|ipod|android.*mobile|windows phone|iemobile|opera mini/i;
+const DESKTOP = /windows nt|macintosh|mac os x|x11|linux|cros/i;
+
+// Order matters: most browsers also claim to be Chrome and/or Safari.
+const BROWSERS: [RegExp, string][] = [
+  [/edg(e|a|ios)?\//i, "Edge"],
+  [/opr\/|opera/i, "Opera"],
+  [/samsungbrowser\//i, "Samsung Internet"],
+  [/firefox\/|fxios\//i, "Firefox"],
+  [/chrome\/|crios\/|chromium\//i, "Chrome"],
+  [/version\/[\d.]+.*safari\//i, "Safari"],
+];
+
+export function parseUserAgent(userAgent: string | null): ParsedUserAgent {
+  if (!userAgent) {
+    return { device: "other", browser: null };
+  }
+  if (BOT.test(userAgent)) {
+    return { device: "bot", browser: null };
+  }
+  return {
+    device: deviceClass(userAgent),
+    browser: BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null,
+  };
+}
+
+function deviceClass(userAgent: string): AccessDevice {
+  if (TABLET.test(userAgent)) {
+    return "tablet";
+  }
+  if (MOBILE.test(userAgent)) {
+    return "mobile";
+  }
+  return DESKTOP.test(userAgent) ? "desktop" : "other";
+}
@@ -0,0 +1,17 @@
+import { createHmac } from "node:crypto";
+
+// Pseudonymous identifiers for analytics_events: user and event ids are stored as HMAC-SHA256
+// hashes keyed with the salt of the current UTC month (see analytics_salt()). Salts of past
+// months are deleted, so a hash can only be tied back to an id while its month lasts, and the
+// same id hashes differently from one month to the next.
+
+export type HashedIdentifierKind = "user" | "event";
+
+/** Salt period of a moment: its UTC month, e.g. "2025-11". */
+export function analyticsSaltPeriod(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+export function hashAnalyticsIdentifier(salt: string, kind: HashedIdentifierKind, id: string): string {
+  return createHmac("sha256", salt).update(`${kind}:${id}`).digest("base64url").slice(0, 22);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { sanitizeAnalyticsMetadata, scrubPersonalText } from "./metadata-policy";
+
+describe("sanitizeAnalyticsMetadata", () => {
+  it("keeps allowed keys with valid values", () => {
+    expect(
+      sanitizeAnalyticsMetadata("export_generated", { format: "pdf", guest_count: 120, table_count: 12, source: "ui" })
+    ).toEqual({ metadata: { format: "pdf", guest_count: 120, table_count: 12, source: "ui" }, dropped: [] });
+  });
+
+  it("drops unknown keys and invalid values, reporting keys only", () => {
+    const result = sanitizeAnalyticsMetadata("export_generated", {
+      format: "docx",
+      guest_count: -1,
+      table_count: 2.5,
+      guest_name: "Anna Kowalska",
+      source: "cli",
+    });
+    expect(result).toEqual({
+      metadata: null,
+      dropped: ["format", "guest_count", "table_count", "guest_name", "source"],
+    });
+  });
+
+  it("enforces per-field caps and types", () => {
+    const result = sanitizeAnalyticsMetadata("feedback_submitted", { rating: 6, comment: 5 });
+    expect(result).toEqual({ metadata: null, dropped: ["rating", "comment"] });
+    expect(sanitizeAnalyticsMetadata("share_link_created", { has_password: "true" }).dropped).toEqual(["has_password"]);
+  });
+
+  it("ignores prototype keys", () => {
+    const metadata = JSON.parse('{"__proto__": {"polluted": true}, "constructor": "x"}') as Record<string, unknown>;
+    expect(sanitizeAnalyticsMetadata("first_save", metadata)).toEqual({
+      metadata: null,
+      dropped: ["__proto__", "constructor"],
+    });
+  });
+
+  it("scrubs and truncates free text", () => {
+    const comment = `Great app! ask Anna Kowalska at anna@example.com ${"x".repeat(600)}`;
+    const result = sanitizeAnalyticsMetadata("feedback_submitted", { rating: 5, comment });
+    const kept = result.metadata?.comment as string;
+    expect(kept).toHaveLength(500);
+    expect(kept.startsWith("Great app! ask [removed] at [removed] x")).toBe(true);
+  });
+
+  it("treats blank text as absent", () => {
+    expect(sanitizeAnalyticsMetadata("feedback_submitted", { comment: "   " })).toEqual({
+      metadata: null,
+      dropped: ["comment"],
+    });
+  });
+});
+
+describe("scrubPersonalText", () => {
+  it.each([
+    ["email", "write to jan.nowak+wed@mail.example.pl please", "write to [removed] please"],
+    ["phone", "call +48 600-123-456 or (022) 123 45 67", "call [removed] or [removed]"],
+    ["name", "Seated next to Jean-Luc Picard and O'Brien Smith", "Seated next to [removed] and [removed]"],
+    ["accented name", "Zażółć Gęślą was late", "[removed] was late"],
+  ])("removes %s", (_, input, expected) => {
+    expect(scrubPersonalText(input)).toBe(expected);
+  });
+
+  it("keeps ordinary text and short numbers", () => {
+    const text = "Loved it. Seated 120 guests at 12 tables in 2025";
+    expect(scrubPersonalText(text)).toBe(text);
+  });
+});
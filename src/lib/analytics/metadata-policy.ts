@@ -0,0 +1,91 @@
+import type { AnalyticsEventType, AnalyticsMetadata } from "../../types";
+
+// Per-type allow-lists for analytics metadata. Only listed keys are kept, each value must match
+// its rule, and everything else is dropped. Strings are the only way personal data can slip in:
+// enum values are fixed, and free text has anything that looks like an email address, phone
+// number or personal name replaced before it is stored.
+
+type FieldRule =
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "count"; max: number }
+  | { kind: "flag" }
+  | { kind: "text"; max: number };
+
+const EXPORT_FORMATS = ["pdf", "png", "xlsx", "csv", "place_cards", "escort_poster"] as const;
+const REDACTED = "[removed]";
+
+const enumOf = (...values: string[]): FieldRule => ({ kind: "enum", values });
+const count = (max = 100_000): FieldRule => ({ kind: "count", max });
+const flag: FieldRule = { kind: "flag" };
+
+// Allowed on every type
+const COMMON_FIELDS: Record<string, FieldRule> = {
+  source: enumOf("ui", "api"),
+};
+
+export const ANALYTICS_METADATA_POLICY: Record<AnalyticsEventType, Record<string, FieldRule>> = {
+  event_created: { from_template: flag, duplicated: flag },
+  import_started: { row_count: count() },
+  import_completed: { added: count(), updated: count(), skipped: count(), duplicates_merged: count() },
+  import_errors: { error_count: count(), row_count: count() },
+  first_save: { guest_count: count(), table_count: count() },
+  share_link_created: { has_password: flag, include_pii: flag, expires_in_days: count(3650) },
+  share_link_clicked: { via: enumOf("link", "qr"), kind: enumOf("view", "seat_lookup") },
+  export_generated: { format: enumOf(...EXPORT_FORMATS), guest_count: count(), table_count: count() },
+  feedback_submitted: { rating: count(5), comment: { kind: "text", max: 500 } },
+};
+
+const EMAIL = /[^\s@<>()"',;:]+@[^\s@<>()"',;:]+\.[a-z]{2,}/giu;
+// Seven or more digits, optionally grouped with spaces, dots, dashes or brackets
+const PHONE = /\+?\(?\d(?:[\s().-]*\d){6,}/gu;
+// Two or more capitalized words in a row ("Anna Kowalska", "Jean-Luc Picard", "O'Brien Smith")
+const NAME_WORD = String.raw`\p{Lu}(?:\p{Ll}+|['’]\p{Lu}\p{Ll}+)(?:-\p{Lu}?\p{Ll}+)*`;
+const NAME = new RegExp(String.raw`(?<!\p{L})${NAME_WORD}(?:\s+${NAME_WORD})+(?!\p{L})`, "gu");
+
+/** Free text with email addresses, phone numbers and name-like word runs replaced. */
+export function scrubPersonalText(text: string): string {
+  return text.replace(EMAIL, REDACTED).replace(PHONE, REDACTED).replace(NAME, REDACTED);
+}
+
+/**
+ * Allowed metadata for an event type. Unknown keys and values that break their rule are
+ * dropped; `dropped` lists the keys (never the values).
+ */
+export function sanitizeAnalyticsMetadata(
+  type: AnalyticsEventType,
+  metadata: Record<string, unknown> | undefined
+): { metadata: AnalyticsMetadata | null; dropped: string[] } {
+  const rules = { ...COMMON_FIELDS, ...ANALYTICS_METADATA_POLICY[type] };
+  const kept: AnalyticsMetadata = {};
+  const dropped: string[] = [];
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    const rule = Object.hasOwn(rules, key) ? rules[key] : undefined;
+    const clean = rule ? sanitizeValue(rule, value) : undefined;
+    if (clean === undefined) {
+      dropped.push(key);
+    } else {
+      kept[key] = clean;
+    }
+  }
+  return { metadata: Object.keys(kept).length ? kept : null, dropped };
+}
+
+function sanitizeValue(rule: FieldRule, value: unknown): string | number | boolean | undefined {
+  switch (rule.kind) {
+    case "enum":
+      return typeof value === "string" && rule.values.includes(value) ? value : undefined;
+    case "count":
+      return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= rule.max
+        ? (value as number)
+        : undefined;
+    case "flag":
+      return typeof value === "boolean" ? value : undefined;
+    case "text": {
+      if (typeof value !== "string") {
+        return undefined;
+      }
+      const text = scrubPersonalText(value.trim()).slice(0, rule.max);
+      return text || undefined;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { ApiErrorDTO } from "../../types";
+
+// Error raised by services and route helpers; carries the HTTP status alongside the
+// ApiErrorDTO code so handlers can render it without further mapping.
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: Record<string, unknown>;
+  readonly headers?: Record<string, string>; // Extra response headers, e.g. Retry-After
+
+  constructor(
+    status: number,
+    code: string,
+    message: string,
+    details?: Record<string, unknown>,
+    headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.headers = headers;
+  }
+
+  toApiError(): ApiErrorDTO {
+    return { error: { code: this.code, message: this.message, ...(this.details ? { details: this.details } : {}) } };
+  }
+}
+
+/** 429 with the wait in seconds both as `details.retry_after` and as the Retry-After header. */
+export function rateLimitError(retryAfter: number, message: string, details: Record<string, unknown> = {}): ApiError {
+  return new ApiError(
+    429,
+    "RATE_LIMIT_EXCEEDED",
+    message,
+    { ...details, retry_after: retryAfter },
+    { "Retry-After": String(retryAfter) }
+  );
+}
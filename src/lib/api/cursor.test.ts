@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { ApiError } from "./api-error";
+import { decodeCursor, encodeCursor, keysetFilter } from "./cursor";
+
+const ID = "4f1c2b9e-8a3d-4c5e-9f6a-0b1c2d3e4f5a";
+
+function token(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("cursor", () => {
+  it("round-trips uuid and integer ids", () => {
+    const uuidCursor = { created_at: "2025-11-01T10:00:00.123456Z", id: ID };
+    const serialCursor = { created_at: "2025-11-01T10:00:00Z", id: 42 };
+    expect(decodeCursor(encodeCursor(uuidCursor))).toEqual(uuidCursor);
+    expect(decodeCursor(encodeCursor(serialCursor))).toEqual(serialCursor);
+  });
+
+  it("encodes as url-safe base64", () => {
+    expect(encodeCursor({ created_at: "2025-11-01T10:00:00Z", id: ID })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("normalizes offsets to UTC and keeps microseconds", () => {
+    expect(decodeCursor(token(["2025-11-01T12:00:00.123456+02:00", ID])).created_at).toBe(
+      "2025-11-01T10:00:00.123456Z"
+    );
+  });
+
+  it.each([
+    ["garbage", "not-a-cursor"],
+    ["wrong arity", token(["2025-11-01T10:00:00Z"])],
+    ["bad timestamp", token(["yesterday", ID])],
+    ["timestamp without offset", token(["2025-11-01T10:00:00", ID])],
+    ["bad uuid", token(["2025-11-01T10:00:00Z", "abc"])],
+    ["fractional id", token(["2025-11-01T10:00:00Z", 1.5])],
+    ["filter injection", token(["2025-11-01T10:00:00Z,id.gt.0", ID])],
+  ])("rejects %s with INVALID_CURSOR", (_, value) => {
+    expect(() => decodeCursor(value)).toThrow(
+      expect.objectContaining({ constructor: ApiError, status: 400, code: "INVALID_CURSOR" })
+    );
+  });
+
+  it("builds a strict keyset filter", () => {
+    expect(keysetFilter({ created_at: "2025-11-01T10:00:00Z", id: 7 })).toBe(
+      'created_at.lt."2025-11-01T10:00:00Z",and(created_at.eq."2025-11-01T10:00:00Z",id.lt.7)'
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+import type { CursorToken, ISO8601Timestamp, UUID } from "../../types";
+import { ApiError } from "./api-error";
+
+// Keyset cursor for lists ordered by (created_at desc, id desc). Encoded as base64url JSON so
+// clients treat it as opaque. Ids are uuids or, for bigserial tables (audit_log), integers.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const timestampSchema = z.string().datetime({ offset: true });
+
+export interface KeysetCursor {
+  created_at: ISO8601Timestamp;
+  id: UUID | number;
+}
+
+export function encodeCursor(cursor: KeysetCursor): CursorToken {
+  return Buffer.from(JSON.stringify([cursor.created_at, cursor.id])).toString("base64url");
+}
+
+export function decodeCursor(token: CursorToken): KeysetCursor {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (Array.isArray(value) && value.length === 2 && typeof value[0] === "string") {
+      const [createdAt, id] = value as [string, unknown];
+      const validId = typeof id === "string" ? UUID_PATTERN.test(id) : Number.isSafeInteger(id);
+      if (timestampSchema.safeParse(createdAt).success && validId) {
+        return { created_at: normalizeTimestamp(createdAt), id: id as UUID | number };
+      }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ApiError(400, "INVALID_CURSOR", "Cursor is malformed");
+}
+
+// Re-serialized in UTC, keeping the fractional digits: Postgres timestamps carry microseconds.
+function normalizeTimestamp(value: string): ISO8601Timestamp {
+  const fraction = /\.(\d+)/.exec(value)?.[1];
+  return `${new Date(value).toISOString().slice(0, 19)}${fraction ? `.${fraction}` : ""}Z`;
+}
+
+// PostgREST filter selecting rows strictly after the cursor in (created_at desc, id desc) order.
+export function keysetFilter(cursor: KeysetCursor): string {
+  const createdAt = `"${cursor.created_at}"`;
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`;
+}
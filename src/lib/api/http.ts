@@ -0,0 +1,100 @@
+import { timingSafeEqual } from "node:crypto";
+
+import type { User } from "@supabase/supabase-js";
+import { z } from "zod";
+
+import type { ApiErrorDTO } from "../../types";
+import { ImportError } from "../imports/import-errors";
+import { PlanOperationError, type PlanOperationErrorCode } from "../plan/plan-errors";
+import { ApiError } from "./api-error";
+
+// Response and request helpers shared by API routes. Routes wrap their body in try/catch and
+// hand anything thrown to handleError, so services only need to throw ApiError.
+
+const CONFLICT_CODES = new Set<PlanOperationErrorCode>([
+  "DUPLICATE_ID",
+  "SEAT_OCCUPIED",
+  "TABLE_FULL",
+  "TABLE_CAPACITY_OVERFLOW",
+  "PLACEMENT_COLLISION",
+]);
+
+export function json(body: unknown, status = 200, headers: HeadersInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+export function jsonError(status: number, error: ApiErrorDTO, headers: HeadersInit = {}): Response {
+  return json(error, status, headers);
+}
+
+export function handleError(error: unknown): Response {
+  if (error instanceof ApiError) {
+    return jsonError(error.status, error.toApiError(), error.headers);
+  }
+  if (error instanceof PlanOperationError) {
+    return jsonError(CONFLICT_CODES.has(error.code) ? 409 : 400, error.toApiError());
+  }
+  if (error instanceof ImportError) {
+    return jsonError(400, error.toApiError());
+  }
+  // eslint-disable-next-line no-console
+  console.error("Unhandled API error:", error);
+  return jsonError(500, { error: { code: "INTERNAL_ERROR", message: "An internal error occurred" } });
+}
+
+export function requireUser(user: User | null): User {
+  if (!user) {
+    throw new ApiError(401, "AUTH_REQUIRED", "Authentication required");
+  }
+  return user;
+}
+
+// Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>` instead of a user token.
+export function requireCronSecret(request: Request): void {
+  const secret = import.meta.env.CRON_SECRET;
+  const provided = request.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  const expected = Buffer.from(secret ?? "");
+  const actual = Buffer.from(provided);
+  if (!secret || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new ApiError(401, "AUTH_REQUIRED", "Authentication required");
+  }
+}
+
+export function parseWith<T extends z.ZodTypeAny>(schema: T, input: unknown, code = "INVALID_REQUEST"): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ApiError(400, code, issue.message, { issues: result.error.issues });
+  }
+  return result.data;
+}
+
+export async function parseJsonBody<T extends z.ZodTypeAny>(request: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown;
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    throw new ApiError(400, "INVALID_REQUEST_BODY", "Request body must be valid JSON");
+  }
+  return parseWith(schema, body, "INVALID_REQUEST_BODY");
+}
+
+export async function parseFormData<T extends z.ZodTypeAny>(request: Request, schema: T): Promise<z.infer<T>> {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    throw new ApiError(400, "INVALID_REQUEST_BODY", "Request body must be multipart/form-data");
+  }
+  return parseWith(schema, Object.fromEntries(form), "INVALID_REQUEST_BODY");
+}
+
+export function parseQuery<T extends z.ZodTypeAny>(url: URL, schema: T): z.infer<T> {
+  return parseWith(schema, Object.fromEntries(url.searchParams), "INVALID_QUERY");
+}
+
+export const uuidSchema = z.string().uuid();
@@ -0,0 +1,45 @@
+import { access, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+// Local storage for data export archives, under DATA_EXPORT_DIR (default data/data-exports).
+// Archives are addressed by data request id only, so stored paths never carry user input.
+
+export const DEFAULT_DATA_EXPORT_DIR = "data/data-exports";
+
+function archivePath(requestId: string): string {
+  return resolve(process.cwd(), import.meta.env.DATA_EXPORT_DIR || DEFAULT_DATA_EXPORT_DIR, `${requestId}.zip`);
+}
+
+export async function writeExportArchive(requestId: string, archive: Uint8Array): Promise<void> {
+  const path = archivePath(requestId);
+  await mkdir(resolve(path, ".."), { recursive: true });
+  await writeFile(path, archive, { mode: 0o600 });
+}
+
+/** The stored archive, or undefined once it has been purged. */
+export async function readExportArchive(requestId: string): Promise<Buffer | undefined> {
+  try {
+    return await readFile(archivePath(requestId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function hasExportArchive(requestId: string): Promise<boolean> {
+  try {
+    await access(archivePath(requestId));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function deleteExportArchive(requestId: string): Promise<void> {
+  await rm(archivePath(requestId), { force: true });
+}
@@ -0,0 +1,36 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Signed download links for completed data exports: the URL itself is the credential, so the
+// archive can be fetched without a session until it expires. Signatures are HMAC-SHA256 over
+// the request id and expiry, keyed with DATA_EXPORT_SECRET.
+
+export const DATA_EXPORT_URL_TTL_SECONDS = 7 * 24 * 3600;
+
+export interface SignedDownload {
+  expires: number; // Unix seconds
+  signature: string;
+}
+
+function secret(): string {
+  const value = import.meta.env.DATA_EXPORT_SECRET;
+  if (!value) {
+    throw new Error("DATA_EXPORT_SECRET is not configured");
+  }
+  return value;
+}
+
+function sign(requestId: string, expires: number): Buffer {
+  return createHmac("sha256", secret()).update(`data_export:${requestId}:${expires}`).digest();
+}
+
+export function signDataExportDownload(requestId: string, expiresAt: Date): SignedDownload {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  return { expires, signature: sign(requestId, expires).toString("base64url") };
+}
+
+/** Whether the link was signed for this request; expiry is checked separately by the caller. */
+export function isDataExportSignatureValid(requestId: string, link: SignedDownload): boolean {
+  const expected = sign(requestId, link.expires);
+  const actual = Buffer.from(link.signature, "base64url");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
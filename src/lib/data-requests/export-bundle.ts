@@ -0,0 +1,55 @@
+import type { DataExportManifestDTO, UUID } from "../../types";
+import { buildZip, type ZipEntry } from "./zip-archive";
+
+// Layout of a data export archive (DSAR): manifest.json, profile.json and one JSON array per
+// table, rows as stored (plan_data and snapshots included verbatim). Secrets such as share
+// link password hashes are left out by the loader, not here.
+
+export const DATA_EXPORT_SECTIONS = [
+  "events",
+  "snapshots",
+  "share_links",
+  "access_logs",
+  "audit_log",
+  "import_consent",
+  "guest_imports",
+] as const;
+
+export type DataExportSection = (typeof DATA_EXPORT_SECTIONS)[number];
+
+export interface DataExportContents {
+  profile: Record<string, unknown> | null;
+  tables: Record<DataExportSection, unknown[]>;
+}
+
+export interface DataExportScope {
+  request_id: UUID;
+  user_id: UUID;
+  event_id: UUID | null;
+}
+
+export function buildDataExportArchive(
+  scope: DataExportScope,
+  contents: DataExportContents,
+  generatedAt: Date
+): Buffer {
+  const files: ZipEntry[] = [
+    { name: "profile.json", data: toJson(contents.profile) },
+    ...DATA_EXPORT_SECTIONS.map((section) => ({ name: `${section}.json`, data: toJson(contents.tables[section]) })),
+  ];
+  const manifest: DataExportManifestDTO = {
+    format: "seating-data-export",
+    version: 1,
+    ...scope,
+    generated_at: generatedAt.toISOString(),
+    files: [
+      { name: "profile.json", records: contents.profile ? 1 : 0 },
+      ...DATA_EXPORT_SECTIONS.map((section) => ({ name: `${section}.json`, records: contents.tables[section].length })),
+    ],
+  };
+  return buildZip([{ name: "manifest.json", data: toJson(manifest) }, ...files], generatedAt);
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
@@ -0,0 +1,60 @@
+import type { PlanDataDTO } from "../../types";
+
+// Erasure of personal data inside plan_data for deletion requests. Guests and parties keep
+// their ids, seats, tags and RSVP, so the plan (and its snapshot history) stays usable, but
+// names become stable pseudonyms ("Guest 12", "Party 3") and notes are dropped. The same
+// registry is used for the live plan and every snapshot of an event, so a guest keeps one
+// pseudonym across versions.
+
+const MIN_TERM_LENGTH = 3; // Shorter strings are not searched for (see erasure_residual_matches())
+
+export interface PseudonymRegistry {
+  guest(id: string): string;
+  party(id: string): string;
+}
+
+export function createPseudonymRegistry(): PseudonymRegistry {
+  const guests = new Map<string, string>();
+  const parties = new Map<string, string>();
+  const assign = (registry: Map<string, string>, prefix: string, id: string): string => {
+    let pseudonym = registry.get(id);
+    if (!pseudonym) {
+      pseudonym = `${prefix} ${registry.size + 1}`;
+      registry.set(id, pseudonym);
+    }
+    return pseudonym;
+  };
+  return {
+    guest: (id) => assign(guests, "Guest", id),
+    party: (id) => assign(parties, "Party", id),
+  };
+}
+
+export interface PlanErasureResult {
+  plan: PlanDataDTO;
+  guests: number; // Guests pseudonymized
+  parties: number;
+}
+
+export function erasePlanPersonalData(plan: PlanDataDTO, pseudonyms: PseudonymRegistry): PlanErasureResult {
+  const guests = plan.guests.map((guest) => {
+    const erased = { ...guest, name: pseudonyms.guest(guest.id) };
+    delete erased.note;
+    return erased;
+  });
+  const parties = plan.parties?.map((party) => ({ ...party, name: pseudonyms.party(party.id) }));
+  return {
+    plan: { ...plan, guests, ...(parties ? { parties } : {}) },
+    guests: guests.length,
+    parties: parties?.length ?? 0,
+  };
+}
+
+/**
+ * Guest and party names in a plan, as searched for by the verification after erasure. Notes are
+ * dropped but not searched for: free text such as "vegan" also appears legitimately in tags.
+ */
+export function planPersonalTerms(plan: PlanDataDTO): string[] {
+  const terms = [...plan.guests.map((guest) => guest.name), ...(plan.parties ?? []).map((party) => party.name)];
+  return terms.map((term) => term.trim()).filter((term) => term.length >= MIN_TERM_LENGTH);
+}
@@ -0,0 +1,152 @@
+import ExcelJS from "exceljs";
+
+import type { GuestListItemDTO, PlanDataDTO, TableDTO } from "../../types";
+import { toGuestListItems } from "../plan/guest-list";
+import { seatDisplayNumber } from "../plan/seat-geometry";
+import { csvField } from "./csv";
+import { tableLabel } from "./floorplan-scene";
+
+// Seating assignment exports (FR-052) built on the guest list projection. The XLSX has the
+// seated guests, the unseated guests and a per-table summary on separate sheets; the CSV is a
+// single flat list with unseated guests left without a table.
+
+export type AssignmentSort = "table" | "name";
+
+export interface AssignmentExportOptions {
+  sort: AssignmentSort; // Table then seat, or alphabetical by name
+  include_notes: boolean; // Adds the Note column
+}
+
+interface AssignmentRow {
+  name: string;
+  table: string;
+  seat: number | null; // Display number (start_index applied)
+  note: string;
+  tag: string;
+  rsvp: string;
+  table_order: number; // Position of the table in label order; unseated last
+}
+
+interface TableSummaryRow {
+  table: string;
+  capacity: number;
+  seated: number;
+  empty: number;
+  tags: string; // "Work 3, Family 2"
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+type AssignmentColumn = "name" | "table" | "seat" | "note" | "tag" | "rsvp";
+
+const COLUMN_HEADERS: Record<AssignmentColumn, string> = {
+  name: "Name",
+  table: "Table",
+  seat: "Seat",
+  note: "Note",
+  tag: "Tag",
+  rsvp: "RSVP",
+};
+
+function columns(options: AssignmentExportOptions): AssignmentColumn[] {
+  const all = Object.keys(COLUMN_HEADERS) as AssignmentColumn[];
+  return options.include_notes ? all : all.filter((key) => key !== "note");
+}
+
+function labelledTables(plan: PlanDataDTO): { table: TableDTO; label: string }[] {
+  return plan.tables
+    .map((table) => ({ table, label: tableLabel(plan, table) }))
+    .sort((a, b) => collator.compare(a.label, b.label));
+}
+
+function assignmentRows(plan: PlanDataDTO, items: GuestListItemDTO[], sort: AssignmentSort): AssignmentRow[] {
+  const tables = new Map(labelledTables(plan).map((entry, index) => [entry.table.id, { ...entry, order: index }]));
+  const notes = new Map(plan.guests.map((guest) => [guest.id, guest.note ?? ""]));
+  const rows = items.map((item) => {
+    const seated = item.table_id ? tables.get(item.table_id) : undefined;
+    return {
+      name: item.name,
+      table: seated?.label ?? "",
+      seat: seated && item.seat_no !== undefined ? seatDisplayNumber(seated.table, item.seat_no) : null,
+      note: notes.get(item.id) ?? "",
+      tag: item.tag ?? "",
+      rsvp: item.rsvp ?? "",
+      table_order: seated?.order ?? tables.size,
+    };
+  });
+  const byName = (a: AssignmentRow, b: AssignmentRow) => collator.compare(a.name, b.name);
+  const bySeat = (a: AssignmentRow, b: AssignmentRow) =>
+    a.table_order - b.table_order || (a.seat ?? 0) - (b.seat ?? 0) || byName(a, b);
+  return rows.sort(sort === "name" ? (a, b) => byName(a, b) || bySeat(a, b) : bySeat);
+}
+
+function tableSummary(plan: PlanDataDTO): TableSummaryRow[] {
+  const guests = new Map(plan.guests.map((guest) => [guest.id, guest]));
+  return labelledTables(plan).map(({ table, label }) => {
+    const seated = table.seats.flatMap((seat) => {
+      const guest = seat.guest_id ? guests.get(seat.guest_id) : undefined;
+      return guest ? [guest] : [];
+    });
+    const tags = new Map<string, number>();
+    for (const guest of seated) {
+      if (guest.tag) {
+        tags.set(guest.tag, (tags.get(guest.tag) ?? 0) + 1);
+      }
+    }
+    return {
+      table: label,
+      capacity: table.capacity,
+      seated: seated.length,
+      empty: table.capacity - seated.length,
+      tags: [...tags]
+        .sort((a, b) => b[1] - a[1] || collator.compare(a[0], b[0]))
+        .map(([tag, count]) => `${tag} ${count}`)
+        .join(", "),
+    };
+  });
+}
+
+export function buildAssignmentCsv(plan: PlanDataDTO, options: AssignmentExportOptions): string {
+  const keys = columns(options);
+  const rows = assignmentRows(plan, toGuestListItems(plan), options.sort);
+  const lines = [
+    keys.map((key) => COLUMN_HEADERS[key]),
+    ...rows.map((row) => keys.map((key) => (row[key] === null ? "" : String(row[key])))),
+  ];
+  return lines.map((line) => line.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export async function buildAssignmentXlsx(plan: PlanDataDTO, options: AssignmentExportOptions): Promise<Buffer> {
+  const keys = columns(options);
+  const rows = assignmentRows(plan, toGuestListItems(plan), options.sort);
+  const workbook = new ExcelJS.Workbook();
+
+  const addSheet = (name: string, headers: { header: string; key: string; width: number }[]) => {
+    const sheet = workbook.addWorksheet(name, { views: [{ state: "frozen", ySplit: 1 }] });
+    sheet.columns = headers;
+    sheet.getRow(1).font = { bold: true };
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: headers.length } };
+    return sheet;
+  };
+  const assignmentColumns = keys.map((key) => ({
+    header: COLUMN_HEADERS[key],
+    key,
+    width: key === "seat" ? 8 : key === "note" ? 40 : 24,
+  }));
+
+  addSheet("Assignments", assignmentColumns).addRows(rows.filter((row) => row.table));
+  // Unseated guests have no table or seat, so those columns are left out.
+  addSheet(
+    "Unseated",
+    assignmentColumns.filter((column) => column.key !== "table" && column.key !== "seat")
+  ).addRows(rows.filter((row) => !row.table));
+  addSheet("Tables", [
+    { header: "Table", key: "table", width: 24 },
+    { header: "Capacity", key: "capacity", width: 10 },
+    { header: "Seated", key: "seated", width: 10 },
+    { header: "Empty seats", key: "empty", width: 12 },
+    { header: "Tags", key: "tags", width: 48 },
+  ]).addRows(tableSummary(plan));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,10 @@
+// CSV field encoding shared by the CSV downloads (seating exports, import error reports).
+
+// Characters that make spreadsheet apps treat a CSV field as a formula (CWE-1236).
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Quotes a field when needed and neutralizes formula-like values with a leading apostrophe. */
+export function csvField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
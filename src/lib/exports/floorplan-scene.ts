@@ -0,0 +1,895 @@
+import type { GridSizeDTO, GuestDTO, PlanDataDTO, TableDTO } from "../../types";
+import { locateGuest } from "../plan/plan-utils";
+import { seatDisplayNumber, tableGeometry } from "../plan/seat-geometry";
+import { tableRect, type GridRect } from "../plan/table-placement";
+import { resolvePalette, type ColorPalette } from "./palettes";
+
+// Renderer-agnostic floorplan layout shared by the PDF and PNG exports. Everything is measured
+// in millimetres on an A4 page (origin top-left, y down) and snapped to the 300 DPI print grid
+// so hairlines land on whole device dots. Renderers only translate primitives; all layout
+// decisions (pagination, label fitting, legend) are made here.
+//
+// Tag colours are always paired with a hatch pattern so the legend still reads on greyscale
+// printers and for colour-blind guests.
+
+export const PRINT_DPI = 300;
+export const A4_MM = { width: 210, height: 297 } as const;
+
+const MM_PER_DOT = 25.4 / PRINT_DPI;
+const MARGIN = 10;
+const HEADER_HEIGHT = 14;
+const FOOTER_HEIGHT = 7;
+const AXIS_SIZE = 4; // Row / column numbers around the grid
+const PREFERRED_CELL = 15; // Largest cell used when the whole grid fits (and the image cell size)
+const TABLE_IMAGE_CELL = 20; // Cell size of single-table images
+const TABLE_IMAGE_PADDING = 2; // Cells around a single table, room for guest names
+const MIN_CELL = 9; // Below this the grid is split across pages
+const CHAIR_RADIUS = 0.18; // In cells
+const BODY_INSET = 0.5; // Table body inset from the footprint edge, in cells
+const LEGEND_LINE = 5;
+const NOTE_LINE = 4.4;
+const ELLIPSIS = "…";
+
+export type PageOrientation = "landscape" | "portrait";
+export type GuestLabelMode = "names" | "initials" | "none";
+export type SeatPattern = "solid" | "horizontal" | "vertical" | "diagonal" | "crosshatch" | "dots";
+export type TextAnchor = "start" | "middle" | "end";
+type ChairSide = "top" | "right" | "bottom" | "left";
+
+const SEAT_PATTERNS: readonly SeatPattern[] = ["solid", "diagonal", "horizontal", "crosshatch", "vertical", "dots"];
+
+/** Width of `text` in mm at font size `size` (mm). */
+export type TextMeasure = (text: string, size: number, bold?: boolean) => number;
+
+export interface SceneRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ScenePrimitive =
+  | ({ kind: "rect"; fill?: string; stroke?: string; stroke_width?: number } & SceneRect)
+  | {
+      kind: "ellipse";
+      cx: number;
+      cy: number;
+      rx: number;
+      ry: number;
+      fill?: string;
+      stroke?: string;
+      stroke_width?: number;
+    }
+  | {
+      kind: "line";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      stroke: string;
+      stroke_width: number;
+      dash?: number[]; // On/off lengths; solid when absent
+    }
+  | {
+      kind: "text";
+      x: number;
+      y: number; // Baseline
+      text: string;
+      size: number;
+      color: string;
+      anchor: TextAnchor;
+      bold?: boolean;
+      halo?: string; // Background colour painted behind the text
+    };
+
+export interface SceneLayer {
+  clip?: SceneRect; // Primitives are clipped to this rect when present
+  items: ScenePrimitive[];
+}
+
+export interface ScenePage {
+  width: number;
+  height: number;
+  background: string;
+  layers: SceneLayer[];
+}
+
+export interface FloorplanScene {
+  title: string;
+  pages: ScenePage[];
+}
+
+export interface TagStyle {
+  tag: string;
+  color: string;
+  pattern: SeatPattern;
+}
+
+export interface FloorplanSceneOptions {
+  title: string; // Event name
+  orientation: PageOrientation;
+  include_notes: boolean; // Appends guest notes pages
+  guest_labels: GuestLabelMode;
+  generated_at: Date;
+  measure: TextMeasure;
+}
+
+export interface FloorplanImageOptions {
+  title: string; // Event name
+  table_id?: string; // Only this table, cropped to its footprint
+  guest_labels: GuestLabelMode;
+  measure: TextMeasure;
+}
+
+interface GridTile {
+  row: number;
+  col: number;
+  rows: number;
+  cols: number;
+}
+
+export interface TableDrawContext {
+  plan: PlanDataDTO;
+  palette: ColorPalette;
+  tags: Map<string, TagStyle>;
+  guests: Map<string, GuestDTO>;
+  guest_labels: GuestLabelMode;
+  measure: TextMeasure;
+}
+
+export function buildFloorplanScene(
+  plan: PlanDataDTO,
+  grid: GridSizeDTO,
+  options: FloorplanSceneOptions
+): FloorplanScene {
+  const context = drawContext(plan, options);
+  const { palette } = context;
+  const page = options.orientation === "landscape" ? { width: A4_MM.height, height: A4_MM.width } : { ...A4_MM };
+
+  const unplaced = plan.tables.filter((table) => !table.position).map((table) => tableLabel(plan, table));
+  const legend = legendItems(context, page.width - 2 * MARGIN, unplaced);
+  const floor: SceneRect = {
+    x: MARGIN + AXIS_SIZE,
+    y: MARGIN + HEADER_HEIGHT + AXIS_SIZE,
+    width: page.width - 2 * MARGIN - AXIS_SIZE,
+    height: page.height - 2 * MARGIN - HEADER_HEIGHT - AXIS_SIZE - legend.height - FOOTER_HEIGHT,
+  };
+  const { cell, tiles } = tileGrid(plan, grid, floor);
+
+  const pages: ScenePage[] = tiles.map((tile) => {
+    const subtitle =
+      tiles.length === 1
+        ? `Floorplan · ${grid.rows} × ${grid.cols} grid`
+        : `Floorplan · part ${tiles.indexOf(tile) + 1} of ${tiles.length} · rows ${tile.row + 1}–${tile.row + tile.rows}, ` +
+          `columns ${tile.col + 1}–${tile.col + tile.cols}`;
+    const origin = { x: floor.x + (floor.width - tile.cols * cell) / 2, y: floor.y };
+    const area: SceneRect = { ...origin, width: tile.cols * cell, height: tile.rows * cell };
+    return {
+      ...page,
+      background: palette.background,
+      layers: [
+        {
+          items: [
+            ...headerItems(options.title, subtitle, page.width, palette),
+            ...axisItems(tile, area, cell, palette),
+          ],
+        },
+        { clip: area, items: [...gridItems(area, cell, palette), ...tileTableItems(context, tile, origin, cell)] },
+        { items: translate(legend.items, MARGIN, page.height - MARGIN - FOOTER_HEIGHT - legend.height) },
+      ],
+    };
+  });
+  if (options.include_notes) {
+    pages.push(...notesPages(context, options.title, page, palette));
+  }
+
+  const stamp = formatTimestamp(options.generated_at);
+  pages.forEach((scenePage, index) => {
+    scenePage.layers.push({ items: footerItems(stamp, index + 1, pages.length, scenePage, palette) });
+    scenePage.layers.forEach((layer) => {
+      layer.items = layer.items.map(snapPrimitive);
+    });
+  });
+  return { title: options.title, pages };
+}
+
+/**
+ * Single-page scene sized to its content for raster output: the whole grid, or one table
+ * (`table_id`) with room for its guest names. No page numbers or timestamp, so venues can
+ * drop the image straight into their own signage.
+ */
+export function buildFloorplanImageScene(
+  plan: PlanDataDTO,
+  grid: GridSizeDTO,
+  options: FloorplanImageOptions
+): ScenePage | undefined {
+  const context = drawContext(plan, options);
+  const { palette } = context;
+  const table = options.table_id ? plan.tables.find((entry) => entry.id === options.table_id) : undefined;
+  if (options.table_id && !table) {
+    return undefined;
+  }
+
+  const cell = table ? TABLE_IMAGE_CELL : PREFERRED_CELL;
+  const footprint = table ? tableGeometry(table).footprint : undefined;
+  const cols = footprint ? footprint.cols + 2 * TABLE_IMAGE_PADDING : grid.cols;
+  const rows = footprint ? footprint.rows + 2 * TABLE_IMAGE_PADDING : grid.rows;
+  const axis = table ? 0 : AXIS_SIZE;
+  const width = cols * cell + 2 * MARGIN + axis;
+  const unplaced = table ? [] : plan.tables.filter((entry) => !entry.position).map((entry) => tableLabel(plan, entry));
+  const legend = legendItems(context, width - 2 * MARGIN, unplaced);
+  const area: SceneRect = {
+    x: MARGIN + axis,
+    y: MARGIN + HEADER_HEIGHT + axis,
+    width: cols * cell,
+    height: rows * cell,
+  };
+
+  let header: ScenePrimitive[];
+  let floor: ScenePrimitive[];
+  if (table) {
+    const offset = TABLE_IMAGE_PADDING * cell;
+    header = headerItems(tableLabel(plan, table), options.title, width, palette);
+    floor = tableItems(context, table, area.x + offset, area.y + offset, cell, area);
+  } else {
+    const tile = { row: 0, col: 0, rows, cols };
+    header = [
+      ...headerItems(options.title, `Floorplan · ${grid.rows} × ${grid.cols} grid`, width, palette),
+      ...axisItems(tile, area, cell, palette),
+    ];
+    floor = [...gridItems(area, cell, palette), ...tileTableItems(context, tile, area, cell)];
+  }
+
+  const legendTop = area.y + area.height + 4;
+  const layers: SceneLayer[] = [
+    { items: header },
+    { clip: area, items: floor },
+    { items: translate(legend.items, MARGIN, legendTop) },
+  ];
+  layers.forEach((layer) => {
+    layer.items = layer.items.map(snapPrimitive);
+  });
+  return { width, height: legendTop + legend.height + MARGIN, background: palette.background, layers };
+}
+
+function drawContext(
+  plan: PlanDataDTO,
+  options: { guest_labels: GuestLabelMode; measure: TextMeasure }
+): TableDrawContext {
+  const palette = resolvePalette(plan.settings.color_palette);
+  return {
+    plan,
+    palette,
+    tags: tagStyles(plan, palette),
+    guests: new Map(plan.guests.map((guest) => [guest.id, guest])),
+    guest_labels: options.guest_labels,
+    measure: options.measure,
+  };
+}
+
+// --------------------------------------------------------
+// Tags, labels and text fitting
+// --------------------------------------------------------
+export function tagStyles(plan: PlanDataDTO, palette: ColorPalette): Map<string, TagStyle> {
+  const tags = [...new Set(plan.guests.map((guest) => guest.tag?.trim()).filter((tag): tag is string => !!tag))];
+  tags.sort((a, b) => a.localeCompare(b));
+  return new Map(
+    tags.map((tag, index) => [
+      tag,
+      {
+        tag,
+        color: palette.tag_colors[index % palette.tag_colors.length],
+        pattern: SEAT_PATTERNS[index % SEAT_PATTERNS.length],
+      },
+    ])
+  );
+}
+
+export function tableLabel(plan: PlanDataDTO, table: TableDTO): string {
+  return table.label?.trim() || `Table ${plan.tables.indexOf(table) + 1}`;
+}
+
+export function guestInitials(guest: GuestDTO): string {
+  if (guest.is_placeholder) {
+    return "+1";
+  }
+  const tokens = guest.name.trim().split(/\s+/).filter(Boolean);
+  const letters = tokens.length > 2 ? [tokens[0], tokens[tokens.length - 1]] : tokens;
+  return letters.map((token) => [...token][0]?.toUpperCase() ?? "").join("");
+}
+
+/** Truncates `text` with an ellipsis so it is at most `width` mm wide. */
+export function fitText(text: string, width: number, size: number, measure: TextMeasure, bold = false): string {
+  if (measure(text, size, bold) <= width) {
+    return text;
+  }
+  const characters = [...text];
+  let low = 0;
+  let high = characters.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (measure(characters.slice(0, middle).join("").trimEnd() + ELLIPSIS, size, bold) <= width) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low === 0 ? "" : characters.slice(0, low).join("").trimEnd() + ELLIPSIS;
+}
+
+function wrapText(text: string, width: number, size: number, measure: TextMeasure): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate, size) <= width || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines.map((entry) => fitText(entry, width, size, measure));
+}
+
+// --------------------------------------------------------
+// Pagination
+// --------------------------------------------------------
+function tileGrid(plan: PlanDataDTO, grid: GridSizeDTO, floor: SceneRect): { cell: number; tiles: GridTile[] } {
+  const fitted = Math.min(PREFERRED_CELL, floor.width / grid.cols, floor.height / grid.rows);
+  if (fitted >= MIN_CELL) {
+    return { cell: fitted, tiles: [{ row: 0, col: 0, rows: grid.rows, cols: grid.cols }] };
+  }
+
+  const tileRows = Math.max(1, Math.floor(floor.height / MIN_CELL));
+  const tileCols = Math.max(1, Math.floor(floor.width / MIN_CELL));
+  const rects = plan.tables.map(tableRect).filter((rect): rect is GridRect => rect !== undefined);
+  const tiles: GridTile[] = [];
+  for (let row = 0; row < grid.rows; row += tileRows) {
+    for (let col = 0; col < grid.cols; col += tileCols) {
+      const tile = { row, col, rows: Math.min(tileRows, grid.rows - row), cols: Math.min(tileCols, grid.cols - col) };
+      // Pages with nothing on them are skipped; the axis numbers show where each part sits.
+      if (rects.some((rect) => intersects(rect, tile))) {
+        tiles.push(tile);
+      }
+    }
+  }
+  return { cell: MIN_CELL, tiles: tiles.length > 0 ? tiles : [{ row: 0, col: 0, rows: tileRows, cols: tileCols }] };
+}
+
+function intersects(rect: GridRect, tile: GridTile): boolean {
+  return (
+    rect.row < tile.row + tile.rows &&
+    tile.row < rect.row + rect.rows &&
+    rect.col < tile.col + tile.cols &&
+    tile.col < rect.col + rect.cols
+  );
+}
+
+// --------------------------------------------------------
+// Page furniture
+// --------------------------------------------------------
+function headerItems(title: string, subtitle: string, width: number, palette: ColorPalette): ScenePrimitive[] {
+  return [
+    { kind: "text", x: MARGIN, y: MARGIN + 5, text: title, size: 5, color: palette.text, anchor: "start", bold: true },
+    { kind: "text", x: MARGIN, y: MARGIN + 10, text: subtitle, size: 3, color: palette.muted_text, anchor: "start" },
+    {
+      kind: "line",
+      x1: MARGIN,
+      y1: MARGIN + 12,
+      x2: width - MARGIN,
+      y2: MARGIN + 12,
+      stroke: palette.grid,
+      stroke_width: 0.3,
+    },
+  ];
+}
+
+function footerItems(
+  stamp: string,
+  pageNumber: number,
+  pageCount: number,
+  page: ScenePage,
+  palette: ColorPalette
+): ScenePrimitive[] {
+  const y = page.height - MARGIN;
+  return [
+    { kind: "text", x: MARGIN, y, text: `Generated ${stamp}`, size: 2.6, color: palette.muted_text, anchor: "start" },
+    {
+      kind: "text",
+      x: page.width - MARGIN,
+      y,
+      text: `Page ${pageNumber} of ${pageCount}`,
+      size: 2.6,
+      color: palette.muted_text,
+      anchor: "end",
+    },
+  ];
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function axisItems(tile: GridTile, area: SceneRect, cell: number, palette: ColorPalette): ScenePrimitive[] {
+  const size = Math.min(2.4, cell * 0.3);
+  const items: ScenePrimitive[] = [];
+  for (let col = 0; col < tile.cols; col++) {
+    const text = String(tile.col + col + 1);
+    items.push({
+      kind: "text",
+      x: area.x + (col + 0.5) * cell,
+      y: area.y - 1,
+      text,
+      size,
+      color: palette.muted_text,
+      anchor: "middle",
+    });
+  }
+  for (let row = 0; row < tile.rows; row++) {
+    const text = String(tile.row + row + 1);
+    const y = area.y + (row + 0.5) * cell + size * 0.35;
+    items.push({ kind: "text", x: area.x - 1, y, text, size, color: palette.muted_text, anchor: "end" });
+  }
+  return items;
+}
+
+function gridItems(area: SceneRect, cell: number, palette: ColorPalette): ScenePrimitive[] {
+  const items: ScenePrimitive[] = [{ kind: "rect", ...area, stroke: palette.grid, stroke_width: 0.25 }];
+  for (let x = area.x + cell; x < area.x + area.width - 1e-6; x += cell) {
+    items.push({
+      kind: "line",
+      x1: x,
+      y1: area.y,
+      x2: x,
+      y2: area.y + area.height,
+      stroke: palette.grid,
+      stroke_width: 0.1,
+    });
+  }
+  for (let y = area.y + cell; y < area.y + area.height - 1e-6; y += cell) {
+    items.push({
+      kind: "line",
+      x1: area.x,
+      y1: y,
+      x2: area.x + area.width,
+      y2: y,
+      stroke: palette.grid,
+      stroke_width: 0.1,
+    });
+  }
+  return items;
+}
+
+// --------------------------------------------------------
+// Tables
+// --------------------------------------------------------
+function tileTableItems(
+  context: TableDrawContext,
+  tile: GridTile,
+  origin: { x: number; y: number },
+  cell: number
+): ScenePrimitive[] {
+  return context.plan.tables.flatMap((table) => {
+    const rect = tableRect(table);
+    if (!rect || !intersects(rect, tile)) {
+      return [];
+    }
+    const area = { ...origin, width: tile.cols * cell, height: tile.rows * cell };
+    return tableItems(
+      context,
+      table,
+      origin.x + (rect.col - tile.col) * cell,
+      origin.y + (rect.row - tile.row) * cell,
+      cell,
+      area
+    );
+  });
+}
+
+/**
+ * Table body, label, chairs, seat numbers and guest labels with the footprint's top-left at
+ * (x, y). Guest names are shortened so they stay inside `bounds` when given.
+ */
+export function tableItems(
+  context: TableDrawContext,
+  table: TableDTO,
+  x: number,
+  y: number,
+  cell: number,
+  bounds?: SceneRect
+): ScenePrimitive[] {
+  const { palette, measure } = context;
+  const geometry = tableGeometry(table);
+  const width = geometry.footprint.cols * cell;
+  const height = geometry.footprint.rows * cell;
+  const centre = { x: x + width / 2, y: y + height / 2 };
+  const body: SceneRect = {
+    x: x + BODY_INSET * cell,
+    y: y + BODY_INSET * cell,
+    width: width - 2 * BODY_INSET * cell,
+    height: height - 2 * BODY_INSET * cell,
+  };
+
+  const items: ScenePrimitive[] = [
+    table.shape === "round"
+      ? {
+          kind: "ellipse",
+          cx: centre.x,
+          cy: centre.y,
+          rx: body.width / 2,
+          ry: body.height / 2,
+          fill: palette.table_fill,
+          stroke: palette.table_stroke,
+          stroke_width: 0.35,
+        }
+      : { kind: "rect", ...body, fill: palette.table_fill, stroke: palette.table_stroke, stroke_width: 0.35 },
+  ];
+
+  const labelSize = Math.min(cell * 0.26, body.height * 0.35, 4.2);
+  const label = fitText(tableLabel(context.plan, table), body.width * 0.8, labelSize, measure, true);
+  items.push({
+    kind: "text",
+    x: centre.x,
+    y: centre.y + labelSize * 0.35,
+    text: label,
+    size: labelSize,
+    color: palette.text,
+    anchor: "middle",
+    bold: true,
+  });
+
+  const radius = CHAIR_RADIUS * cell;
+  const chairs = geometry.seats.map((seat) => ({ seat, cx: x + seat.x * cell, cy: y + seat.y * cell }));
+  for (const { seat, cx, cy } of chairs) {
+    const guestId = table.seats.find((entry) => entry.seat_no === seat.seat_no)?.guest_id;
+    const guest = guestId ? context.guests.get(guestId) : undefined;
+    const style = guest?.tag ? context.tags.get(guest.tag.trim()) : undefined;
+    items.push(...chairItems(cx, cy, radius, style, guest !== undefined, palette));
+    const side = table.shape === "round" ? sideFromAngle(seat.angle) : sideOfRect(cx, cy, body);
+
+    // Seat number sits between the chair and the table centre, guest label outside.
+    const inward = unit(centre.x - cx, centre.y - cy);
+    const numberSize = cell * 0.13;
+    items.push({
+      kind: "text",
+      x: cx + inward.x * (radius + cell * 0.14),
+      y: cy + inward.y * (radius + cell * 0.14) + numberSize * 0.35,
+      text: String(seatDisplayNumber(table, seat.seat_no)),
+      size: numberSize,
+      color: seat.is_head ? palette.text : palette.muted_text,
+      anchor: "middle",
+      bold: seat.is_head,
+    });
+
+    if (guest && context.guest_labels !== "none") {
+      const neighbours = chairs
+        .filter((other) => other.seat !== seat)
+        .map((other) => Math.hypot(other.cx - cx, other.cy - cy));
+      const spacing = Math.min(cell * 2, ...neighbours);
+      const chair = { cx, cy, radius, side };
+      items.push(...guestLabelItems(context, guest, chair, spacing, cell, bounds));
+    }
+  }
+  return items;
+}
+
+function sideFromAngle(angle: number): ChairSide {
+  if (angle > 45 && angle < 135) {
+    return "right";
+  }
+  if (angle >= 135 && angle <= 225) {
+    return "bottom";
+  }
+  return angle > 225 && angle < 315 ? "left" : "top";
+}
+
+function sideOfRect(cx: number, cy: number, body: SceneRect): ChairSide {
+  if (cy < body.y) {
+    return "top";
+  }
+  if (cy > body.y + body.height) {
+    return "bottom";
+  }
+  return cx < body.x + body.width / 2 ? "left" : "right";
+}
+
+function guestLabelItems(
+  context: TableDrawContext,
+  guest: GuestDTO,
+  chair: { cx: number; cy: number; radius: number; side: ChairSide },
+  spacing: number,
+  cell: number,
+  bounds?: SceneRect
+): ScenePrimitive[] {
+  const { cx, cy, radius, side } = chair;
+  const { palette, measure } = context;
+  const initials = guestInitials(guest);
+  const initialsSize = cell * 0.14;
+  const inChair: ScenePrimitive = {
+    kind: "text",
+    x: cx,
+    y: cy + initialsSize * 0.35,
+    text: initials,
+    size: initialsSize,
+    color: palette.text,
+    anchor: "middle",
+    bold: true,
+    halo: palette.background,
+  };
+  if (context.guest_labels === "initials") {
+    return [inChair];
+  }
+
+  // Names go outside the chair: beside it on the left/right sides, above/below it on top and
+  // bottom, where they may only be as wide as the gap to the next chair.
+  const size = Math.min(Math.max(cell * 0.15, 1.8), 3);
+  const gap = cell * 0.05;
+  let width = side === "left" || side === "right" ? cell * 2 : Math.max(spacing * 0.95, cell * 0.6);
+  if (bounds) {
+    const room = {
+      left: cx - radius - gap - bounds.x,
+      right: bounds.x + bounds.width - (cx + radius + gap),
+      centred: 2 * Math.min(cx - bounds.x, bounds.x + bounds.width - cx),
+    };
+    width = Math.min(width, side === "left" ? room.left : side === "right" ? room.right : room.centred);
+  }
+  const text = fitText(guest.name, width, size, measure);
+  if ([...text.replace(ELLIPSIS, "")].length < Math.min(3, [...guest.name].length)) {
+    return [inChair];
+  }
+  const base = { kind: "text" as const, text, size, color: palette.text, halo: palette.background };
+  switch (side) {
+    case "right":
+      return [{ ...base, x: cx + radius + gap, y: cy + size * 0.35, anchor: "start" }];
+    case "left":
+      return [{ ...base, x: cx - radius - gap, y: cy + size * 0.35, anchor: "end" }];
+    case "bottom":
+      return [{ ...base, x: cx, y: cy + radius + gap + size * 0.8, anchor: "middle" }];
+    default:
+      return [{ ...base, x: cx, y: cy - radius - gap, anchor: "middle" }];
+  }
+}
+
+function chairItems(
+  cx: number,
+  cy: number,
+  radius: number,
+  style: TagStyle | undefined,
+  occupied: boolean,
+  palette: ColorPalette
+): ScenePrimitive[] {
+  const items: ScenePrimitive[] = [
+    {
+      kind: "ellipse",
+      cx,
+      cy,
+      rx: radius,
+      ry: radius,
+      fill: style?.color ?? (occupied ? palette.chair_fill : palette.grid),
+      stroke: occupied ? palette.chair_stroke : palette.muted_text,
+      stroke_width: occupied ? 0.3 : 0.15,
+    },
+  ];
+  if (style) {
+    items.push(...patternItems(style.pattern, cx, cy, radius, palette.chair_stroke));
+  }
+  return items;
+}
+
+/** Hatching inside a circle; the non-colour half of a tag style. */
+export function patternItems(
+  pattern: SeatPattern,
+  cx: number,
+  cy: number,
+  radius: number,
+  stroke: string
+): ScenePrimitive[] {
+  const chords = (degrees: number, offsets: number[]): ScenePrimitive[] => {
+    const radians = (degrees * Math.PI) / 180;
+    const along = { x: Math.cos(radians), y: Math.sin(radians) };
+    const across = { x: -along.y, y: along.x };
+    return offsets.map((offset) => {
+      const half = Math.sqrt(Math.max(radius * radius - offset * offset, 0)) * 0.9;
+      const mx = cx + across.x * offset;
+      const my = cy + across.y * offset;
+      return {
+        kind: "line",
+        x1: mx - along.x * half,
+        y1: my - along.y * half,
+        x2: mx + along.x * half,
+        y2: my + along.y * half,
+        stroke,
+        stroke_width: Math.max(radius * 0.08, MM_PER_DOT),
+      };
+    });
+  };
+  const spread = [-radius / 2, 0, radius / 2];
+  switch (pattern) {
+    case "horizontal":
+      return chords(0, spread);
+    case "vertical":
+      return chords(90, spread);
+    case "diagonal":
+      return chords(45, spread);
+    case "crosshatch":
+      return [...chords(45, [-radius / 3, radius / 3]), ...chords(135, [-radius / 3, radius / 3])];
+    case "dots":
+      return [
+        [-1, -1],
+        [1, -1],
+        [-1, 1],
+        [1, 1],
+      ].map(([dx, dy]) => ({
+        kind: "ellipse",
+        cx: cx + dx * radius * 0.38,
+        cy: cy + dy * radius * 0.38,
+        rx: radius * 0.14,
+        ry: radius * 0.14,
+        fill: stroke,
+      }));
+    default:
+      return [];
+  }
+}
+
+// --------------------------------------------------------
+// Legend and notes
+// --------------------------------------------------------
+function legendItems(
+  context: TableDrawContext,
+  width: number,
+  unplaced: string[]
+): { items: ScenePrimitive[]; height: number } {
+  const { palette, measure } = context;
+  const size = 2.8;
+  const swatch = 1.8; // Radius
+  const entries: { label: string; draw: (x: number, y: number) => ScenePrimitive[] }[] = [
+    ...[...context.tags.values()].map((style) => ({
+      label: style.tag,
+      draw: (x: number, y: number) => chairItems(x, y, swatch, style, true, palette),
+    })),
+    { label: "No tag", draw: (x: number, y: number) => chairItems(x, y, swatch, undefined, true, palette) },
+    { label: "Empty seat", draw: (x: number, y: number) => chairItems(x, y, swatch, undefined, false, palette) },
+  ];
+
+  const items: ScenePrimitive[] = [
+    { kind: "text", x: 0, y: size, text: "Legend", size, color: palette.text, anchor: "start", bold: true },
+  ];
+  let x = measure("Legend", size, true) + 4;
+  let line = 0;
+  for (const entry of entries) {
+    const label = fitText(entry.label, width / 3, size, measure);
+    const entryWidth = swatch * 2 + 1.5 + measure(label, size) + 5;
+    if (x + entryWidth > width && x > 0) {
+      line++;
+      x = 0;
+    }
+    const baseline = line * LEGEND_LINE + size;
+    items.push(...entry.draw(x + swatch, baseline - size * 0.35));
+    items.push({
+      kind: "text",
+      x: x + swatch * 2 + 1.5,
+      y: baseline,
+      text: label,
+      size,
+      color: palette.text,
+      anchor: "start",
+    });
+    x += entryWidth;
+  }
+  line++;
+  items.push({
+    kind: "text",
+    x: 0,
+    y: line * LEGEND_LINE + size,
+    text: "Bold seat number = head seat. Patterns repeat tag colours for greyscale printing.",
+    size: size * 0.85,
+    color: palette.muted_text,
+    anchor: "start",
+  });
+  if (unplaced.length > 0) {
+    line++;
+    items.push({
+      kind: "text",
+      x: 0,
+      y: line * LEGEND_LINE + size,
+      text: fitText(`Not on the floorplan: ${unplaced.join(", ")}`, width, size * 0.85, measure),
+      size: size * 0.85,
+      color: palette.muted_text,
+      anchor: "start",
+    });
+  }
+  return { items, height: (line + 1) * LEGEND_LINE + 2 };
+}
+
+function notesPages(
+  context: TableDrawContext,
+  title: string,
+  page: { width: number; height: number },
+  palette: ColorPalette
+): ScenePage[] {
+  const { plan, measure } = context;
+  const size = 3;
+  const width = page.width - 2 * MARGIN;
+  const lines: { text: string; bold: boolean }[] = [];
+  for (const guest of plan.guests.filter((entry) => entry.note?.trim())) {
+    const location = locateGuest(plan, guest.id);
+    const where = location
+      ? `${tableLabel(plan, location.table)}, seat ${seatDisplayNumber(location.table, location.seat_no)}`
+      : "Unseated";
+    lines.push({ text: fitText(`${guest.name} — ${where}`, width, size, measure, true), bold: true });
+    lines.push(
+      ...wrapText(guest.note as string, width - 4, size, measure).map((text) => ({ text: `    ${text}`, bold: false }))
+    );
+  }
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const top = MARGIN + HEADER_HEIGHT + 2;
+  const perPage = Math.max(1, Math.floor((page.height - top - MARGIN - FOOTER_HEIGHT) / NOTE_LINE));
+  const pages: ScenePage[] = [];
+  for (let start = 0; start < lines.length; start += perPage) {
+    const items = lines.slice(start, start + perPage).map(
+      (line, index): ScenePrimitive => ({
+        kind: "text",
+        x: MARGIN,
+        y: top + (index + 1) * NOTE_LINE,
+        text: line.text,
+        size,
+        color: palette.text,
+        anchor: "start",
+        bold: line.bold,
+      })
+    );
+    pages.push({
+      ...page,
+      background: palette.background,
+      layers: [{ items: [...headerItems(title, "Guest notes", page.width, palette), ...items] }],
+    });
+  }
+  return pages;
+}
+
+// --------------------------------------------------------
+// Geometry helpers
+// --------------------------------------------------------
+function unit(dx: number, dy: number): { x: number; y: number } {
+  const length = Math.hypot(dx, dy);
+  return length === 0 ? { x: 0, y: 1 } : { x: dx / length, y: dy / length };
+}
+
+function translate(items: ScenePrimitive[], dx: number, dy: number): ScenePrimitive[] {
+  return items.map((item) => {
+    switch (item.kind) {
+      case "rect":
+      case "text":
+        return { ...item, x: item.x + dx, y: item.y + dy };
+      case "ellipse":
+        return { ...item, cx: item.cx + dx, cy: item.cy + dy };
+      case "line":
+        return { ...item, x1: item.x1 + dx, y1: item.y1 + dy, x2: item.x2 + dx, y2: item.y2 + dy };
+    }
+  });
+}
+
+function snap(value: number): number {
+  return Math.round(value / MM_PER_DOT) * MM_PER_DOT;
+}
+
+function snapPrimitive(item: ScenePrimitive): ScenePrimitive {
+  switch (item.kind) {
+    case "rect":
+      return { ...item, x: snap(item.x), y: snap(item.y), width: snap(item.width), height: snap(item.height) };
+    case "line":
+      return { ...item, x1: snap(item.x1), y1: snap(item.y1), x2: snap(item.x2), y2: snap(item.y2) };
+    case "ellipse":
+      return { ...item, cx: snap(item.cx), cy: snap(item.cy) };
+    case "text":
+      return { ...item, x: snap(item.x), y: snap(item.y) };
+  }
+}
@@ -0,0 +1,76 @@
+// Export colour palettes keyed by PlanSettingsDTO.color_palette. Colours are "#rrggbb"; unknown
+// palette names fall back to "default" so old plans always render.
+
+export interface ColorPalette {
+  name: string;
+  background: string;
+  grid: string;
+  table_fill: string;
+  table_stroke: string;
+  chair_fill: string; // Empty chair / guest without a tag
+  chair_stroke: string;
+  text: string;
+  muted_text: string;
+  tag_colors: readonly string[]; // Assigned to tags in alphabetical order, then repeated
+}
+
+export const DEFAULT_PALETTE = "default";
+
+const PALETTES: Record<string, ColorPalette> = {
+  default: {
+    name: "default",
+    background: "#ffffff",
+    grid: "#e2e5ea",
+    table_fill: "#f4efe6",
+    table_stroke: "#8a7a5c",
+    chair_fill: "#ffffff",
+    chair_stroke: "#4a4a4a",
+    text: "#1f2328",
+    muted_text: "#6b7280",
+    tag_colors: ["#e07a5f", "#3d85c6", "#81b29a", "#f2cc8f", "#9c6ade", "#e5989b", "#5fa8d3", "#b5838d"],
+  },
+  pastel: {
+    name: "pastel",
+    background: "#ffffff",
+    grid: "#ece8f2",
+    table_fill: "#faf6fb",
+    table_stroke: "#a393b8",
+    chair_fill: "#ffffff",
+    chair_stroke: "#7d7190",
+    text: "#2d2640",
+    muted_text: "#7d7190",
+    tag_colors: ["#f7c6c7", "#c6dbf7", "#c8e6c9", "#fff1b8", "#e1c6f7", "#ffd8b1", "#b8e6e1", "#e6d3b8"],
+  },
+  vivid: {
+    name: "vivid",
+    background: "#ffffff",
+    grid: "#d9dde3",
+    table_fill: "#eef2f7",
+    table_stroke: "#1f3a5f",
+    chair_fill: "#ffffff",
+    chair_stroke: "#1f2328",
+    text: "#111111",
+    muted_text: "#4b5563",
+    tag_colors: ["#d62828", "#0077b6", "#2a9d8f", "#f4a261", "#7b2cbf", "#e76f51", "#00b4d8", "#6a994e"],
+  },
+  grayscale: {
+    name: "grayscale",
+    background: "#ffffff",
+    grid: "#e5e5e5",
+    table_fill: "#f2f2f2",
+    table_stroke: "#555555",
+    chair_fill: "#ffffff",
+    chair_stroke: "#333333",
+    text: "#000000",
+    muted_text: "#666666",
+    tag_colors: ["#d9d9d9", "#bfbfbf", "#a6a6a6", "#8c8c8c", "#cccccc", "#b3b3b3", "#999999", "#808080"],
+  },
+};
+
+export function resolvePalette(name: string | undefined): ColorPalette {
+  return name && Object.hasOwn(PALETTES, name) ? PALETTES[name] : PALETTES[DEFAULT_PALETTE];
+}
+
+export function paletteNames(): string[] {
+  return Object.keys(PALETTES);
+}
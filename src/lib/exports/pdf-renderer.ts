@@ -0,0 +1,201 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+
+import fontkit from "@pdf-lib/fontkit";
+import {
+  clip,
+  endPath,
+  PDFDocument,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  type Color,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+
+import type { GridSizeDTO, PlanDataDTO } from "../../types";
+import {
+  buildFloorplanScene,
+  type FloorplanScene,
+  type FloorplanSceneOptions,
+  type ScenePage,
+  type ScenePrimitive,
+  type TextMeasure,
+} from "./floorplan-scene";
+
+// Vector PDF output for export scenes (FR-050). Fonts are embedded (subset) so guest names in
+// any Latin, Greek or Cyrillic script print without a font service.
+
+export const PDF_CONTENT_TYPE = "application/pdf";
+
+const PT_PER_MM = 72 / 25.4;
+const FONT_FILES = { regular: "DejaVuSansCondensed.ttf", bold: "DejaVuSansCondensed-Bold.ttf" } as const;
+
+export type FontFace = keyof typeof FONT_FILES;
+
+const fontBytes = new Map<FontFace, Promise<Uint8Array>>();
+
+/** Path of an export font file; the PNG rasterizer loads fonts from disk. */
+export function exportFontPath(face: FontFace): string {
+  return createRequire(import.meta.url).resolve(`dejavu-fonts-ttf/ttf/${FONT_FILES[face]}`);
+}
+
+/** Raw TTF bytes of the export fonts (shared with the PNG rasterizer). */
+export function loadExportFont(face: FontFace): Promise<Uint8Array> {
+  let bytes = fontBytes.get(face);
+  if (!bytes) {
+    bytes = readFile(exportFontPath(face)).then((buffer) => new Uint8Array(buffer));
+    fontBytes.set(face, bytes);
+  }
+  return bytes;
+}
+
+interface PdfFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+async function embedFonts(pdf: PDFDocument): Promise<PdfFonts> {
+  pdf.registerFontkit(fontkit);
+  const [regular, bold] = await Promise.all([loadExportFont("regular"), loadExportFont("bold")]);
+  return {
+    regular: await pdf.embedFont(regular, { subset: true }),
+    bold: await pdf.embedFont(bold, { subset: true }),
+  };
+}
+
+function measureWith(fonts: PdfFonts): TextMeasure {
+  // Widths scale linearly with size, so measuring in mm at an mm size yields mm.
+  return (text, size, bold) => (bold ? fonts.bold : fonts.regular).widthOfTextAtSize(text, size);
+}
+
+export type FloorplanPdfOptions = Omit<FloorplanSceneOptions, "measure">;
+
+export async function renderFloorplanPdf(
+  plan: PlanDataDTO,
+  grid: GridSizeDTO,
+  options: FloorplanPdfOptions
+): Promise<Uint8Array> {
+  return renderScenePdf((measure) => buildFloorplanScene(plan, grid, { ...options, measure }), options.generated_at);
+}
+
+/** Renders any scene; `build` gets a measure backed by the embedded fonts. */
+export async function renderScenePdf(
+  build: (measure: TextMeasure) => FloorplanScene,
+  generatedAt: Date
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts = await embedFonts(pdf);
+  const scene = build(measureWith(fonts));
+  pdf.setTitle(scene.title);
+  pdf.setCreationDate(generatedAt);
+  pdf.setModificationDate(generatedAt);
+  for (const scenePage of scene.pages) {
+    drawPage(pdf.addPage([scenePage.width * PT_PER_MM, scenePage.height * PT_PER_MM]), scenePage, fonts);
+  }
+  return pdf.save();
+}
+
+function drawPage(page: PDFPage, scenePage: ScenePage, fonts: PdfFonts): void {
+  const height = scenePage.height;
+  // Scene coordinates are mm from the top-left; PDF user space is points from the bottom-left.
+  const x = (value: number) => value * PT_PER_MM;
+  const y = (value: number) => (height - value) * PT_PER_MM;
+
+  page.drawRectangle({
+    x: 0,
+    y: 0,
+    width: page.getWidth(),
+    height: page.getHeight(),
+    color: color(scenePage.background),
+  });
+  for (const layer of scenePage.layers) {
+    if (layer.clip) {
+      const area = layer.clip;
+      page.pushOperators(
+        pushGraphicsState(),
+        rectangle(x(area.x), y(area.y + area.height), x(area.width), x(area.height)),
+        clip(),
+        endPath()
+      );
+    }
+    for (const item of layer.items) {
+      drawPrimitive(page, item, fonts, x, y);
+    }
+    if (layer.clip) {
+      page.pushOperators(popGraphicsState());
+    }
+  }
+}
+
+function drawPrimitive(
+  page: PDFPage,
+  item: ScenePrimitive,
+  fonts: PdfFonts,
+  x: (value: number) => number,
+  y: (value: number) => number
+): void {
+  switch (item.kind) {
+    case "rect":
+      page.drawRectangle({
+        x: x(item.x),
+        y: y(item.y + item.height),
+        width: x(item.width),
+        height: x(item.height),
+        color: item.fill ? color(item.fill) : undefined,
+        borderColor: item.stroke ? color(item.stroke) : undefined,
+        borderWidth: item.stroke ? x(item.stroke_width ?? 0.2) : 0,
+      });
+      return;
+    case "ellipse":
+      page.drawEllipse({
+        x: x(item.cx),
+        y: y(item.cy),
+        xScale: x(item.rx),
+        yScale: x(item.ry),
+        color: item.fill ? color(item.fill) : undefined,
+        borderColor: item.stroke ? color(item.stroke) : undefined,
+        borderWidth: item.stroke ? x(item.stroke_width ?? 0.2) : 0,
+      });
+      return;
+    case "line":
+      page.drawLine({
+        start: { x: x(item.x1), y: y(item.y1) },
+        end: { x: x(item.x2), y: y(item.y2) },
+        thickness: x(item.stroke_width),
+        color: color(item.stroke),
+        dashArray: item.dash?.map(x),
+      });
+      return;
+    case "text": {
+      if (!item.text) {
+        return;
+      }
+      const font = item.bold ? fonts.bold : fonts.regular;
+      const size = x(item.size);
+      const width = font.widthOfTextAtSize(item.text, size);
+      const left =
+        item.anchor === "middle" ? x(item.x) - width / 2 : item.anchor === "end" ? x(item.x) - width : x(item.x);
+      if (item.halo) {
+        const pad = size * 0.12;
+        page.drawRectangle({
+          x: left - pad,
+          y: y(item.y) - size * 0.25,
+          width: width + 2 * pad,
+          height: size * 1.05,
+          color: color(item.halo),
+          opacity: 0.85,
+        });
+      }
+      page.drawText(item.text, { x: left, y: y(item.y), size, font, color: color(item.color) });
+      return;
+    }
+  }
+}
+
+function color(hex: string): Color {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
@@ -0,0 +1,150 @@
+import fontkit from "@pdf-lib/fontkit";
+import { Resvg } from "@resvg/resvg-js";
+
+import type { GridSizeDTO, PlanDataDTO } from "../../types";
+import {
+  buildFloorplanImageScene,
+  PRINT_DPI,
+  type FloorplanImageOptions,
+  type ScenePage,
+  type ScenePrimitive,
+  type TextMeasure,
+} from "./floorplan-scene";
+import { exportFontPath, loadExportFont, type FontFace } from "./pdf-renderer";
+
+// Raster PNG output for export scenes (FR-051). Scenes are serialised to SVG in mm and
+// rasterised with resvg using the same fonts as the PDF, so both exports match.
+
+export const PNG_CONTENT_TYPE = "image/png";
+export const MAX_PNG_PIXELS = 40_000_000; // ~160 MB of RGBA while rendering
+
+const FONT_FAMILY = "DejaVu Sans Condensed";
+
+type LayoutFont = ReturnType<typeof fontkit.create>;
+
+const layoutFonts = new Map<FontFace, Promise<LayoutFont>>();
+
+function layoutFont(face: FontFace): Promise<LayoutFont> {
+  let font = layoutFonts.get(face);
+  if (!font) {
+    font = loadExportFont(face).then((bytes) => fontkit.create(bytes));
+    layoutFonts.set(face, font);
+  }
+  return font;
+}
+
+async function exportMeasure(): Promise<TextMeasure> {
+  const [regular, bold] = await Promise.all([layoutFont("regular"), layoutFont("bold")]);
+  return (text, size, isBold) => {
+    const font = isBold ? bold : regular;
+    return (font.layout(text).advanceWidth / font.unitsPerEm) * size;
+  };
+}
+
+export type FloorplanPngOptions = Omit<FloorplanImageOptions, "measure">;
+
+export interface FloorplanPngScene {
+  page: ScenePage;
+  measure: TextMeasure;
+}
+
+/** Lays out the image; undefined when `table_id` is not in the plan. */
+export async function buildFloorplanPngScene(
+  plan: PlanDataDTO,
+  grid: GridSizeDTO,
+  options: FloorplanPngOptions
+): Promise<FloorplanPngScene | undefined> {
+  const measure = await exportMeasure();
+  const page = buildFloorplanImageScene(plan, grid, { ...options, measure });
+  return page && { page, measure };
+}
+
+/** Pixel size of a scene at `scale` × 300 dpi. */
+export function pngPixelSize(page: ScenePage, scale: number): { width: number; height: number } {
+  const pxPerMm = (PRINT_DPI / 25.4) * scale;
+  return { width: Math.round(page.width * pxPerMm), height: Math.round(page.height * pxPerMm) };
+}
+
+export function renderScenePng(scene: FloorplanPngScene, scale: number): Uint8Array {
+  const size = pngPixelSize(scene.page, scale);
+  const resvg = new Resvg(sceneSvg(scene, size), {
+    font: {
+      loadSystemFonts: false,
+      fontFiles: [exportFontPath("regular"), exportFontPath("bold")],
+      defaultFontFamily: FONT_FAMILY,
+    },
+    shapeRendering: 2,
+    textRendering: 1,
+  });
+  return new Uint8Array(resvg.render().asPng());
+}
+
+function sceneSvg({ page, measure }: FloorplanPngScene, size: { width: number; height: number }): string {
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}"`,
+    ` viewBox="0 0 ${num(page.width)} ${num(page.height)}" font-family="${FONT_FAMILY}">`,
+    `<rect width="100%" height="100%" fill="${page.background}"/>`,
+  ];
+  page.layers.forEach((layer, index) => {
+    const items = layer.items.map((item) => primitiveSvg(item, measure)).join("");
+    if (layer.clip) {
+      const { x, y, width, height } = layer.clip;
+      parts.push(
+        `<clipPath id="clip${index}"><rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}"/></clipPath>`,
+        `<g clip-path="url(#clip${index})">${items}</g>`
+      );
+    } else {
+      parts.push(items);
+    }
+  });
+  parts.push("</svg>");
+  return parts.join("");
+}
+
+function primitiveSvg(item: ScenePrimitive, measure: TextMeasure): string {
+  switch (item.kind) {
+    case "rect":
+      return `<rect x="${num(item.x)}" y="${num(item.y)}" width="${num(item.width)}" height="${num(item.height)}"${paint(item)}/>`;
+    case "ellipse":
+      return `<ellipse cx="${num(item.cx)}" cy="${num(item.cy)}" rx="${num(item.rx)}" ry="${num(item.ry)}"${paint(item)}/>`;
+    case "line":
+      return (
+        `<line x1="${num(item.x1)}" y1="${num(item.y1)}" x2="${num(item.x2)}" y2="${num(item.y2)}"` +
+        ` stroke="${item.stroke}" stroke-width="${num(item.stroke_width)}"` +
+        (item.dash ? ` stroke-dasharray="${item.dash.map(num).join(" ")}"/>` : "/>")
+      );
+    case "text": {
+      if (!item.text) {
+        return "";
+      }
+      let halo = "";
+      if (item.halo) {
+        // Same box as the PDF renderer: a little padding around the advance width.
+        const width = measure(item.text, item.size, item.bold);
+        const left = item.anchor === "middle" ? item.x - width / 2 : item.anchor === "end" ? item.x - width : item.x;
+        const pad = item.size * 0.12;
+        halo =
+          `<rect x="${num(left - pad)}" y="${num(item.y - item.size * 0.8)}" width="${num(width + 2 * pad)}"` +
+          ` height="${num(item.size * 1.05)}" fill="${item.halo}" fill-opacity="0.85"/>`;
+      }
+      const weight = item.bold ? ' font-weight="bold"' : "";
+      return (
+        `${halo}<text x="${num(item.x)}" y="${num(item.y)}" font-size="${num(item.size)}"${weight}` +
+        ` text-anchor="${item.anchor}" fill="${item.color}" xml:space="preserve">${escapeXml(item.text)}</text>`
+      );
+    }
+  }
+}
+
+function paint(item: { fill?: string; stroke?: string; stroke_width?: number }): string {
+  const fill = ` fill="${item.fill ?? "none"}"`;
+  return item.stroke ? `${fill} stroke="${item.stroke}" stroke-width="${num(item.stroke_width ?? 0.2)}"` : fill;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => `&${{ "&": "amp", "<": "lt", ">": "gt", '"': "quot" }[char]};`);
+}
@@ -0,0 +1,390 @@
+import type { GuestDTO, PlanDataDTO, TableDTO } from "../../types";
+import { seatDisplayNumber } from "../plan/seat-geometry";
+import {
+  fitText,
+  tableLabel,
+  type FloorplanScene,
+  type ScenePage,
+  type ScenePrimitive,
+  type TextMeasure,
+} from "./floorplan-scene";
+import { resolvePalette, type ColorPalette } from "./palettes";
+
+// Printed stationery built from the seating plan: folded place cards for every seated guest
+// and an alphabetical "find your table" escort poster. Both are scenes for the PDF renderer.
+
+export type PaperSize = "a4" | "a3" | "letter" | "tabloid";
+
+export const PAPER_MM: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+  letter: { width: 215.9, height: 279.4 },
+  tabloid: { width: 279.4, height: 431.8 },
+};
+
+// Flat (unfolded) place card; folded across the middle into a tent. Metric sheets use A6
+// (A7 when folded), US sheets the usual 4.25 × 5.5 in tent card.
+const METRIC_CARD = { width: 148, height: 105 };
+const US_CARD = { width: 139.7, height: 107.95 };
+const CARD_PADDING = 8;
+const CUT_LINE = "#b0b0b0";
+
+const POSTER_MARGIN = 15;
+const POSTER_COLUMN_MIN = 62; // Narrowest column before fewer columns are used
+const POSTER_GUTTER = 8;
+
+/** Meal badges derived from guest notes and age group, in display order. */
+export type MealIcon = "VG" | "V" | "F" | "GF" | "K";
+
+const MEAL_KEYWORDS: [Exclude<MealIcon, "K">, RegExp][] = [
+  ["VG", /\b(vegan|wegan)/i],
+  ["V", /\b(vegetarian|veggie|wegetaria)/i],
+  ["F", /\b(pescatarian|fish|ryb)/i],
+  ["GF", /(gluten|coeliac|celiac|celiak)/i],
+];
+
+export interface PlaceCardOptions {
+  title: string; // Event name, printed small under the table
+  paper: PaperSize;
+  meal_icons: boolean;
+}
+
+export interface EscortPosterOptions {
+  title: string;
+  paper: PaperSize;
+}
+
+interface SeatedGuest {
+  guest: GuestDTO;
+  table: TableDTO;
+  label: string;
+  seat: number; // Display number
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+/** Seated guests in table label then seat order, which is how cards are laid out on the day. */
+function seatedGuests(plan: PlanDataDTO): SeatedGuest[] {
+  const guests = new Map(plan.guests.map((guest) => [guest.id, guest]));
+  return plan.tables
+    .map((table) => ({ table, label: tableLabel(plan, table) }))
+    .sort((a, b) => collator.compare(a.label, b.label))
+    .flatMap(({ table, label }) =>
+      table.seats
+        .filter((seat) => seat.guest_id && guests.has(seat.guest_id))
+        .sort((a, b) => a.seat_no - b.seat_no)
+        .map((seat) => ({
+          guest: guests.get(seat.guest_id as string) as GuestDTO,
+          table,
+          label,
+          seat: seatDisplayNumber(table, seat.seat_no),
+        }))
+    );
+}
+
+export function mealIcons(guest: GuestDTO): MealIcon[] {
+  const icons: MealIcon[] = MEAL_KEYWORDS.filter(([, pattern]) => pattern.test(guest.note ?? "")).map(([icon]) => icon);
+  // Vegan already implies vegetarian.
+  const meals = icons.includes("VG") ? icons.filter((icon) => icon !== "V") : icons;
+  return guest.age_group === "child" ? [...meals, "K"] : meals;
+}
+
+/** Largest size up to `size` (down to `min`) at which `text` fits `width`, then truncated. */
+function fitToWidth(
+  text: string,
+  width: number,
+  size: number,
+  min: number,
+  measure: TextMeasure,
+  bold = false
+): { text: string; size: number } {
+  const natural = measure(text, size, bold);
+  const fitted = natural <= width ? size : Math.max(min, (size * width) / natural);
+  return { text: fitText(text, width, fitted, measure, bold), size: fitted };
+}
+
+// --------------------------------------------------------
+// Place cards
+// --------------------------------------------------------
+
+/** One folded card per seated guest, tiled on the sheet in whichever orientation fits more. */
+export function buildPlaceCardScene(
+  plan: PlanDataDTO,
+  options: PlaceCardOptions,
+  measure: TextMeasure
+): FloorplanScene {
+  const palette = resolvePalette(plan.settings.color_palette);
+  const card = options.paper === "letter" || options.paper === "tabloid" ? US_CARD : METRIC_CARD;
+  const sheet = sheetLayout(PAPER_MM[options.paper], card);
+  const guests = seatedGuests(plan);
+  const perSheet = sheet.cols * sheet.rows;
+  const pages: ScenePage[] = [];
+
+  for (let start = 0; start < guests.length; start += perSheet) {
+    const items = guests.slice(start, start + perSheet).flatMap((entry, index) => {
+      const x = sheet.left + (index % sheet.cols) * card.width;
+      const y = sheet.top + Math.floor(index / sheet.cols) * card.height;
+      return placeCardItems(entry, x, y, card, palette, options, measure);
+    });
+    pages.push({ ...sheet.page, background: palette.background, layers: [{ items }] });
+  }
+  if (pages.length === 0) {
+    pages.push({ ...sheet.page, background: palette.background, layers: [] });
+  }
+  return { title: `${options.title} · Place cards`, pages };
+}
+
+function sheetLayout(
+  paper: { width: number; height: number },
+  card: { width: number; height: number }
+): { page: { width: number; height: number }; cols: number; rows: number; left: number; top: number } {
+  const portrait = { width: paper.width, height: paper.height };
+  const landscape = { width: paper.height, height: paper.width };
+  const fit = (page: { width: number; height: number }) => ({
+    page,
+    cols: Math.floor(page.width / card.width),
+    rows: Math.floor(page.height / card.height),
+  });
+  const [best] = [fit(portrait), fit(landscape)].sort((a, b) => b.cols * b.rows - a.cols * a.rows);
+  return {
+    ...best,
+    // Cards are centred so the cut lines fall inside the printable area where possible.
+    left: (best.page.width - best.cols * card.width) / 2,
+    top: (best.page.height - best.rows * card.height) / 2,
+  };
+}
+
+function placeCardItems(
+  entry: SeatedGuest,
+  x: number,
+  y: number,
+  card: { width: number; height: number },
+  palette: ColorPalette,
+  options: PlaceCardOptions,
+  measure: TextMeasure
+): ScenePrimitive[] {
+  const fold = y + card.height / 2;
+  const front = { top: fold, height: card.height / 2 }; // Faces the guest once folded
+  const width = card.width - 2 * CARD_PADDING;
+  const centre = x + card.width / 2;
+  const name = fitToWidth(entry.guest.name, width, 9, 5, measure, true);
+  const table = fitToWidth(`${entry.label} · Seat ${entry.seat}`, width, 4.5, 3, measure);
+
+  const items: ScenePrimitive[] = [
+    // Cut lines on all four edges; neighbouring cards share them.
+    cutLine(x, y, x + card.width, y),
+    cutLine(x, y + card.height, x + card.width, y + card.height),
+    cutLine(x, y, x, y + card.height),
+    cutLine(x + card.width, y, x + card.width, y + card.height),
+    // Fold line.
+    {
+      kind: "line",
+      x1: x + CARD_PADDING / 2,
+      y1: fold,
+      x2: x + card.width - CARD_PADDING / 2,
+      y2: fold,
+      stroke: palette.grid,
+      stroke_width: 0.2,
+      dash: [0.4, 1],
+    },
+    {
+      kind: "text",
+      x: centre,
+      y: front.top + front.height * 0.48,
+      text: name.text,
+      size: name.size,
+      color: palette.text,
+      anchor: "middle",
+      bold: true,
+    },
+    {
+      kind: "text",
+      x: centre,
+      y: front.top + front.height * 0.48 + name.size * 0.5 + table.size * 1.4,
+      text: table.text,
+      size: table.size,
+      color: palette.muted_text,
+      anchor: "middle",
+    },
+    {
+      kind: "text",
+      x: centre,
+      y: front.top + front.height - CARD_PADDING / 2,
+      text: fitText(options.title, width * 0.6, 2.6, measure),
+      size: 2.6,
+      color: palette.muted_text,
+      anchor: "middle",
+    },
+  ];
+  if (options.meal_icons) {
+    const right = x + card.width - CARD_PADDING;
+    const bottom = front.top + front.height - CARD_PADDING / 2 - 1;
+    mealIcons(entry.guest)
+      .reverse()
+      .forEach((icon, index) => items.push(...badgeItems(icon, right - 3 - index * 7.5, bottom, palette)));
+  }
+  return items;
+}
+
+function cutLine(x1: number, y1: number, x2: number, y2: number): ScenePrimitive {
+  return { kind: "line", x1, y1, x2, y2, stroke: CUT_LINE, stroke_width: 0.2, dash: [1.5, 1.5] };
+}
+
+function badgeItems(icon: MealIcon, cx: number, cy: number, palette: ColorPalette): ScenePrimitive[] {
+  return [
+    { kind: "ellipse", cx, cy, rx: 3, ry: 3, fill: palette.background, stroke: palette.text, stroke_width: 0.3 },
+    {
+      kind: "text",
+      x: cx,
+      y: cy + 0.95,
+      text: icon,
+      size: icon.length > 1 ? 2.4 : 2.8,
+      color: palette.text,
+      anchor: "middle",
+      bold: true,
+    },
+  ];
+}
+
+// --------------------------------------------------------
+// Escort poster
+// --------------------------------------------------------
+
+function initialOf(name: string): string {
+  const letter = name.trim().normalize("NFD").replace(/\p{M}/gu, "").charAt(0).toUpperCase();
+  return /\p{L}/u.test(letter) ? letter : "#";
+}
+
+/** Alphabetical guest → table list grouped by first letter, flowing down columns and pages. */
+export function buildEscortPosterScene(
+  plan: PlanDataDTO,
+  options: EscortPosterOptions,
+  measure: TextMeasure
+): FloorplanScene {
+  const palette = resolvePalette(plan.settings.color_palette);
+  const page = PAPER_MM[options.paper];
+  const large = options.paper === "a3" || options.paper === "tabloid";
+  const size = large ? 4.6 : 3.4;
+  const line = size * 1.45;
+  const headingSize = size * 1.7;
+  const heading = headingSize * 1.5;
+  const inner = page.width - 2 * POSTER_MARGIN;
+  const cols = Math.max(1, Math.floor((inner + POSTER_GUTTER) / (POSTER_COLUMN_MIN + POSTER_GUTTER)));
+  const columnWidth = (inner - (cols - 1) * POSTER_GUTTER) / cols;
+  const top = POSTER_MARGIN + (large ? 34 : 26);
+  const bottom = page.height - POSTER_MARGIN;
+
+  const entries = seatedGuests(plan).sort((a, b) => collator.compare(a.guest.name, b.guest.name));
+  const groups = new Map<string, SeatedGuest[]>();
+  for (const entry of entries) {
+    const letter = initialOf(entry.guest.name);
+    groups.set(letter, [...(groups.get(letter) ?? []), entry]);
+  }
+
+  const pages: ScenePrimitive[][] = [[]];
+  let column = 0;
+  let y = top;
+  const nextColumn = () => {
+    column += 1;
+    if (column === cols) {
+      column = 0;
+      pages.push([]);
+    }
+    y = top;
+  };
+  for (const [letter, group] of groups) {
+    // Keep a heading together with at least its first entry.
+    if (y + heading + line > bottom) {
+      nextColumn();
+    }
+    const x = POSTER_MARGIN + column * (columnWidth + POSTER_GUTTER);
+    pages[pages.length - 1].push(
+      {
+        kind: "text",
+        x,
+        y: y + headingSize,
+        text: letter,
+        size: headingSize,
+        color: palette.text,
+        anchor: "start",
+        bold: true,
+      },
+      {
+        kind: "line",
+        x1: x,
+        y1: y + headingSize + 1.2,
+        x2: x + columnWidth,
+        y2: y + headingSize + 1.2,
+        stroke: palette.grid,
+        stroke_width: 0.3,
+      }
+    );
+    y += heading;
+    for (const entry of group) {
+      if (y + line > bottom) {
+        nextColumn();
+      }
+      const left = POSTER_MARGIN + column * (columnWidth + POSTER_GUTTER);
+      const label = fitText(entry.label, columnWidth * 0.4, size, measure, true);
+      const nameWidth = columnWidth - measure(label, size, true) - 3;
+      pages[pages.length - 1].push(
+        {
+          kind: "text",
+          x: left,
+          y: y + size,
+          text: fitText(entry.guest.name, nameWidth, size, measure),
+          size,
+          color: palette.text,
+          anchor: "start",
+        },
+        {
+          kind: "text",
+          x: left + columnWidth,
+          y: y + size,
+          text: label,
+          size,
+          color: palette.text,
+          anchor: "end",
+          bold: true,
+        }
+      );
+      y += line;
+    }
+    y += line * 0.6;
+  }
+
+  const title = fitToWidth(options.title, inner, large ? 12 : 9, 6, measure, true);
+  return {
+    title: `${options.title} · Find your table`,
+    pages: pages.map((items, index) => ({
+      ...page,
+      background: palette.background,
+      layers: [
+        {
+          items: [
+            {
+              kind: "text",
+              x: page.width / 2,
+              y: POSTER_MARGIN + title.size,
+              text: title.text,
+              size: title.size,
+              color: palette.text,
+              anchor: "middle",
+              bold: true,
+            },
+            {
+              kind: "text",
+              x: page.width / 2,
+              y: POSTER_MARGIN + title.size + (large ? 9 : 7),
+              text: pages.length > 1 ? `Find your table · ${index + 1} / ${pages.length}` : "Find your table",
+              size: large ? 5.5 : 4,
+              color: palette.muted_text,
+              anchor: "middle",
+            },
+            ...items,
+          ],
+        },
+      ],
+    })),
+  };
+}
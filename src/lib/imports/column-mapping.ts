@@ -0,0 +1,92 @@
+import type { GuestImportColumn, ImportColumnMappingDTO, ImportSourceColumnDTO } from "../../types";
+import { GUEST_IMPORT_COLUMNS } from "./guest-import-template";
+import { ImportError } from "./import-errors";
+
+// Header auto-detection against the canonical template. Headers are compared after
+// lower-casing and stripping spaces, underscores and dashes, so "Initial table",
+// "initial_table" and "InitialTable" all match.
+
+const HEADER_ALIASES: Record<GuestImportColumn, readonly string[]> = {
+  Name: ["name", "guest", "guestname", "fullname", "names"],
+  InitialTable: ["initialtable", "table", "tablename", "tableno", "tablenumber", "seatingtable"],
+  Note: ["note", "notes", "comment", "comments", "dietary", "remarks"],
+  OptionalTag: ["optionaltag", "tag", "tags", "group", "category", "side"],
+  Party: ["party", "household", "family", "partyname"],
+  Child: ["child", "kid", "ischild", "agegroup"],
+};
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-.]+/g, "");
+}
+
+export function emptyColumnMapping(): ImportColumnMappingDTO {
+  return Object.fromEntries(GUEST_IMPORT_COLUMNS.map((column) => [column, null])) as ImportColumnMappingDTO;
+}
+
+/** Maps each canonical column to the first matching header; unknown headers stay unmapped. */
+export function detectColumnMapping(headers: string[]): ImportColumnMappingDTO {
+  const mapping = emptyColumnMapping();
+  const used = new Set<number>();
+  for (const column of GUEST_IMPORT_COLUMNS) {
+    const aliases = HEADER_ALIASES[column];
+    const index = headers.findIndex(
+      (header, position) => !used.has(position) && aliases.includes(normalizeHeader(header))
+    );
+    if (index !== -1) {
+      mapping[column] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+/** Applies a user override; every index must exist in the sheet and be used at most once. */
+export function applyMappingOverride(
+  current: ImportColumnMappingDTO,
+  override: Partial<ImportColumnMappingDTO>,
+  columnCount: number
+): ImportColumnMappingDTO {
+  const mapping = { ...current };
+  for (const column of GUEST_IMPORT_COLUMNS) {
+    const index = override[column];
+    if (index === undefined) {
+      continue;
+    }
+    if (index !== null && (!Number.isInteger(index) || index < 0 || index >= columnCount)) {
+      throw new ImportError("INVALID_COLUMN_MAPPING", `Column index for ${column} is out of range`, {
+        column,
+        index,
+        column_count: columnCount,
+      });
+    }
+    mapping[column] = index;
+  }
+
+  const seen = new Map<number, GuestImportColumn>();
+  for (const column of GUEST_IMPORT_COLUMNS) {
+    const index = mapping[column];
+    if (index === null) {
+      continue;
+    }
+    const other = seen.get(index);
+    if (other) {
+      throw new ImportError("INVALID_COLUMN_MAPPING", `${other} and ${column} are mapped to the same column`, {
+        columns: [other, column],
+        index,
+      });
+    }
+    seen.set(index, column);
+  }
+  return mapping;
+}
+
+export function describeColumns(headers: string[], mapping: ImportColumnMappingDTO): ImportSourceColumnDTO[] {
+  const mappedTo = new Map<number, GuestImportColumn>();
+  for (const column of GUEST_IMPORT_COLUMNS) {
+    const index = mapping[column];
+    if (index !== null) {
+      mappedTo.set(index, column);
+    }
+  }
+  return headers.map((header, index) => ({ index, header, mapped_to: mappedTo.get(index) ?? null }));
+}
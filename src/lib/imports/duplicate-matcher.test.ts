@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  findDuplicateClusters,
+  foldName,
+  importRowMemberId,
+  nameSimilarity,
+  SUGGEST_THRESHOLD,
+  type MatchCandidate,
+} from "./duplicate-matcher";
+
+function row(rowNumber: number, name: string): MatchCandidate {
+  return { id: importRowMemberId(rowNumber), name, row_number: rowNumber };
+}
+
+describe("foldName", () => {
+  it("drops case, diacritics and punctuation", () => {
+    expect(foldName("  Łukasz  Żółć-Nowak ")).toBe("lukasz zolc nowak");
+    expect(foldName("Søren O'Brien")).toBe("soren o brien");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("scores identical names after folding as 1", () => {
+    expect(nameSimilarity("Zoë Kowalska", "zoe KOWALSKA")).toBe(1);
+  });
+
+  it("matches nicknames and reordered names", () => {
+    expect(nameSimilarity("Bob Smith", "Robert Smith")).toBe(0.95);
+    expect(nameSimilarity("Smith John", "John Smith")).toBe(0.93);
+    expect(nameSimilarity("Kasia Nowak", "Katarzyna Nowak")).toBe(0.95);
+  });
+
+  it("matches an initial against the full given name", () => {
+    expect(nameSimilarity("J Smith", "John Smith")).toBe(0.85);
+  });
+
+  it("tolerates small typos, including transpositions", () => {
+    expect(nameSimilarity("Jonathan Smith", "Jonahtan Smith")).toBeGreaterThanOrEqual(SUGGEST_THRESHOLD);
+  });
+
+  it("does not match different people", () => {
+    expect(nameSimilarity("Anna Nowak", "Maria Kowalska")).toBeLessThan(SUGGEST_THRESHOLD);
+    expect(nameSimilarity("", "Anna")).toBe(0);
+  });
+});
+
+describe("findDuplicateClusters", () => {
+  const existing: MatchCandidate[] = [
+    { id: "g1", name: "Robert Smith" },
+    { id: "g2", name: "Bob Smith" },
+    { id: "g3", name: "Anna Nowak" },
+  ];
+
+  it("links import rows to existing guests and reports the weakest link", () => {
+    const clusters = findDuplicateClusters([row(2, "Ania Nowak"), row(3, "Maria Kowalska")], existing);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members.map((member) => member.id)).toEqual(["g3", "row:2"]);
+    expect(clusters[0].confidence).toBe(0.95);
+  });
+
+  it("never reports a group made only of existing guests", () => {
+    expect(findDuplicateClusters([], existing)).toEqual([]);
+  });
+
+  it("finds duplicates within the upload, ordered by first row", () => {
+    const clusters = findDuplicateClusters([row(5, "Tom Lee"), row(2, "Zofia Wrona"), row(4, "Zosia Wrona")], []);
+    expect(clusters.map((cluster) => cluster.members.map((member) => member.row_number))).toEqual([[2, 4]]);
+  });
+
+  it("keeps group ids stable regardless of member order", () => {
+    const [first] = findDuplicateClusters([row(2, "Zofia Wrona"), row(4, "Zosia Wrona")], []);
+    const [second] = findDuplicateClusters([row(4, "Zosia Wrona"), row(2, "Zofia Wrona")], []);
+    expect(first.group_id).toMatch(/^dup_[0-9a-f]{16}$/);
+    expect(second.group_id).toBe(first.group_id);
+  });
+});
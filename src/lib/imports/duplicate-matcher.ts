@@ -0,0 +1,267 @@
+import { createHash } from "node:crypto";
+
+// Fuzzy duplicate detection for imports (FR-013). Names are normalized (case, punctuation,
+// diacritics), nicknames are mapped to a canonical given name, and the remaining difference
+// is scored with an optimal-string-alignment edit distance. Candidates that link above the
+// suggestion threshold are clustered; a group's confidence is its weakest link.
+
+export const SUGGEST_THRESHOLD = 0.8; // Pairs scoring below this are not reported
+export const AUTO_MERGE_CONFIDENCE = 0.99; // Groups below this are ambiguous (see describeDuplicateGroups)
+
+export interface MatchCandidate {
+  id: string; // Guest id, or importRowMemberId(row_number) for import rows
+  name: string;
+  row_number?: number; // Present for import rows
+}
+
+export interface DuplicateCluster {
+  group_id: string;
+  members: MatchCandidate[];
+  confidence: number; // 0..1, weakest link in the cluster
+}
+
+// Letters NFD does not decompose.
+const FOLDED_LETTERS: Record<string, string> = { ł: "l", ø: "o", æ: "ae", œ: "oe", ß: "ss", đ: "d", ð: "d", þ: "th" };
+
+// Nickname/diminutive -> canonical given name (English and Polish).
+const NICKNAMES: Record<string, string> = {
+  alex: "alexander",
+  andy: "andrew",
+  bill: "william",
+  billy: "william",
+  will: "william",
+  bob: "robert",
+  bobby: "robert",
+  rob: "robert",
+  chris: "christopher",
+  dan: "daniel",
+  danny: "daniel",
+  dave: "david",
+  jim: "james",
+  jimmy: "james",
+  joe: "joseph",
+  jack: "john",
+  jon: "john",
+  johnny: "john",
+  kate: "katherine",
+  katie: "katherine",
+  kathy: "katherine",
+  liz: "elizabeth",
+  beth: "elizabeth",
+  lizzie: "elizabeth",
+  matt: "matthew",
+  mike: "michael",
+  mick: "michael",
+  nick: "nicholas",
+  pat: "patricia",
+  peggy: "margaret",
+  maggie: "margaret",
+  meg: "margaret",
+  sam: "samuel",
+  steve: "steven",
+  stephen: "steven",
+  tom: "thomas",
+  tommy: "thomas",
+  tony: "anthony",
+  ania: "anna",
+  asia: "joanna",
+  basia: "barbara",
+  gosia: "malgorzata",
+  kasia: "katarzyna",
+  kuba: "jakub",
+  ola: "aleksandra",
+  olek: "aleksander",
+  piotrek: "piotr",
+  tomek: "tomasz",
+  wojtek: "wojciech",
+  zosia: "zofia",
+  krzys: "krzysztof",
+  bartek: "bartlomiej",
+  magda: "magdalena",
+};
+
+export function importRowMemberId(rowNumber: number): string {
+  return `row:${rowNumber}`;
+}
+
+export function foldName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{Mn}/gu, "")
+    .replace(/[łøæœßđðþ]/g, (letter) => FOLDED_LETTERS[letter] ?? letter)
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function canonicalTokens(folded: string): string[] {
+  return folded
+    .split(" ")
+    .filter(Boolean)
+    .map((token) => NICKNAMES[token] ?? token);
+}
+
+/** Similarity of two names in 0..1 (1 = same person after normalization). */
+export function nameSimilarity(a: string, b: string): number {
+  return scoreFolded(prepare(a), prepare(b));
+}
+
+interface PreparedName {
+  folded: string;
+  canonical: string;
+  sorted: string;
+  tokens: string[];
+}
+
+function prepare(name: string): PreparedName {
+  const folded = foldName(name);
+  const tokens = canonicalTokens(folded);
+  return { folded, canonical: tokens.join(" "), sorted: [...tokens].sort().join(" "), tokens };
+}
+
+function scoreFolded(a: PreparedName, b: PreparedName): number {
+  if (!a.folded || !b.folded) {
+    return 0;
+  }
+  if (a.folded === b.folded) {
+    return 1;
+  }
+  if (a.sorted === b.sorted) {
+    // Same tokens in a different order, or equal once nicknames are expanded
+    return a.canonical === b.canonical ? 0.95 : 0.93;
+  }
+  if (initialMatches(a.tokens, b.tokens) || initialMatches(b.tokens, a.tokens)) {
+    return 0.85;
+  }
+  return Math.max(editSimilarity(a.canonical, b.canonical), editSimilarity(a.sorted, b.sorted));
+}
+
+// "J Smith" vs "John Smith": same surname, given name abbreviated to its initial.
+function initialMatches(short: string[], full: string[]): boolean {
+  return (
+    short.length === 2 &&
+    full.length === 2 &&
+    short[0].length === 1 &&
+    short[1] === full[1] &&
+    full[0].startsWith(short[0])
+  );
+}
+
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  const budget = Math.floor(longest * (1 - SUGGEST_THRESHOLD));
+  if (Math.abs(a.length - b.length) > budget) {
+    return 0;
+  }
+  const distance = boundedEditDistance(a, b, budget);
+  return distance > budget ? 0 : 1 - distance / longest;
+}
+
+// Optimal string alignment distance (adjacent transpositions count once); returns budget + 1
+// as soon as every cell in a row exceeds the budget.
+function boundedEditDistance(a: string, b: string, budget: number): number {
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > budget) {
+      return budget + 1;
+    }
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Clusters likely duplicates among import rows and existing guests. Pairs of existing guests
+ * are never compared with each other (the plan is not being deduplicated), and every reported
+ * group contains at least one import row.
+ */
+export function findDuplicateClusters(rows: MatchCandidate[], existing: MatchCandidate[]): DuplicateCluster[] {
+  const candidates = [...existing, ...rows].map((candidate) => ({ candidate, name: prepare(candidate.name) }));
+  const existingCount = existing.length;
+
+  // Block on the first letter of each canonical token to avoid scoring every pair.
+  const blocks = new Map<string, number[]>();
+  candidates.forEach(({ name }, index) => {
+    for (const letter of new Set(name.tokens.map((token) => token[0]))) {
+      const block = blocks.get(letter) ?? [];
+      block.push(index);
+      blocks.set(letter, block);
+    }
+  });
+
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const links: { a: number; b: number; score: number }[] = [];
+  const scored = new Set<string>();
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [a, b] = [members[x], members[y]];
+        if (b < existingCount) {
+          continue; // Both existing guests (indexes are ascending within a block)
+        }
+        const key = `${a}:${b}`;
+        if (scored.has(key)) {
+          continue;
+        }
+        scored.add(key);
+        const score = scoreFolded(candidates[a].name, candidates[b].name);
+        if (score >= SUGGEST_THRESHOLD) {
+          links.push({ a, b, score });
+          parent[find(a)] = find(b);
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, { members: number[]; confidence: number }>();
+  for (const link of links) {
+    const root = find(link.a);
+    const cluster = clusters.get(root) ?? { members: [], confidence: 1 };
+    cluster.confidence = Math.min(cluster.confidence, link.score);
+    clusters.set(root, cluster);
+  }
+  candidates.forEach((_, index) => clusters.get(find(index))?.members.push(index));
+
+  return [...clusters.values()]
+    .filter((cluster) => cluster.members.some((index) => index >= existingCount))
+    .map((cluster) => {
+      const members = cluster.members.map((index) => candidates[index].candidate);
+      return { group_id: groupId(members), members, confidence: Math.round(cluster.confidence * 100) / 100 };
+    })
+    .sort((a, b) => firstRow(a) - firstRow(b));
+}
+
+// Stable across revalidation as long as the membership is unchanged, so stored decisions
+// keep applying after a mapping tweak.
+function groupId(members: MatchCandidate[]): string {
+  const key = members
+    .map((member) => member.id)
+    .sort()
+    .join("|");
+  return `dup_${createHash("sha256").update(key).digest("hex").slice(0, 16)}`;
+}
+
+function firstRow(cluster: DuplicateCluster): number {
+  return Math.min(...cluster.members.map((member) => member.row_number ?? Number.MAX_SAFE_INTEGER));
+}
@@ -0,0 +1,96 @@
+import type { DuplicateDecisionDTO, DuplicateGroupDTO, ImportAuditEntryDTO } from "../../types";
+import { AUTO_MERGE_CONFIDENCE, type DuplicateCluster } from "./duplicate-matcher";
+import { ImportError } from "./import-errors";
+
+// Decisions on duplicate groups live in guest_imports.audit_trail ("duplicate_resolved"
+// entries); the latest entry per group wins. Ambiguous groups (a weak match, or several rows
+// of the same upload) must be decided before finalize; unambiguous ones default to a merge
+// into the suggested member.
+
+export interface DuplicateMerge {
+  group_id: string;
+  keep_id: string; // Existing guest id or import row member id
+  row_numbers: number[]; // Import rows folded into keep_id
+  decided: boolean; // False when merged by default
+}
+
+export function latestDecisions(entries: ImportAuditEntryDTO[]): Map<string, DuplicateDecisionDTO> {
+  const decisions = new Map<string, DuplicateDecisionDTO>();
+  for (const entry of entries) {
+    const decision = entry.action === "duplicate_resolved" ? (entry.details?.decision as DuplicateDecisionDTO) : null;
+    if (decision) {
+      decisions.set(decision.group_id, decision);
+    }
+  }
+  return decisions;
+}
+
+export function describeDuplicateGroups(
+  clusters: DuplicateCluster[],
+  decisions: Map<string, DuplicateDecisionDTO>
+): DuplicateGroupDTO[] {
+  return clusters.map((cluster) => {
+    const members = cluster.members.map((member) =>
+      member.row_number === undefined
+        ? { id: member.id, source: "plan" as const, name: member.name }
+        : { id: member.id, source: "import" as const, row_number: member.row_number, name: member.name }
+    );
+    const existing = members.find((member) => member.source === "plan");
+    // Two rows of the same upload may well be two people sharing a name, so only a single row
+    // matching an existing guest is merged without asking.
+    const importRows = members.filter((member) => member.source === "import").length;
+    return {
+      group_id: cluster.group_id,
+      members,
+      confidence: cluster.confidence,
+      ambiguous: cluster.confidence < AUTO_MERGE_CONFIDENCE || importRows > 1,
+      suggested_keep_id: (existing ?? members[0]).id,
+      decision: decisions.get(cluster.group_id) ?? null,
+    };
+  });
+}
+
+export function unresolvedGroupIds(groups: DuplicateGroupDTO[]): string[] {
+  return groups.filter((group) => group.ambiguous && !group.decision).map((group) => group.group_id);
+}
+
+/**
+ * Checks a decision against its group. A merge keeps one member; when the group contains an
+ * existing guest that guest must be kept, since finalize only adds guests to the plan.
+ */
+export function checkDecision(group: DuplicateGroupDTO | undefined, decision: DuplicateDecisionDTO): void {
+  if (!group) {
+    throw new ImportError("INVALID_DUPLICATE_DECISION", "Unknown duplicate group", { group_id: decision.group_id });
+  }
+  if (decision.action === "reject") {
+    return;
+  }
+  const keepId = decision.keep_id ?? group.suggested_keep_id;
+  const kept = group.members.find((member) => member.id === keepId);
+  if (!kept) {
+    throw new ImportError("INVALID_DUPLICATE_DECISION", "keep_id is not a member of the group", {
+      group_id: group.group_id,
+      keep_id: keepId,
+    });
+  }
+  if (kept.source === "import" && group.members.some((member) => member.source === "plan")) {
+    throw new ImportError("INVALID_DUPLICATE_DECISION", "keep_id must be the existing guest", {
+      group_id: group.group_id,
+      keep_id: keepId,
+    });
+  }
+}
+
+/** Merges to apply at finalize; rejected groups import every row as a separate guest. */
+export function plannedMerges(groups: DuplicateGroupDTO[]): DuplicateMerge[] {
+  return groups.flatMap((group) => {
+    if (group.decision?.action === "reject") {
+      return [];
+    }
+    const keepId = group.decision?.keep_id ?? group.suggested_keep_id;
+    const rowNumbers = group.members
+      .filter((member) => member.source === "import" && member.id !== keepId)
+      .map((member) => member.row_number as number);
+    return [{ group_id: group.group_id, keep_id: keepId, row_numbers: rowNumbers, decided: group.decision !== null }];
+  });
+}
@@ -0,0 +1,86 @@
+import ExcelJS from "exceljs";
+
+import type { GuestImportColumn, ImportColumnMappingDTO, ImportErrorRowDTO } from "../../types";
+import { csvField } from "../exports/csv";
+import type { ImportSheet, ImportSourceRow } from "./xlsx-reader";
+
+// Row-level error report (FR-012): the original sheet with two extra columns, the source row
+// number and the error messages. The XLSX variant highlights offending cells and keeps the
+// original headers, so the user can fix it in place and upload it again.
+
+export const CSV_CONTENT_TYPE = "text/csv; charset=utf-8";
+export const SOURCE_ROW_HEADER = "Source row";
+export const ERRORS_HEADER = "Errors";
+
+const ERROR_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFFFC7CE" } };
+
+export interface ErrorReportOptions {
+  only_errors: boolean; // Leave out rows without errors
+}
+
+interface ReportRow {
+  source: ImportSourceRow;
+  errors: ImportErrorRowDTO[];
+}
+
+function reportRows(sheet: ImportSheet, errors: ImportErrorRowDTO[], options: ErrorReportOptions): ReportRow[] {
+  const byRow = new Map<number, ImportErrorRowDTO[]>();
+  for (const error of errors) {
+    byRow.set(error.row_number, [...(byRow.get(error.row_number) ?? []), error]);
+  }
+  return sheet.rows
+    .map((source) => ({ source, errors: byRow.get(source.row_number) ?? [] }))
+    .filter((row) => !options.only_errors || row.errors.length > 0);
+}
+
+function errorText(errors: ImportErrorRowDTO[]): string {
+  return errors.map((error) => `${error.field}: ${error.error}`).join("; ");
+}
+
+export function buildErrorReportCsv(
+  sheet: ImportSheet,
+  errors: ImportErrorRowDTO[],
+  options: ErrorReportOptions
+): string {
+  const lines = [[...sheet.headers, SOURCE_ROW_HEADER, ERRORS_HEADER]];
+  for (const { source, errors: rowErrors } of reportRows(sheet, errors, options)) {
+    const values = sheet.headers.map((_, index) => source.values[index] ?? "");
+    lines.push([...values, String(source.row_number), errorText(rowErrors)]);
+  }
+  return lines.map((line) => line.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export async function buildErrorReportXlsx(
+  sheet: ImportSheet,
+  mapping: ImportColumnMappingDTO,
+  errors: ImportErrorRowDTO[],
+  options: ErrorReportOptions
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheet.sheet_name || "Guests");
+  const errorsColumn = sheet.headers.length + 2; // 1-based
+
+  worksheet.addRow([...sheet.headers, SOURCE_ROW_HEADER, ERRORS_HEADER]);
+  worksheet.getRow(1).font = { bold: true };
+  for (const { source, errors: rowErrors } of reportRows(sheet, errors, options)) {
+    const values = sheet.headers.map((_, index) => source.values[index] ?? "");
+    const row = worksheet.addRow([...values, source.row_number, errorText(rowErrors)]);
+    const messages = new Map<number, string[]>();
+    for (const error of rowErrors) {
+      // Errors on unmapped columns have no cell of their own; the Errors cell is marked instead.
+      const index = mapping[error.field as GuestImportColumn];
+      const column = index === null || index === undefined ? errorsColumn : index + 1;
+      messages.set(column, [...(messages.get(column) ?? []), error.error]);
+    }
+    for (const [column, notes] of messages) {
+      const cell = row.getCell(column);
+      cell.fill = ERROR_FILL;
+      cell.note = notes.join("\n");
+    }
+  }
+  worksheet.columns.forEach((column) => {
+    column.width = 20;
+  });
+  worksheet.getColumn(errorsColumn).width = 60;
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
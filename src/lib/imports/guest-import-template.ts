@@ -0,0 +1,90 @@
+import type { GuestDTO, GuestImportColumn, PartyDTO } from "../../types";
+import { plusOneName } from "../plan/parties";
+
+// Canonical single-sheet guest template (FR-010). Party and Child are optional extensions:
+// rows sharing a Party value become one party (first row = primary contact), and a Name of
+// "+1" / "plus one" adds an unnamed plus-one for the preceding guest of the same party.
+
+export const GUEST_IMPORT_COLUMNS: readonly GuestImportColumn[] = [
+  "Name",
+  "InitialTable",
+  "Note",
+  "OptionalTag",
+  "Party",
+  "Child",
+];
+
+export type GuestImportField = "name" | "initial_table" | "note" | "tag" | "party" | "child";
+
+export const COLUMN_FIELDS: Record<GuestImportColumn, GuestImportField> = {
+  Name: "name",
+  InitialTable: "initial_table",
+  Note: "note",
+  OptionalTag: "tag",
+  Party: "party",
+  Child: "child",
+};
+
+export interface GuestImportRow {
+  row_number: number; // 1-based spreadsheet row (header = 1)
+  name: string;
+  initial_table?: string;
+  note?: string;
+  tag?: string;
+  party?: string;
+  child?: boolean;
+}
+
+export interface ImportedGuest {
+  row_number: number;
+  guest: GuestDTO;
+  initial_table?: string; // Table label to seat the guest at on finalize
+}
+
+export interface ImportedGuestSet {
+  guests: ImportedGuest[];
+  parties: PartyDTO[];
+}
+
+const PLUS_ONE_PATTERN = /^(\+\s*1|plus[\s-]?one)$/i;
+
+export function isPlusOneMarker(name: string): boolean {
+  return PLUS_ONE_PATTERN.test(name.trim());
+}
+
+/** Turns validated rows into guests and parties; `createId` supplies fresh ids. */
+export function buildImportedGuests(rows: GuestImportRow[], createId: () => string): ImportedGuestSet {
+  const parties = new Map<string, PartyDTO>();
+  const guests: ImportedGuest[] = [];
+  let previousHost: { guest: GuestDTO; party?: string } | undefined;
+
+  for (const row of rows) {
+    const partyKey = row.party?.trim().toLowerCase() || undefined;
+    let party = partyKey ? parties.get(partyKey) : undefined;
+    if (partyKey && !party) {
+      party = { id: createId(), name: (row.party as string).trim() };
+      parties.set(partyKey, party);
+    }
+
+    const host = previousHost && previousHost.party === partyKey ? previousHost.guest : undefined;
+    const plusOne = isPlusOneMarker(row.name) && host !== undefined;
+    const guest: GuestDTO = {
+      id: createId(),
+      name: plusOne && host ? plusOneName(host) : row.name.trim(),
+      ...(row.note ? { note: row.note } : {}),
+      ...(row.tag ? { tag: row.tag } : {}),
+      ...(party ? { party_id: party.id } : {}),
+      ...(plusOne && host ? { plus_one_of: host.id, is_placeholder: true } : {}),
+      ...(row.child !== undefined ? { age_group: row.child ? "child" : "adult" } : {}),
+    };
+    if (party && !party.primary_contact_id && !plusOne) {
+      party.primary_contact_id = guest.id;
+    }
+    if (!plusOne) {
+      previousHost = { guest, party: partyKey };
+    }
+    guests.push({ row_number: row.row_number, guest, initial_table: row.initial_table });
+  }
+
+  return { guests, parties: [...parties.values()] };
+}
@@ -0,0 +1,26 @@
+import type { ApiErrorDTO } from "../../types";
+
+// File-level import failures (row-level problems are reported as ImportErrorRowDTO instead).
+export type ImportErrorCode =
+  | "IMPORT_UNREADABLE_FILE"
+  | "IMPORT_MULTIPLE_SHEETS"
+  | "IMPORT_EMPTY_SHEET"
+  | "IMPORT_TOO_MANY_ROWS"
+  | "INVALID_COLUMN_MAPPING"
+  | "INVALID_DUPLICATE_DECISION";
+
+export class ImportError extends Error {
+  readonly code: ImportErrorCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: ImportErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "ImportError";
+    this.code = code;
+    this.details = details;
+  }
+
+  toApiError(): ApiErrorDTO {
+    return { error: { code: this.code, message: this.message, details: this.details } };
+  }
+}
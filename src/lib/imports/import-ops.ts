@@ -0,0 +1,111 @@
+import type { PlanDataDTO, PlanOperation, TableDTO } from "../../types";
+import { applyPlanOps } from "../plan/plan-operations";
+import { freeSeatNumbers } from "../plan/plan-utils";
+import { fillTableOps } from "../plan/random-seating";
+import { generateSeed } from "../plan/seeded-random";
+import { importRowMemberId } from "./duplicate-matcher";
+import type { DuplicateMerge } from "./duplicate-resolution";
+import type { ImportedGuestSet } from "./guest-import-template";
+
+// Turns a validated import into plan operations for finalize. Guests with an InitialTable are
+// dealt random free seats at that table (FR-021); when the table is unknown or full they stay
+// unseated and are reported back.
+
+export interface ImportOpsResult {
+  ops: PlanOperation[];
+  seed: string;
+  seated: number;
+  unseated_guest_ids: string[]; // Had an InitialTable but could not be seated there
+}
+
+export function buildImportOps(
+  plan: PlanDataDTO,
+  set: ImportedGuestSet,
+  seed: string = generateSeed()
+): ImportOpsResult {
+  // Parties go in before their members; primary contacts are linked once the guests exist.
+  const guestOps: PlanOperation[] = [
+    ...set.parties.map((party): PlanOperation => ({ op: "add_party", party: { id: party.id, name: party.name } })),
+    ...set.guests.map(({ guest }): PlanOperation => ({ op: "add_guest", guest })),
+    ...set.parties
+      .filter((party) => party.primary_contact_id)
+      .map(
+        (party): PlanOperation => ({
+          op: "update_party",
+          id: party.id,
+          patch: { primary_contact_id: party.primary_contact_id },
+        })
+      ),
+  ];
+  const staged = applyPlanOps(plan, guestOps).plan_data;
+
+  const byTable = new Map<TableDTO, string[]>();
+  const unseated: string[] = [];
+  for (const { guest, initial_table } of set.guests) {
+    if (!initial_table) {
+      continue;
+    }
+    const table = matchTable(staged, initial_table);
+    if (!table) {
+      unseated.push(guest.id);
+      continue;
+    }
+    byTable.set(table, [...(byTable.get(table) ?? []), guest.id]);
+  }
+
+  const seatOps: PlanOperation[] = [];
+  let seated = 0;
+  for (const [table, guestIds] of byTable) {
+    const fitting = guestIds.slice(0, freeSeatNumbers(table).length);
+    unseated.push(...guestIds.slice(fitting.length));
+    if (fitting.length > 0) {
+      seatOps.push(...fillTableOps(staged, table.id, fitting, seed).ops);
+      seated += fitting.length;
+    }
+  }
+
+  return { ops: [...guestOps, ...seatOps], seed, seated, unseated_guest_ids: unseated };
+}
+
+/**
+ * Drops import rows folded into another guest by duplicate merges. Plus-ones of a dropped guest
+ * move to the kept guest, and parties left without members are dropped as well.
+ */
+export function mergeDuplicates(set: ImportedGuestSet, merges: DuplicateMerge[]): ImportedGuestSet {
+  const guestIdByMember = new Map(set.guests.map(({ row_number, guest }) => [importRowMemberId(row_number), guest.id]));
+  const replacement = new Map<string, string>();
+  for (const merge of merges) {
+    const keepId = guestIdByMember.get(merge.keep_id) ?? merge.keep_id;
+    for (const rowNumber of merge.row_numbers) {
+      const removedId = guestIdByMember.get(importRowMemberId(rowNumber));
+      if (removedId) {
+        replacement.set(removedId, keepId);
+      }
+    }
+  }
+
+  const guests = set.guests
+    .filter(({ guest }) => !replacement.has(guest.id))
+    .map((imported) => {
+      const hostId = imported.guest.plus_one_of;
+      return hostId && replacement.has(hostId)
+        ? { ...imported, guest: { ...imported.guest, plus_one_of: replacement.get(hostId) } }
+        : imported;
+    });
+  const partyIds = new Set(guests.map(({ guest }) => guest.party_id));
+  const parties = set.parties
+    .filter((party) => partyIds.has(party.id))
+    .map(({ primary_contact_id, ...party }) =>
+      primary_contact_id && !replacement.has(primary_contact_id) ? { ...party, primary_contact_id } : party
+    );
+  return { guests, parties };
+}
+
+// InitialTable may hold a table label (case-insensitive) or a table id.
+function matchTable(plan: PlanDataDTO, value: string): TableDTO | undefined {
+  const key = value.trim().toLowerCase();
+  return (
+    plan.tables.find((table) => table.label?.trim().toLowerCase() === key) ??
+    plan.tables.find((table) => table.id === value.trim())
+  );
+}
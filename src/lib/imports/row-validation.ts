@@ -0,0 +1,179 @@
+import type {
+  GuestDTO,
+  GuestImportColumn,
+  ImportColumnMappingDTO,
+  ImportErrorRowDTO,
+  ImportPreviewRowDTO,
+} from "../../types";
+import { findDuplicateClusters, importRowMemberId, type DuplicateCluster } from "./duplicate-matcher";
+import { GUEST_IMPORT_COLUMNS, isPlusOneMarker, type GuestImportRow } from "./guest-import-template";
+import type { ImportSheet, ImportSourceRow } from "./xlsx-reader";
+
+// Row-level validation of a mapped sheet (FR-012). Errors name the canonical column so the
+// preview and error report can point at the offending cell.
+
+export const NAME_MAX_LENGTH = 150;
+export const NOTE_MAX_LENGTH = 500;
+export const TAG_MAX_LENGTH = 50;
+export const HEADER_ROW_NUMBER = 1;
+
+const CHILD_TRUE = new Set(["yes", "y", "true", "1", "x", "child", "kid"]);
+const CHILD_FALSE = new Set(["no", "n", "false", "0", "adult", ""]);
+
+export interface ValidatedImport {
+  rows: GuestImportRow[]; // Rows without errors, in sheet order
+  errors: ImportErrorRowDTO[];
+  duplicate_groups: DuplicateCluster[]; // Likely duplicates among valid rows and existing guests
+  duplicate_row_numbers: number[]; // Rows belonging to any duplicate group
+  row_count: number;
+  error_count: number; // Rows (or the header) with at least one error
+  duplicate_count: number;
+}
+
+export type MappedRowValues = Partial<Record<GuestImportColumn, string>>;
+
+export function mappedValues(row: ImportSourceRow, mapping: ImportColumnMappingDTO): MappedRowValues {
+  const values: MappedRowValues = {};
+  for (const column of GUEST_IMPORT_COLUMNS) {
+    const index = mapping[column];
+    if (index !== null && row.values[index] !== undefined) {
+      values[column] = row.values[index];
+    }
+  }
+  return values;
+}
+
+export function validateImport(
+  sheet: ImportSheet,
+  mapping: ImportColumnMappingDTO,
+  existingGuests: GuestDTO[]
+): ValidatedImport {
+  const errors: ImportErrorRowDTO[] = [];
+  const rows: GuestImportRow[] = [];
+
+  if (mapping.Name === null) {
+    errors.push({ row_number: HEADER_ROW_NUMBER, field: "Name", error: "Required column Name is not mapped" });
+  }
+
+  let previousParty: string | undefined | null = null; // null = no host row yet
+  for (const source of sheet.rows) {
+    const values = mappedValues(source, mapping);
+    const rowErrors = validateRow(source.row_number, values, mapping);
+
+    const name = values.Name ?? "";
+    const partyKey = values.Party?.toLowerCase() || undefined;
+    if (isPlusOneMarker(name)) {
+      if (previousParty === null || previousParty !== partyKey) {
+        rowErrors.push({
+          row_number: source.row_number,
+          field: "Name",
+          error: "Plus-one row must directly follow its host (with the same Party)",
+        });
+      }
+    } else if (rowErrors.length > 0) {
+      previousParty = null;
+    } else {
+      previousParty = partyKey;
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      continue;
+    }
+    rows.push(toImportRow(source.row_number, values));
+  }
+
+  const validRows = mapping.Name === null ? [] : rows;
+  const groups = matchDuplicates(validRows, existingGuests);
+  const duplicates = groups.flatMap((group) =>
+    group.members.flatMap((member) => (member.row_number === undefined ? [] : [member.row_number]))
+  );
+  const errorRows = new Set(errors.map((error) => error.row_number));
+  return {
+    rows: validRows,
+    errors,
+    duplicate_groups: groups,
+    duplicate_row_numbers: duplicates,
+    row_count: sheet.rows.length,
+    error_count: errorRows.size,
+    duplicate_count: duplicates.length,
+  };
+}
+
+// Plus-one markers and unnamed placeholders carry no real name, so they never take part.
+function matchDuplicates(rows: GuestImportRow[], existingGuests: GuestDTO[]): DuplicateCluster[] {
+  return findDuplicateClusters(
+    rows
+      .filter((row) => !isPlusOneMarker(row.name))
+      .map((row) => ({ id: importRowMemberId(row.row_number), name: row.name, row_number: row.row_number })),
+    existingGuests.filter((guest) => !guest.is_placeholder).map((guest) => ({ id: guest.id, name: guest.name }))
+  );
+}
+
+export function previewRows(
+  sheet: ImportSheet,
+  mapping: ImportColumnMappingDTO,
+  validated: ValidatedImport,
+  limit: number
+): ImportPreviewRowDTO[] {
+  const duplicates = new Set(validated.duplicate_row_numbers);
+  return sheet.rows.slice(0, limit).map((source) => {
+    const errors = validated.errors.filter((error) => error.row_number === source.row_number);
+    return {
+      row_number: source.row_number,
+      status: errors.length > 0 ? "error" : duplicates.has(source.row_number) ? "duplicate" : "ok",
+      values: mappedValues(source, mapping),
+      errors,
+    };
+  });
+}
+
+function validateRow(rowNumber: number, values: MappedRowValues, mapping: ImportColumnMappingDTO): ImportErrorRowDTO[] {
+  const errors: ImportErrorRowDTO[] = [];
+  const fail = (field: GuestImportColumn, error: string) => errors.push({ row_number: rowNumber, field, error });
+
+  if (mapping.Name !== null) {
+    if (!values.Name) {
+      fail("Name", "Name is required");
+    } else if (values.Name.length > NAME_MAX_LENGTH) {
+      fail("Name", `Name must be at most ${NAME_MAX_LENGTH} characters`);
+    }
+  }
+  if (values.InitialTable && values.InitialTable.length > NAME_MAX_LENGTH) {
+    fail("InitialTable", `InitialTable must be at most ${NAME_MAX_LENGTH} characters`);
+  }
+  if (values.Note && values.Note.length > NOTE_MAX_LENGTH) {
+    fail("Note", `Note must be at most ${NOTE_MAX_LENGTH} characters`);
+  }
+  if (values.OptionalTag && values.OptionalTag.length > TAG_MAX_LENGTH) {
+    fail("OptionalTag", `OptionalTag must be at most ${TAG_MAX_LENGTH} characters`);
+  }
+  if (values.Party && values.Party.length > NAME_MAX_LENGTH) {
+    fail("Party", `Party must be at most ${NAME_MAX_LENGTH} characters`);
+  }
+  if (values.Child !== undefined && parseChild(values.Child) === null) {
+    fail("Child", "Child must be yes or no");
+  }
+  return errors;
+}
+
+function parseChild(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (CHILD_TRUE.has(normalized)) {
+    return true;
+  }
+  return CHILD_FALSE.has(normalized) ? false : null;
+}
+
+function toImportRow(rowNumber: number, values: MappedRowValues): GuestImportRow {
+  const child = values.Child ? parseChild(values.Child) : null;
+  return {
+    row_number: rowNumber,
+    name: values.Name ?? "",
+    ...(values.InitialTable ? { initial_table: values.InitialTable } : {}),
+    ...(values.Note ? { note: values.Note } : {}),
+    ...(values.OptionalTag ? { tag: values.OptionalTag } : {}),
+    ...(values.Party ? { party: values.Party } : {}),
+    ...(child !== null ? { child } : {}),
+  };
+}
@@ -0,0 +1,27 @@
+import ExcelJS from "exceljs";
+
+import { GUEST_IMPORT_COLUMNS } from "./guest-import-template";
+
+// Downloadable sample for GET /api/imports/template (US-020).
+
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const EXAMPLE_ROWS: string[][] = [
+  ["Anna Kowalska", "Table 1", "Vegetarian", "Bride family", "Kowalski", "no"],
+  ["Piotr Kowalski", "Table 1", "", "Bride family", "Kowalski", "no"],
+  ["Zosia Kowalska", "Table 1", "High chair", "Bride family", "Kowalski", "yes"],
+  ["John Smith", "Table 2", "", "Groom friends", "", "no"],
+  ["+1", "Table 2", "", "Groom friends", "", "no"],
+];
+
+export async function buildTemplateWorkbook(): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Guests");
+  sheet.addRow([...GUEST_IMPORT_COLUMNS]);
+  sheet.getRow(1).font = { bold: true };
+  EXAMPLE_ROWS.forEach((row) => sheet.addRow(row));
+  sheet.columns.forEach((column) => {
+    column.width = 20;
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
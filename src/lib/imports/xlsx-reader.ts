@@ -0,0 +1,80 @@
+import ExcelJS from "exceljs";
+
+import { ImportError } from "./import-errors";
+
+// Reads an uploaded single-sheet workbook into plain strings. Row 1 is the header row; fully
+// blank rows are skipped but keep their spreadsheet numbering so errors point at real rows.
+
+// exceljs declares Buffer against an older @types/node; any Node Buffer is accepted at runtime.
+type XlsxInput = Parameters<ExcelJS.Xlsx["load"]>[0];
+
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 2000;
+
+export interface ImportSourceRow {
+  row_number: number; // 1-based spreadsheet row
+  values: string[]; // Cell text by 0-based column index
+}
+
+// Persisted as guest_imports.source.
+export interface ImportSheet {
+  sheet_name: string;
+  headers: string[];
+  rows: ImportSourceRow[];
+}
+
+export async function readImportWorkbook(data: ArrayBuffer): Promise<ImportSheet> {
+  if (data.byteLength > MAX_IMPORT_FILE_BYTES) {
+    throw new ImportError("IMPORT_UNREADABLE_FILE", "File is too large", { max_bytes: MAX_IMPORT_FILE_BYTES });
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(Buffer.from(data) as unknown as XlsxInput);
+  } catch {
+    throw new ImportError("IMPORT_UNREADABLE_FILE", "File is not a readable XLSX workbook");
+  }
+
+  const sheets = workbook.worksheets.filter((sheet) => sheet.actualRowCount > 0);
+  if (sheets.length > 1) {
+    throw new ImportError("IMPORT_MULTIPLE_SHEETS", "Workbook must contain a single sheet", {
+      sheets: sheets.map((sheet) => sheet.name),
+    });
+  }
+  const sheet = sheets.at(0);
+  if (!sheet) {
+    throw new ImportError("IMPORT_EMPTY_SHEET", "Workbook has no data");
+  }
+
+  const width = sheet.columnCount;
+  const headers = rowValues(sheet.getRow(1), width);
+  const rows: ImportSourceRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) {
+      return;
+    }
+    const values = rowValues(row, width);
+    if (values.some((value) => value !== "")) {
+      rows.push({ row_number: rowNumber, values });
+    }
+  });
+
+  if (rows.length === 0) {
+    throw new ImportError("IMPORT_EMPTY_SHEET", "Sheet has a header row but no guests");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError("IMPORT_TOO_MANY_ROWS", `Sheet has more than ${MAX_IMPORT_ROWS} rows`, {
+      row_count: rows.length,
+      max_rows: MAX_IMPORT_ROWS,
+    });
+  }
+  return { sheet_name: sheet.name, headers, rows };
+}
+
+function rowValues(row: ExcelJS.Row, width: number): string[] {
+  const values: string[] = [];
+  for (let column = 1; column <= width; column++) {
+    values.push(row.getCell(column).text.trim());
+  }
+  return values;
+}
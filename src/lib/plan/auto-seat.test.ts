@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import type { AutoSeatProposalDTO, GuestDTO, PlanDataDTO, TableDTO } from "../../types";
+import { proposeAutoSeating } from "./auto-seat";
+import { PlanOperationError } from "./plan-errors";
+import { applyPlanOps } from "./plan-operations";
+import { locateGuest } from "./plan-utils";
+
+function table(id: string, capacity: number, seats: TableDTO["seats"] = []): TableDTO {
+  return { id, shape: "round", capacity, start_index: 1, head_seat: 1, seats };
+}
+
+function guest(id: string, extra: Partial<GuestDTO> = {}): GuestDTO {
+  return { id, name: id.toUpperCase(), ...extra };
+}
+
+function plan(tables: TableDTO[], guests: GuestDTO[]): PlanDataDTO {
+  return { tables, guests, settings: { color_palette: "default" } };
+}
+
+// Applies the proposal through the plan engine and returns guest_id -> table_id.
+function seating(current: PlanDataDTO, proposal: AutoSeatProposalDTO): Map<string, string | undefined> {
+  const next = applyPlanOps(current, proposal.ops).plan_data;
+  return new Map(next.guests.map((g) => [g.id, locateGuest(next, g.id)?.table.id]));
+}
+
+const family = ["f1", "f2", "f3"].map((id) => guest(id, { tag: "Family" }));
+const friends = ["p1", "p2", "p3"].map((id) => guest(id, { tag: "Friends" }));
+const twoTables = plan([table("t1", 4), table("t2", 4)], [...family, ...friends]);
+
+describe("proposeAutoSeating", () => {
+  it("keeps tagged groups together and reports a full score", () => {
+    const proposal = proposeAutoSeating(twoTables, {
+      rules: [
+        { rule: "keep_together", tag: "Family" },
+        { rule: "keep_together", tag: "Friends" },
+      ],
+      seed: "s",
+    });
+    const tables = seating(twoTables, proposal);
+    expect(new Set(family.map((g) => tables.get(g.id))).size).toBe(1);
+    expect(new Set(friends.map((g) => tables.get(g.id))).size).toBe(1);
+    expect(proposal.violations).toEqual([]);
+    expect(proposal.score).toBe(100);
+    expect(proposal.unseated_guest_ids).toEqual([]);
+  });
+
+  it("honours pins and keep_apart", () => {
+    const proposal = proposeAutoSeating(twoTables, {
+      rules: [
+        { rule: "pin_to_table", guest_id: "f1", table_id: "t2" },
+        { rule: "keep_apart", guest_ids: ["f1", "p1"] },
+      ],
+      seed: "s",
+    });
+    const tables = seating(twoTables, proposal);
+    expect(tables.get("f1")).toBe("t2");
+    expect(tables.get("p1")).not.toBe("t2");
+  });
+
+  it("is reproducible from its seed", () => {
+    const command = { rules: [{ rule: "balance_tables" as const }], seed: "fixed" };
+    expect(proposeAutoSeating(twoTables, command)).toEqual(proposeAutoSeating(twoTables, command));
+  });
+
+  it("leaves guests unseated when the tables are too small", () => {
+    const small = plan([table("t1", 2), table("t2", 2)], [...family, ...friends]);
+    const proposal = proposeAutoSeating(small, { rules: [], seed: "s" });
+    expect(proposal.unseated_guest_ids).toHaveLength(2);
+    expect(proposal.ops.filter((op) => op.op === "assign_guest_seat")).toHaveLength(4);
+  });
+
+  it("keeps seated guests in place and skips declined guests", () => {
+    const current = plan(
+      [table("t1", 4, [{ seat_no: 3, guest_id: "f1" }]), table("t2", 4)],
+      [...family, guest("d1", { rsvp: "No" })]
+    );
+    const proposal = proposeAutoSeating(current, { rules: [], seed: "s", keep_seated: true });
+    const next = applyPlanOps(current, proposal.ops).plan_data;
+    expect(locateGuest(next, "f1")).toMatchObject({ seat_no: 3, table: { id: "t1" } });
+    expect(locateGuest(next, "d1")).toBeUndefined();
+  });
+
+  it("caps oversized iteration budgets", () => {
+    // Three guests who must all sit apart at two tables: the search never reaches zero cost
+    // and runs its whole budget.
+    const command = {
+      rules: [
+        { rule: "keep_apart" as const, guest_ids: ["f1", "f2"] as [string, string] },
+        { rule: "keep_apart" as const, guest_ids: ["f2", "f3"] as [string, string] },
+        { rule: "keep_apart" as const, guest_ids: ["f1", "f3"] as [string, string] },
+      ],
+      seed: "s",
+    };
+    expect(proposeAutoSeating(twoTables, { ...command, max_iterations: Number.MAX_SAFE_INTEGER })).toEqual(
+      proposeAutoSeating(twoTables, { ...command, max_iterations: 50_000 })
+    );
+  });
+
+  it("rejects rules that reference unknown guests or tables", () => {
+    const run = () =>
+      proposeAutoSeating(twoTables, { rules: [{ rule: "pin_to_table", guest_id: "f1", table_id: "t9" }] });
+    expect(run).toThrow(PlanOperationError);
+  });
+});
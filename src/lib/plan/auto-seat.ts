@@ -0,0 +1,422 @@
+import type {
+  AutoSeatCommand,
+  AutoSeatProposalDTO,
+  AutoSeatRuleDTO,
+  AutoSeatViolationDTO,
+  GuestDTO,
+  PlanDataDTO,
+  PlanOperation,
+  TableDTO,
+} from "../../types";
+import { PlanOperationError } from "./plan-errors";
+import { findGuest, findParty, findTable, locateGuest } from "./plan-utils";
+import { createSeededRandom, generateSeed, type RandomSource } from "./seeded-random";
+
+// Constraint-based auto-seating. Runs entirely in-process: a greedy placement of rule groups
+// followed by a seeded local search (single-guest moves/swaps and whole-group moves) that
+// minimizes weighted rule penalties. The result is a proposal; nothing is applied until the
+// caller sends the returned ops through the plan engine.
+
+const DEFAULT_WEIGHTS = {
+  keep_together: 5,
+  keep_apart: 10,
+  pin_to_table: 100,
+  fill_head_table_first: 3,
+  balance_tables: 1,
+} satisfies Record<AutoSeatRuleDTO["rule"], number>;
+
+const DEFAULT_MAX_ITERATIONS = 5000;
+const MAX_ITERATIONS = 50_000; // Upper bound on a caller's budget; each iteration re-scores the plan
+
+type Assignment = Map<string, string | undefined>; // guest_id -> table_id (undefined = unseated)
+
+interface SolverContext {
+  plan: PlanDataDTO;
+  rules: AutoSeatRuleDTO[];
+  guestIds: string[]; // Guests to seat, in plan order
+  fixedSeats: Map<string, { table_id: string; seat_no: number }>; // keep_seated guests
+  pins: Map<string, string>; // guest_id -> table_id
+  groups: string[][]; // keep_together groups (tag or party members among guestIds)
+  headTableIds: Set<string>;
+}
+
+interface Evaluation {
+  cost: number;
+  violations: AutoSeatViolationDTO[];
+}
+
+export function proposeAutoSeating(plan: PlanDataDTO, command: AutoSeatCommand): AutoSeatProposalDTO {
+  const seed = command.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  const context = buildContext(plan, command);
+
+  const assignment = greedyPlacement(context);
+  const iterations = Math.min(
+    Math.max(0, Math.floor(command.max_iterations ?? DEFAULT_MAX_ITERATIONS)),
+    MAX_ITERATIONS
+  );
+  localSearch(context, assignment, random, iterations);
+
+  const seats = assignSeats(context, assignment);
+  const { cost, violations } = evaluate(context, assignment);
+  const totalWeight = context.rules.reduce((sum, rule) => sum + ruleWeight(rule), 0);
+
+  return {
+    ops: diffOps(context, seats),
+    score: totalWeight === 0 ? 100 : Math.max(0, Math.round(100 * (1 - cost / totalWeight))),
+    violations,
+    unseated_guest_ids: context.guestIds.filter((guestId) => !seats.has(guestId)),
+    seed,
+  };
+}
+
+// --------------------------------------------------------
+// Context
+// --------------------------------------------------------
+function buildContext(plan: PlanDataDTO, command: AutoSeatCommand): SolverContext {
+  const guests = plan.guests.filter((guest) => command.include_declined || !isDeclined(guest));
+  const guestIds = guests.map((guest) => guest.id);
+  const seatable = new Set(guestIds);
+
+  const fixedSeats = new Map<string, { table_id: string; seat_no: number }>();
+  if (command.keep_seated) {
+    for (const guestId of guestIds) {
+      const location = locateGuest(plan, guestId);
+      if (location) {
+        fixedSeats.set(guestId, { table_id: location.table.id, seat_no: location.seat_no });
+      }
+    }
+  }
+
+  const pins = new Map<string, string>();
+  const groups: string[][] = [];
+  const headTableIds = new Set<string>();
+  command.rules.forEach((rule, index) => {
+    const invalid = (message: string, details: Record<string, unknown>) =>
+      new PlanOperationError("INVALID_OPERATION", message, { ...details, rule_index: index });
+    switch (rule.rule) {
+      case "keep_together":
+        if ("party_id" in rule) {
+          if (!findParty(plan, rule.party_id)) {
+            throw invalid("Unknown party", { party_id: rule.party_id });
+          }
+          groups.push(guests.filter((guest) => guest.party_id === rule.party_id).map((guest) => guest.id));
+        } else {
+          groups.push(guests.filter((guest) => guest.tag === rule.tag).map((guest) => guest.id));
+        }
+        break;
+      case "keep_apart":
+        for (const guestId of rule.guest_ids) {
+          if (!findGuest(plan, guestId)) {
+            throw invalid("Unknown guest in keep_apart rule", { guest_id: guestId });
+          }
+        }
+        break;
+      case "pin_to_table":
+        if (!findGuest(plan, rule.guest_id)) {
+          throw invalid("Unknown guest in pin rule", { guest_id: rule.guest_id });
+        }
+        if (!findTable(plan, rule.table_id)) {
+          throw invalid("Unknown table in pin rule", { table_id: rule.table_id });
+        }
+        if (seatable.has(rule.guest_id) && !fixedSeats.has(rule.guest_id)) {
+          pins.set(rule.guest_id, rule.table_id);
+        }
+        break;
+      case "fill_head_table_first":
+        if (!findTable(plan, rule.table_id)) {
+          throw invalid("Unknown head table", { table_id: rule.table_id });
+        }
+        headTableIds.add(rule.table_id);
+        break;
+      case "balance_tables":
+        break;
+    }
+  });
+
+  return { plan, rules: command.rules, guestIds, fixedSeats, pins, groups, headTableIds };
+}
+
+function isDeclined(guest: GuestDTO): boolean {
+  return guest.rsvp?.trim().toLowerCase() === "no";
+}
+
+function ruleWeight(rule: AutoSeatRuleDTO): number {
+  return rule.rule === "pin_to_table" ? DEFAULT_WEIGHTS.pin_to_table : (rule.weight ?? DEFAULT_WEIGHTS[rule.rule]);
+}
+
+function isMovable(context: SolverContext, guestId: string): boolean {
+  return !context.fixedSeats.has(guestId) && !context.pins.has(guestId);
+}
+
+// --------------------------------------------------------
+// Greedy placement
+// --------------------------------------------------------
+function greedyPlacement(context: SolverContext): Assignment {
+  const assignment: Assignment = new Map(context.guestIds.map((guestId) => [guestId, undefined]));
+  for (const [guestId, seat] of context.fixedSeats) {
+    assignment.set(guestId, seat.table_id);
+  }
+
+  // Units: keep_together groups first (largest first), then everyone else on their own.
+  const placed = new Set(context.fixedSeats.keys());
+  const units: string[][] = [];
+  for (const group of [...context.groups].sort((a, b) => b.length - a.length)) {
+    const members = group.filter((guestId) => !placed.has(guestId));
+    members.forEach((guestId) => placed.add(guestId));
+    if (members.length > 0) {
+      units.push(members);
+    }
+  }
+  units.push(...context.guestIds.filter((guestId) => !placed.has(guestId)).map((guestId) => [guestId]));
+  // Pinned units go first so their tables are not filled by others.
+  units.sort((a, b) => Number(b.some((id) => context.pins.has(id))) - Number(a.some((id) => context.pins.has(id))));
+
+  for (const unit of units) {
+    const pinned = unit.find((guestId) => context.pins.has(guestId));
+    const pinnedTable = pinned ? context.pins.get(pinned) : undefined;
+    if (pinnedTable && freeCapacity(context, assignment, pinnedTable) >= unit.length) {
+      unit.forEach((guestId) => assignment.set(guestId, pinnedTable));
+      continue;
+    }
+    const table = bestTable(context, assignment, unit);
+    if (table) {
+      unit.forEach((guestId) => assignment.set(guestId, table.id));
+      continue;
+    }
+    // The unit does not fit anywhere as a whole: seat members one by one.
+    for (const guestId of unit) {
+      const pin = context.pins.get(guestId);
+      const target =
+        pin && freeCapacity(context, assignment, pin) > 0 ? pin : bestTable(context, assignment, [guestId])?.id;
+      assignment.set(guestId, target);
+    }
+  }
+  return assignment;
+}
+
+function bestTable(context: SolverContext, assignment: Assignment, unit: string[]): TableDTO | undefined {
+  let best: { table: TableDTO; cost: number } | undefined;
+  for (const table of orderedTables(context)) {
+    if (freeCapacity(context, assignment, table.id) < unit.length) {
+      continue;
+    }
+    const trial: Assignment = new Map(assignment);
+    unit.forEach((guestId) => trial.set(guestId, table.id));
+    const cost = evaluate(context, trial).cost;
+    if (!best || cost < best.cost) {
+      best = { table, cost };
+    }
+  }
+  return best?.table;
+}
+
+// Head tables first, then plan order.
+function orderedTables(context: SolverContext): TableDTO[] {
+  const tables = context.plan.tables;
+  return [
+    ...tables.filter((table) => context.headTableIds.has(table.id)),
+    ...tables.filter((table) => !context.headTableIds.has(table.id)),
+  ];
+}
+
+function tableCounts(assignment: Assignment): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const tableId of assignment.values()) {
+    if (tableId) {
+      counts.set(tableId, (counts.get(tableId) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// Seats left at a table, counting guests outside this run (e.g. declined) still seated there.
+function freeCapacity(context: SolverContext, assignment: Assignment, tableId: string): number {
+  const table = findTable(context.plan, tableId);
+  if (!table) {
+    return 0;
+  }
+  const outside = table.seats.filter((seat) => seat.guest_id && !assignment.has(seat.guest_id)).length;
+  return table.capacity - outside - (tableCounts(assignment).get(tableId) ?? 0);
+}
+
+// --------------------------------------------------------
+// Local search
+// --------------------------------------------------------
+function localSearch(context: SolverContext, assignment: Assignment, random: RandomSource, iterations: number): void {
+  const movable = context.guestIds.filter((guestId) => isMovable(context, guestId) && assignment.get(guestId));
+  const tables = context.plan.tables;
+  if (movable.length === 0 || tables.length < 2) {
+    return;
+  }
+
+  let current = evaluate(context, assignment).cost;
+  for (let i = 0; i < iterations && current > 0; i++) {
+    const trial: Assignment = new Map(assignment);
+    const target = tables[Math.floor(random() * tables.length)].id;
+
+    if (context.groups.length > 0 && random() < 0.3) {
+      const group = context.groups[Math.floor(random() * context.groups.length)];
+      const members = group.filter((guestId) => movable.includes(guestId) && trial.get(guestId) !== target);
+      if (members.length === 0 || freeCapacity(context, trial, target) < members.length) {
+        continue;
+      }
+      members.forEach((guestId) => trial.set(guestId, target));
+    } else {
+      const guestId = movable[Math.floor(random() * movable.length)];
+      const origin = trial.get(guestId);
+      if (origin === target) {
+        continue;
+      }
+      if (freeCapacity(context, trial, target) > 0) {
+        trial.set(guestId, target);
+      } else {
+        const partners = movable.filter((other) => trial.get(other) === target);
+        if (partners.length === 0) {
+          continue;
+        }
+        const partner = partners[Math.floor(random() * partners.length)];
+        trial.set(guestId, target);
+        trial.set(partner, origin);
+      }
+    }
+
+    const cost = evaluate(context, trial).cost;
+    if (cost < current || (cost === current && random() < 0.5)) {
+      trial.forEach((tableId, guestId) => assignment.set(guestId, tableId));
+      current = cost;
+    }
+  }
+}
+
+// --------------------------------------------------------
+// Scoring
+// --------------------------------------------------------
+function evaluate(context: SolverContext, assignment: Assignment): Evaluation {
+  const counts = tableCounts(assignment);
+  const violations: AutoSeatViolationDTO[] = [];
+  let cost = 0;
+  let groupIndex = 0;
+
+  context.rules.forEach((rule, index) => {
+    const weight = ruleWeight(rule);
+    const violate = (penalty: number, message: string, extra: Partial<AutoSeatViolationDTO> = {}) => {
+      cost += weight * penalty;
+      violations.push({ rule_index: index, rule: rule.rule, message, ...extra });
+    };
+
+    switch (rule.rule) {
+      case "keep_together": {
+        const members = context.groups[groupIndex++];
+        const tableIds = [...new Set(members.map((guestId) => assignment.get(guestId)).filter(Boolean))] as string[];
+        if (tableIds.length > 1) {
+          const label = "party_id" in rule ? findParty(context.plan, rule.party_id)?.name : rule.tag;
+          violate((tableIds.length - 1) / Math.max(1, members.length - 1), `Group "${label}" is split`, {
+            guest_ids: members,
+            table_ids: tableIds,
+          });
+        }
+        break;
+      }
+      case "keep_apart": {
+        const [a, b] = rule.guest_ids;
+        const tableId = assignment.get(a);
+        if (tableId && tableId === assignment.get(b)) {
+          violate(1, "Guests who should be apart share a table", { guest_ids: [a, b], table_ids: [tableId] });
+        }
+        break;
+      }
+      case "pin_to_table":
+        if (assignment.has(rule.guest_id) && assignment.get(rule.guest_id) !== rule.table_id) {
+          violate(1, "Pinned guest could not be seated at the pinned table", {
+            guest_ids: [rule.guest_id],
+            table_ids: [rule.table_id],
+          });
+        }
+        break;
+      case "fill_head_table_first": {
+        const table = findTable(context.plan, rule.table_id);
+        if (!table) {
+          break; // Checked when the rules were read
+        }
+        const free = freeCapacity(context, assignment, table.id);
+        const elsewhere = [...assignment.entries()].filter(
+          ([guestId, tableId]) => tableId && tableId !== table.id && isMovable(context, guestId)
+        ).length;
+        if (free > 0 && elsewhere > 0) {
+          violate(Math.min(free, elsewhere) / table.capacity, "Head table is not full", { table_ids: [table.id] });
+        }
+        break;
+      }
+      case "balance_tables": {
+        const tables = context.plan.tables.filter((table) => !context.headTableIds.has(table.id));
+        const seated = tables.reduce((sum, table) => sum + (counts.get(table.id) ?? 0), 0);
+        const capacity = tables.reduce((sum, table) => sum + table.capacity, 0);
+        if (seated === 0 || capacity === 0) {
+          break;
+        }
+        const deviations = tables.map((table) => (counts.get(table.id) ?? 0) - (table.capacity * seated) / capacity);
+        const spread = deviations.reduce((sum, deviation) => sum + Math.abs(deviation), 0);
+        if (deviations.some((deviation) => Math.abs(deviation) > 1)) {
+          violate(spread / seated, "Table sizes are unbalanced", {
+            table_ids: tables.filter((_, i) => Math.abs(deviations[i]) > 1).map((table) => table.id),
+          });
+        }
+        break;
+      }
+    }
+  });
+
+  return { cost, violations };
+}
+
+// --------------------------------------------------------
+// Seats & ops
+// --------------------------------------------------------
+// Concrete seats: fixed guests keep theirs; others take free seats in canonical order with
+// group members next to each other.
+function assignSeats(
+  context: SolverContext,
+  assignment: Assignment
+): Map<string, { table_id: string; seat_no: number }> {
+  const seats = new Map(context.fixedSeats);
+  const groupOf = new Map<string, number>();
+  context.groups.forEach((group, index) =>
+    group.forEach((guestId) => groupOf.has(guestId) || groupOf.set(guestId, index))
+  );
+
+  for (const table of context.plan.tables) {
+    const reserved = new Set<number>(
+      table.seats
+        .filter((seat) => seat.guest_id && (!assignment.has(seat.guest_id) || context.fixedSeats.has(seat.guest_id)))
+        .map((seat) => seat.seat_no)
+    );
+    const free = Array.from({ length: table.capacity }, (_, i) => i + 1).filter((seatNo) => !reserved.has(seatNo));
+    const guests = context.guestIds
+      .filter((guestId) => assignment.get(guestId) === table.id && !context.fixedSeats.has(guestId))
+      .sort((a, b) => (groupOf.get(a) ?? Infinity) - (groupOf.get(b) ?? Infinity));
+    guests.forEach((guestId, index) => seats.set(guestId, { table_id: table.id, seat_no: free[index] }));
+  }
+  return seats;
+}
+
+// Unseat everyone who moves first so the assigns never hit an occupied seat. Guests left out
+// of the run (declined) keep whatever seat they have.
+function diffOps(context: SolverContext, seats: Map<string, { table_id: string; seat_no: number }>): PlanOperation[] {
+  const unassign: PlanOperation[] = [];
+  const assign: PlanOperation[] = [];
+  for (const guestId of context.guestIds) {
+    const current = locateGuest(context.plan, guestId);
+    const next = seats.get(guestId);
+    if (current && next && current.table.id === next.table_id && current.seat_no === next.seat_no) {
+      continue;
+    }
+    if (current) {
+      unassign.push({ op: "unassign_guest_seat", guest_id: guestId });
+    }
+    if (next) {
+      assign.push({ op: "assign_guest_seat", guest_id: guestId, ...next });
+    }
+  }
+  return [...unassign, ...assign];
+}
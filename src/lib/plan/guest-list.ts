@@ -0,0 +1,34 @@
+import type { GuestListItemDTO, PlanDataDTO } from "../../types";
+
+// Flattened guest projection (GET /api/events/{event_id}/guests, exports) derived from plan_data.
+export function toGuestListItems(plan: PlanDataDTO): GuestListItemDTO[] {
+  const seats = new Map<string, { table_id: string; seat_no: number }>();
+  for (const table of plan.tables) {
+    for (const seat of table.seats) {
+      if (seat.guest_id) {
+        seats.set(seat.guest_id, { table_id: table.id, seat_no: seat.seat_no });
+      }
+    }
+  }
+  const parties = new Map((plan.parties ?? []).map((party) => [party.id, party]));
+
+  return plan.guests.map((guest) => {
+    const seat = seats.get(guest.id);
+    const party = guest.party_id ? parties.get(guest.party_id) : undefined;
+    return {
+      id: guest.id,
+      name: guest.name,
+      tag: guest.tag,
+      rsvp: guest.rsvp,
+      party_id: guest.party_id,
+      party_name: party?.name,
+      is_primary_contact: party ? party.primary_contact_id === guest.id : undefined,
+      plus_one_of: guest.plus_one_of,
+      is_placeholder: guest.is_placeholder,
+      age_group: guest.age_group,
+      table_id: seat?.table_id,
+      seat_no: seat?.seat_no,
+      unseated: !seat,
+    };
+  });
+}
@@ -0,0 +1,83 @@
+import type { GuestDTO, PartyDTO, PlanDataDTO, PlanOperation } from "../../types";
+import { PlanOperationError } from "./plan-errors";
+import { findGuest, findParty, locateGuest, partyMembers } from "./plan-utils";
+import { fillTableOps } from "./random-seating";
+
+// Op builders for parties/households and plus-ones. Everything returned here is a plain
+// PlanOperation list, so it goes through the same engine, undo stack and audit trail.
+
+export function plusOneName(host: Pick<GuestDTO, "name">): string {
+  return `Guest of ${host.name}`;
+}
+
+/** Placeholder plus-one for `hostId`, joining the host's party when they have one. */
+export function addPlusOneOps(plan: PlanDataDTO, hostId: string, plusOneId: string): PlanOperation[] {
+  const host = findGuest(plan, hostId);
+  if (!host) {
+    throw new PlanOperationError("GUEST_NOT_FOUND", "Guest not found", { guest_id: hostId });
+  }
+  const guest: GuestDTO = {
+    id: plusOneId,
+    name: plusOneName(host),
+    plus_one_of: host.id,
+    is_placeholder: true,
+    ...(host.party_id ? { party_id: host.party_id } : {}),
+  };
+  return [{ op: "add_guest", guest }];
+}
+
+/** Gives a placeholder plus-one a real name; the guest keeps its id, seat and host link. */
+export function renamePlusOneOps(guestId: string, name: string): PlanOperation[] {
+  return [{ op: "update_guest", id: guestId, patch: { name, is_placeholder: null } }];
+}
+
+/** Creates a party and moves the listed guests into it. */
+export function createPartyOps(party: PartyDTO, guestIds: string[]): PlanOperation[] {
+  return [
+    { op: "add_party", party },
+    ...guestIds.map((guestId): PlanOperation => ({ op: "update_guest", id: guestId, patch: { party_id: party.id } })),
+  ];
+}
+
+export interface PartyMoveSuggestion {
+  party: PartyDTO;
+  companion_ids: string[]; // Other members not yet at the target table
+  fits: boolean; // Whether the whole party fits the target table's free seats
+  ops: PlanOperation[]; // Moves every member (empty when !fits)
+}
+
+/**
+ * Called when a guest is dropped on another table: if they belong to a party with members
+ * elsewhere, returns the ops to bring the whole party along so the UI can offer it. Returns
+ * undefined for guests without a party or whose party is already together.
+ */
+export function suggestPartyMove(
+  plan: PlanDataDTO,
+  guestId: string,
+  toTableId: string,
+  seed?: string
+): PartyMoveSuggestion | undefined {
+  const guest = findGuest(plan, guestId);
+  const party = guest?.party_id ? findParty(plan, guest.party_id) : undefined;
+  if (!guest || !party) {
+    return undefined;
+  }
+
+  const members = partyMembers(plan, party.id).map((member) => member.id);
+  const companions = members.filter(
+    (memberId) => memberId !== guestId && locateGuest(plan, memberId)?.table.id !== toTableId
+  );
+  if (companions.length === 0) {
+    return undefined;
+  }
+
+  try {
+    const { ops } = fillTableOps(plan, toTableId, members, seed);
+    return { party, companion_ids: companions, fits: true, ops };
+  } catch (error) {
+    if (error instanceof PlanOperationError && error.code === "TABLE_FULL") {
+      return { party, companion_ids: companions, fits: false, ops: [] };
+    }
+    throw error;
+  }
+}
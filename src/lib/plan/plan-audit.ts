@@ -0,0 +1,201 @@
+import type {
+  AuditActionType,
+  AuditEntryDraft,
+  PlanDataDTO,
+  PlanOperation,
+  PlanPatch,
+  SeatRefDTO,
+  TableDTO,
+} from "../../types";
+import { diffPlans, summarizeDiff } from "./plan-diff";
+import { applyPlanOps, type PlanOpsContext } from "./plan-operations";
+import { findGuest, findParty, findTable, guestAtSeat, locateGuest, occupiedSeats } from "./plan-utils";
+
+// audit_log entries for an applied batch of plan operations. Each op is replayed on its own so
+// its entry can show the affected entity before and after: whole entities for creations and
+// deletions (the missing side is null), only the patched fields for updates. Batches too large
+// to itemize (imports, bulk reseating) become a single bulk_update entry.
+
+export const AUDIT_ITEMIZE_LIMIT = 25;
+
+const ACTION_BY_OP: Record<PlanOperation["op"], AuditActionType> = {
+  add_table: "table_create",
+  update_table: "table_update",
+  remove_table: "table_delete",
+  add_guest: "guest_add",
+  update_guest: "guest_edit",
+  remove_guest: "guest_delete",
+  add_party: "party_create",
+  update_party: "party_update",
+  remove_party: "party_delete",
+  assign_guest_seat: "seat_assign",
+  unassign_guest_seat: "seat_unassign",
+  swap_seats: "seat_swap",
+  move_guest_table: "guest_move",
+  change_seat_order_settings: "seat_order_changed",
+};
+
+export interface PlanAuditOptions extends PlanOpsContext {
+  source?: string; // Feature that produced the ops (e.g. "guest_import"); copied into every entry
+}
+
+/** Entries for `ops`, which must already have been applied successfully to `before`. */
+export function planAuditEntries(
+  before: PlanDataDTO,
+  ops: PlanOperation[],
+  options: PlanAuditOptions = {}
+): AuditEntryDraft[] {
+  const { source, ...context } = options;
+  const tagged = (entry: AuditEntryDraft): AuditEntryDraft =>
+    source ? { ...entry, details: { ...entry.details, source } } : entry;
+
+  if (ops.length > AUDIT_ITEMIZE_LIMIT) {
+    const after = applyPlanOps(before, ops, context).plan_data;
+    return [tagged(bulkEntry(before, after, ops))];
+  }
+
+  const entries: AuditEntryDraft[] = [];
+  let plan = before;
+  for (const op of ops) {
+    const next = applyPlanOps(plan, [op], context).plan_data;
+    entries.push(tagged(operationEntry(plan, next, op)));
+    plan = next;
+  }
+  return entries;
+}
+
+function bulkEntry(before: PlanDataDTO, after: PlanDataDTO, ops: PlanOperation[]): AuditEntryDraft {
+  const counts: Partial<Record<PlanOperation["op"], number>> = {};
+  const seeds: Record<string, string> = {}; // Per guest, for seats drawn at random
+  for (const op of ops) {
+    counts[op.op] = (counts[op.op] ?? 0) + 1;
+    if ((op.op === "assign_guest_seat" || op.op === "move_guest_table") && op.seed) {
+      seeds[op.guest_id] = op.seed;
+    }
+  }
+  return {
+    action_type: "bulk_update",
+    details: {
+      op_count: ops.length,
+      ops: counts,
+      ...(Object.keys(seeds).length ? { seeds } : {}),
+      before: planCounts(before),
+      after: planCounts(after),
+      diff: summarizeDiff(diffPlans(before, after)),
+    },
+  };
+}
+
+function operationEntry(before: PlanDataDTO, after: PlanDataDTO, op: PlanOperation): AuditEntryDraft {
+  const entry = (details: Record<string, unknown>): AuditEntryDraft => ({
+    action_type: ACTION_BY_OP[op.op],
+    details: { op: op.op, ...details },
+  });
+
+  switch (op.op) {
+    case "add_table":
+      return entry({ table_id: op.table.id, before: null, after: tableState(findTable(after, op.table.id)) });
+    case "update_table":
+      return entry({
+        table_id: op.id,
+        before: patchedFields(findTable(before, op.id), op.patch),
+        after: patchedFields(findTable(after, op.id), op.patch),
+      });
+    case "remove_table":
+      return entry({ table_id: op.id, before: tableState(findTable(before, op.id)), after: null });
+    case "add_guest":
+      return entry({ guest_id: op.guest.id, before: null, after: guestState(after, op.guest.id) });
+    case "update_guest":
+      return entry({
+        guest_id: op.id,
+        before: patchedFields(findGuest(before, op.id), op.patch),
+        after: patchedFields(findGuest(after, op.id), op.patch),
+      });
+    case "remove_guest":
+      return entry({ guest_id: op.id, before: guestState(before, op.id), after: null });
+    case "add_party":
+      return entry({ party_id: op.party.id, before: null, after: findParty(after, op.party.id) ?? null });
+    case "update_party":
+      return entry({
+        party_id: op.id,
+        before: patchedFields(findParty(before, op.id), op.patch),
+        after: patchedFields(findParty(after, op.id), op.patch),
+      });
+    case "remove_party":
+      return entry({ party_id: op.id, before: findParty(before, op.id) ?? null, after: null });
+    case "assign_guest_seat":
+    case "unassign_guest_seat":
+    case "move_guest_table": {
+      const from = seatOf(before, op.guest_id);
+      const to = seatOf(after, op.guest_id);
+      // A seat assignment that takes the guest to another table is a move.
+      const moved = op.op === "assign_guest_seat" && from !== null && to !== null && from.table_id !== to.table_id;
+      // Seats left to chance keep the seed that drew them, so the batch can be replayed.
+      const seed = op.op === "unassign_guest_seat" ? undefined : op.seed;
+      return {
+        action_type: moved ? "guest_move" : ACTION_BY_OP[op.op],
+        details: { op: op.op, guest_id: op.guest_id, before: from, after: to, ...(seed ? { seed } : {}) },
+      };
+    }
+    case "swap_seats":
+      return entry({
+        seats: [op.a, op.b],
+        before: [occupant(before, op.a), occupant(before, op.b)],
+        after: [occupant(after, op.a), occupant(after, op.b)],
+      });
+    case "change_seat_order_settings":
+      return entry({
+        table_id: op.table_id,
+        before: seatOrder(findTable(before, op.table_id)),
+        after: seatOrder(findTable(after, op.table_id)),
+      });
+  }
+}
+
+// Tables are recorded without their seat list; the seated guests are listed instead.
+function tableState(table: TableDTO | undefined): Record<string, unknown> | null {
+  if (!table) {
+    return null;
+  }
+  const { seats, ...rest } = table;
+  return { ...rest, seated_guest_ids: seats.flatMap((seat) => (seat.guest_id ? [seat.guest_id] : [])) };
+}
+
+function guestState(plan: PlanDataDTO, guestId: string): Record<string, unknown> | null {
+  const guest = findGuest(plan, guestId);
+  return guest ? { ...guest, seat: seatOf(plan, guestId) } : null;
+}
+
+function seatOf(plan: PlanDataDTO, guestId: string): SeatRefDTO | null {
+  const location = locateGuest(plan, guestId);
+  return location ? { table_id: location.table.id, seat_no: location.seat_no } : null;
+}
+
+function occupant(plan: PlanDataDTO, seat: SeatRefDTO): string | null {
+  const table = findTable(plan, seat.table_id);
+  return (table && guestAtSeat(table, seat.seat_no)) ?? null;
+}
+
+function seatOrder(table: TableDTO | undefined): Record<string, unknown> | null {
+  return table
+    ? { start_index: table.start_index, head_seat: table.head_seat, direction: table.direction ?? "clockwise" }
+    : null;
+}
+
+// Values of the patched keys; keys the entity does not have (cleared fields) are recorded as null.
+function patchedFields<T extends object>(entity: T | undefined, patch: PlanPatch<T>): Record<string, unknown> | null {
+  if (!entity) {
+    return null;
+  }
+  const values = entity as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(patch).map((key) => [key, values[key] ?? null]));
+}
+
+function planCounts(plan: PlanDataDTO): Record<string, number> {
+  return {
+    tables: plan.tables.length,
+    guests: plan.guests.length,
+    seated: plan.tables.reduce((total, table) => total + occupiedSeats(table).length, 0),
+    parties: plan.parties?.length ?? 0,
+  };
+}
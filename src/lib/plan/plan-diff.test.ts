@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import type { PlanDataDTO, TableDTO } from "../../types";
+import { diffPlans, summarizeDiff } from "./plan-diff";
+
+function table(id: string, overrides: Partial<TableDTO> = {}): TableDTO {
+  return { id, shape: "round", capacity: 4, start_index: 1, head_seat: 1, seats: [], ...overrides };
+}
+
+const before: PlanDataDTO = {
+  tables: [
+    table("t1", {
+      label: "Head",
+      seats: [
+        { seat_no: 1, guest_id: "g1" },
+        { seat_no: 2, guest_id: "g2" },
+      ],
+    }),
+    table("t2", { seats: [{ seat_no: 1, guest_id: "g3" }] }),
+  ],
+  guests: [
+    { id: "g1", name: "Anna" },
+    { id: "g2", name: "Bob" },
+    { id: "g3", name: "Cleo" },
+  ],
+  settings: { color_palette: "default" },
+};
+
+describe("diffPlans", () => {
+  it("reports nothing for identical plans", () => {
+    expect(diffPlans(before, structuredClone(before))).toEqual({
+      guests_added: [],
+      guests_removed: [],
+      guests_renamed: [],
+      seat_moves: [],
+      tables_added: [],
+      tables_removed: [],
+      tables_changed: [],
+    });
+  });
+
+  it("matches guests and tables by id", () => {
+    const after: PlanDataDTO = {
+      tables: [
+        table("t1", { label: "Top", capacity: 6, seats: [{ seat_no: 2, guest_id: "g1" }] }),
+        table("t3", { shape: "long", seats: [{ seat_no: 1, guest_id: "g4" }] }),
+      ],
+      guests: [
+        { id: "g1", name: "Anna" },
+        { id: "g3", name: "Cleo M." },
+        { id: "g4", name: "Dora" },
+      ],
+      settings: { color_palette: "default" },
+    };
+
+    expect(diffPlans(before, after)).toEqual({
+      guests_added: [{ id: "g4", name: "Dora" }],
+      guests_removed: [{ id: "g2", name: "Bob" }],
+      guests_renamed: [{ id: "g3", name: "Cleo M.", previous_name: "Cleo" }],
+      seat_moves: [
+        { guest_id: "g1", name: "Anna", from: { table_id: "t1", seat_no: 1 }, to: { table_id: "t1", seat_no: 2 } },
+        { guest_id: "g3", name: "Cleo M.", from: { table_id: "t2", seat_no: 1 }, to: null },
+      ],
+      tables_added: [{ id: "t3", label: null }],
+      tables_removed: [{ id: "t2", label: null }],
+      tables_changed: [
+        { id: "t1", label: "Top", changes: { capacity: { from: 4, to: 6 }, label: { from: "Head", to: "Top" } } },
+      ],
+    });
+  });
+});
+
+describe("summarizeDiff", () => {
+  it("keeps exact counts but caps the item lists", () => {
+    const after: PlanDataDTO = {
+      ...before,
+      guests: [...before.guests, ...["a", "b", "c"].map((id) => ({ id, name: id }))],
+    };
+    const summary = summarizeDiff(diffPlans(before, after), 2);
+    expect(summary.counts.guests_added).toBe(3);
+    expect(summary.changes.guests_added.map((guest) => guest.id)).toEqual(["a", "b"]);
+    expect(summary.truncated).toBe(true);
+  });
+
+  it("is not truncated when every list fits", () => {
+    expect(summarizeDiff(diffPlans(before, before)).truncated).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import type {
+  PlanDataDTO,
+  PlanDiffDTO,
+  PlanDiffSummaryDTO,
+  SeatMoveDTO,
+  SeatRefDTO,
+  TableChangeDTO,
+  TableDTO,
+} from "../../types";
+
+// Structured comparison of two plans for the snapshot version browser. Guests and tables are
+// matched by id; seat moves are only reported for guests present in both plans (additions and
+// removals already cover the rest).
+
+export const DIFF_SUMMARY_ITEM_LIMIT = 20;
+
+export function diffPlans(before: PlanDataDTO, after: PlanDataDTO): PlanDiffDTO {
+  const beforeGuests = new Map(before.guests.map((guest) => [guest.id, guest]));
+  const afterGuests = new Map(after.guests.map((guest) => [guest.id, guest]));
+  const beforeTables = new Map(before.tables.map((table) => [table.id, table]));
+  const afterTables = new Map(after.tables.map((table) => [table.id, table]));
+  const beforeSeats = seatIndex(before);
+  const afterSeats = seatIndex(after);
+
+  const diff: PlanDiffDTO = {
+    guests_added: [],
+    guests_removed: [],
+    guests_renamed: [],
+    seat_moves: [],
+    tables_added: [],
+    tables_removed: [],
+    tables_changed: [],
+  };
+
+  for (const guest of after.guests) {
+    const previous = beforeGuests.get(guest.id);
+    if (!previous) {
+      diff.guests_added.push({ id: guest.id, name: guest.name });
+      continue;
+    }
+    if (previous.name !== guest.name) {
+      diff.guests_renamed.push({ id: guest.id, name: guest.name, previous_name: previous.name });
+    }
+    const from = beforeSeats.get(guest.id) ?? null;
+    const to = afterSeats.get(guest.id) ?? null;
+    if (!sameSeat(from, to)) {
+      diff.seat_moves.push({ guest_id: guest.id, name: guest.name, from, to } satisfies SeatMoveDTO);
+    }
+  }
+  for (const guest of before.guests) {
+    if (!afterGuests.has(guest.id)) {
+      diff.guests_removed.push({ id: guest.id, name: guest.name });
+    }
+  }
+
+  for (const table of after.tables) {
+    const previous = beforeTables.get(table.id);
+    if (!previous) {
+      diff.tables_added.push(tableRef(table));
+      continue;
+    }
+    const change = tableChange(previous, table);
+    if (change) {
+      diff.tables_changed.push(change);
+    }
+  }
+  for (const table of before.tables) {
+    if (!afterTables.has(table.id)) {
+      diff.tables_removed.push(tableRef(table));
+    }
+  }
+
+  return diff;
+}
+
+/** Compact form for snapshots.diff_summary: exact counts, item lists capped at `limit`. */
+export function summarizeDiff(diff: PlanDiffDTO, limit = DIFF_SUMMARY_ITEM_LIMIT): PlanDiffSummaryDTO {
+  const keys = Object.keys(diff) as (keyof PlanDiffDTO)[];
+  const counts = Object.fromEntries(keys.map((key) => [key, diff[key].length])) as PlanDiffSummaryDTO["counts"];
+  const changes = Object.fromEntries(keys.map((key) => [key, diff[key].slice(0, limit)])) as unknown as PlanDiffDTO;
+  return { counts, changes, truncated: keys.some((key) => diff[key].length > limit) };
+}
+
+function seatIndex(plan: PlanDataDTO): Map<string, SeatRefDTO> {
+  const index = new Map<string, SeatRefDTO>();
+  for (const table of plan.tables) {
+    for (const seat of table.seats) {
+      if (seat.guest_id) {
+        index.set(seat.guest_id, { table_id: table.id, seat_no: seat.seat_no });
+      }
+    }
+  }
+  return index;
+}
+
+function sameSeat(a: SeatRefDTO | null, b: SeatRefDTO | null): boolean {
+  return a?.table_id === b?.table_id && a?.seat_no === b?.seat_no;
+}
+
+function tableRef(table: TableDTO) {
+  return { id: table.id, label: table.label ?? null };
+}
+
+function tableChange(before: TableDTO, after: TableDTO): TableChangeDTO | undefined {
+  const changes: TableChangeDTO["changes"] = {};
+  if (before.capacity !== after.capacity) {
+    changes.capacity = { from: before.capacity, to: after.capacity };
+  }
+  if ((before.label ?? null) !== (after.label ?? null)) {
+    changes.label = { from: before.label ?? null, to: after.label ?? null };
+  }
+  if (before.shape !== after.shape) {
+    changes.shape = { from: before.shape, to: after.shape };
+  }
+  return Object.keys(changes).length > 0 ? { ...tableRef(after), changes } : undefined;
+}
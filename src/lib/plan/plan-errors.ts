@@ -0,0 +1,34 @@
+import type { ApiErrorDTO } from "../../types";
+
+// Machine-readable codes raised by the plan operation engine. They double as
+// ApiErrorDTO codes so route handlers can forward them without remapping.
+export type PlanOperationErrorCode =
+  | "INVALID_OPERATION"
+  | "DUPLICATE_ID"
+  | "TABLE_NOT_FOUND"
+  | "GUEST_NOT_FOUND"
+  | "PARTY_NOT_FOUND"
+  | "GUEST_NOT_SEATED"
+  | "GUEST_ALREADY_SEATED"
+  | "SEAT_OUT_OF_CAPACITY"
+  | "SEAT_OCCUPIED"
+  | "TABLE_FULL"
+  | "TABLE_CAPACITY_OVERFLOW"
+  | "PLACEMENT_OUT_OF_BOUNDS"
+  | "PLACEMENT_COLLISION";
+
+export class PlanOperationError extends Error {
+  readonly code: PlanOperationErrorCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: PlanOperationErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "PlanOperationError";
+    this.code = code;
+    this.details = details;
+  }
+
+  toApiError(): ApiErrorDTO {
+    return { error: { code: this.code, message: this.message, details: this.details } };
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+
+import type { PlanDataDTO, PlanOperation } from "../../types";
+import { PlanOperationError } from "./plan-errors";
+import { applyPlanOps } from "./plan-operations";
+
+function basePlan(): PlanDataDTO {
+  return {
+    tables: [
+      { id: "t1", shape: "round", capacity: 4, label: "Table 1", start_index: 1, head_seat: 1, seats: [] },
+      { id: "t2", shape: "rectangular", capacity: 2, start_index: 1, head_seat: 1, seats: [] },
+    ],
+    guests: [
+      { id: "g1", name: "Anna", tag: "Family" },
+      { id: "g2", name: "Bob", note: "Vegan" },
+      { id: "g3", name: "Cleo" },
+    ],
+    settings: { color_palette: "default" },
+  };
+}
+
+// Undo re-appends removed tables and guests, so round trips compare plans regardless of list order.
+function byId(plan: PlanDataDTO): PlanDataDTO {
+  const order = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+  return { ...plan, tables: [...plan.tables].sort(order), guests: [...plan.guests].sort(order) };
+}
+
+// Applies `ops`, then their inverse, and expects the original plan back.
+function expectRoundTrip(plan: PlanDataDTO, ops: PlanOperation[]): PlanDataDTO {
+  const result = applyPlanOps(plan, ops);
+  // Inverse ops travel as JSON, so they must survive serialization unchanged
+  const inverse = JSON.parse(JSON.stringify(result.inverse_ops)) as PlanOperation[];
+  expect(byId(applyPlanOps(result.plan_data, inverse).plan_data)).toEqual(byId(plan));
+  return result.plan_data;
+}
+
+function errorOf(run: () => unknown): PlanOperationError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PlanOperationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected a PlanOperationError");
+}
+
+describe("applyPlanOps", () => {
+  it("does not mutate the input plan", () => {
+    const plan = basePlan();
+    const before = structuredClone(plan);
+    applyPlanOps(plan, [
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t1", seat_no: 2 },
+      { op: "update_guest", id: "g2", patch: { name: "Robert" } },
+    ]);
+    expect(plan).toEqual(before);
+  });
+
+  it("returns inverse ops that restore the plan for every op type", () => {
+    const seated = applyPlanOps(basePlan(), [
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t1", seat_no: 1 },
+      { op: "assign_guest_seat", guest_id: "g2", table_id: "t1", seat_no: 3 },
+    ]).plan_data;
+
+    expectRoundTrip(seated, [
+      {
+        op: "add_table",
+        table: { id: "t3", shape: "long", capacity: 4, start_index: 1, head_seat: 1, seats: [] },
+      },
+      { op: "update_table", id: "t1", patch: { capacity: 6, label: "Head" } },
+      { op: "add_guest", guest: { id: "g4", name: "Dora" } },
+      { op: "update_guest", id: "g1", patch: { name: "Ann", tag: null } },
+      { op: "assign_guest_seat", guest_id: "g3", table_id: "t2", seat_no: 2 },
+      { op: "swap_seats", a: { table_id: "t1", seat_no: 1 }, b: { table_id: "t1", seat_no: 3 } },
+      { op: "move_guest_table", guest_id: "g2", to_table_id: "t3", seat_no: 4 },
+      { op: "unassign_guest_seat", guest_id: "g3" },
+      { op: "remove_guest", id: "g1" },
+      { op: "remove_table", id: "t3" },
+    ]);
+  });
+
+  it("restores the previous seat order settings", () => {
+    const result = applyPlanOps(basePlan(), [
+      { op: "change_seat_order_settings", table_id: "t1", start_index: 10, head_seat: 2 },
+    ]);
+    expect(result.plan_data.tables[0]).toMatchObject({ start_index: 10, head_seat: 2 });
+    expect(result.inverse_ops).toMatchObject([
+      { op: "change_seat_order_settings", table_id: "t1", start_index: 1, head_seat: 1 },
+    ]);
+  });
+
+  it("restores a removed guest to their seat", () => {
+    const seated = applyPlanOps(basePlan(), [
+      { op: "assign_guest_seat", guest_id: "g2", table_id: "t2", seat_no: 2 },
+    ]).plan_data;
+    const removed = expectRoundTrip(seated, [{ op: "remove_guest", id: "g2" }]);
+    expect(removed.tables[1].seats).toEqual([]);
+  });
+
+  it("clears a field patched with null and restores it on undo", () => {
+    const result = applyPlanOps(basePlan(), [{ op: "update_guest", id: "g2", patch: { note: null } }]);
+    expect(result.plan_data.guests[1]).toEqual({ id: "g2", name: "Bob" });
+    expect(result.inverse_ops).toEqual([{ op: "update_guest", id: "g2", patch: { note: "Vegan" } }]);
+  });
+
+  it("undoes a patch that set a previously absent field by clearing it", () => {
+    const result = applyPlanOps(basePlan(), [{ op: "update_guest", id: "g3", patch: { rsvp: "Yes" } }]);
+    expect(result.inverse_ops).toEqual([{ op: "update_guest", id: "g3", patch: { rsvp: null } }]);
+  });
+
+  it("moving a guest to another seat vacates the old one", () => {
+    const plan = applyPlanOps(basePlan(), [
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t1", seat_no: 1 },
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t2", seat_no: 1 },
+    ]).plan_data;
+    expect(plan.tables[0].seats).toEqual([]);
+    expect(plan.tables[1].seats).toEqual([{ seat_no: 1, guest_id: "g1" }]);
+  });
+
+  it("swapping with an empty seat moves the guest", () => {
+    const plan = applyPlanOps(basePlan(), [
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t1", seat_no: 1 },
+      { op: "swap_seats", a: { table_id: "t1", seat_no: 1 }, b: { table_id: "t2", seat_no: 2 } },
+    ]).plan_data;
+    expect(plan.tables[0].seats).toEqual([]);
+    expect(plan.tables[1].seats).toEqual([{ seat_no: 2, guest_id: "g1" }]);
+  });
+
+  it("is atomic: a failing op leaves nothing applied and reports its index", () => {
+    const plan = basePlan();
+    const error = errorOf(() =>
+      applyPlanOps(plan, [
+        { op: "assign_guest_seat", guest_id: "g1", table_id: "t1", seat_no: 1 },
+        { op: "assign_guest_seat", guest_id: "g2", table_id: "t1", seat_no: 1 },
+      ])
+    );
+    expect(error.code).toBe("SEAT_OCCUPIED");
+    expect(error.details).toMatchObject({ op_index: 1, op: "assign_guest_seat", seat_no: 1, guest_id: "g1" });
+    expect(plan.tables[0].seats).toEqual([]);
+  });
+
+  it.each<[string, PlanOperation, string]>([
+    [
+      "duplicate table id",
+      { op: "add_table", table: { id: "t1", shape: "round", capacity: 2, start_index: 1, head_seat: 1, seats: [] } },
+      "DUPLICATE_ID",
+    ],
+    ["duplicate guest id", { op: "add_guest", guest: { id: "g1", name: "Again" } }, "DUPLICATE_ID"],
+    ["unknown table", { op: "remove_table", id: "nope" }, "TABLE_NOT_FOUND"],
+    ["unknown guest", { op: "remove_guest", id: "nope" }, "GUEST_NOT_FOUND"],
+    [
+      "seat beyond capacity",
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t2", seat_no: 3 },
+      "SEAT_OUT_OF_CAPACITY",
+    ],
+    ["unseating an unseated guest", { op: "unassign_guest_seat", guest_id: "g1" }, "GUEST_NOT_SEATED"],
+    ["patching a guest id", { op: "update_guest", id: "g1", patch: { id: "g9" } as never }, "INVALID_OPERATION"],
+  ])("rejects %s", (_, op, code) => {
+    expect(errorOf(() => applyPlanOps(basePlan(), [op])).code).toBe(code);
+  });
+
+  it("refuses to shrink a table below its seated guests", () => {
+    const seated = applyPlanOps(basePlan(), [
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t1", seat_no: 4 },
+    ]).plan_data;
+    const error = errorOf(() => applyPlanOps(seated, [{ op: "update_table", id: "t1", patch: { capacity: 3 } }]));
+    expect(error.code).toBe("TABLE_CAPACITY_OVERFLOW");
+    expect(error.details).toMatchObject({ table_id: "t1", capacity: 3, guest_ids: ["g1"] });
+  });
+});
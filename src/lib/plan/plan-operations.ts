@@ -0,0 +1,525 @@
+import { Constants } from "../../db/database.types";
+import type {
+  GridSizeDTO,
+  GuestDTO,
+  PartyDTO,
+  PlanDataDTO,
+  PlanOperation,
+  PlanPatch,
+  SeatRefDTO,
+  TableDTO,
+} from "../../types";
+import { PlanOperationError } from "./plan-errors";
+import {
+  clonePlan,
+  findGuest,
+  findParty,
+  findTable,
+  guestAtSeat,
+  locateGuest,
+  occupiedSeats,
+  type GuestSeatLocation,
+} from "./plan-utils";
+import { fallbackSeatSeed, pickRandomSeat } from "./random-seating";
+import { assertPlacement } from "./table-placement";
+
+// Pure plan operation engine shared by the bulk plan endpoint and the client undo/redo stack.
+// Every operation is validated against the current draft, applied in place on a private clone
+// and answered with the list of operations that undo it. Nothing here touches I/O.
+
+const NAME_MAX_LENGTH = 150;
+const TABLE_SHAPES: readonly string[] = Constants.public.Enums.table_shape_enum;
+const TABLE_ROTATIONS: readonly number[] = [0, 90, 180, 270];
+const SEAT_DIRECTIONS: readonly string[] = ["clockwise", "counterclockwise"];
+const AGE_GROUPS: readonly string[] = ["adult", "child"];
+
+type OperationOf<K extends PlanOperation["op"]> = Extract<PlanOperation, { op: K }>;
+
+// Event-level facts the plan itself does not carry.
+export interface PlanOpsContext {
+  grid?: GridSizeDTO; // When present, table placement is checked for bounds and collisions
+}
+
+export interface PlanOpsResult {
+  plan_data: PlanDataDTO;
+  inverse_ops: PlanOperation[]; // Applying these to plan_data restores the input plan
+  applied_ops: number;
+}
+
+/**
+ * Applies a batch of operations atomically: either every op succeeds and a new plan is
+ * returned, or a PlanOperationError (with `op_index` in details) is thrown and the input
+ * plan is left untouched.
+ */
+export function applyPlanOps(plan: PlanDataDTO, ops: PlanOperation[], context: PlanOpsContext = {}): PlanOpsResult {
+  const draft = clonePlan(plan);
+  const inverse: PlanOperation[] = [];
+
+  ops.forEach((op, index) => {
+    try {
+      // Undo runs newest-first, so each op's inverse block is prepended.
+      inverse.unshift(...applyOperation(draft, op, context));
+    } catch (error) {
+      if (error instanceof PlanOperationError) {
+        throw new PlanOperationError(error.code, error.message, { ...error.details, op_index: index, op: op.op });
+      }
+      throw error;
+    }
+  });
+
+  return { plan_data: draft, inverse_ops: inverse, applied_ops: ops.length };
+}
+
+function applyOperation(plan: PlanDataDTO, op: PlanOperation, context: PlanOpsContext): PlanOperation[] {
+  switch (op.op) {
+    case "add_table":
+      return addTable(plan, op, context);
+    case "update_table":
+      return updateTable(plan, op, context);
+    case "remove_table":
+      return removeTable(plan, op);
+    case "add_guest":
+      return addGuest(plan, op);
+    case "update_guest":
+      return updateGuest(plan, op);
+    case "remove_guest":
+      return removeGuest(plan, op);
+    case "add_party":
+      return addParty(plan, op);
+    case "update_party":
+      return updateParty(plan, op);
+    case "remove_party":
+      return removeParty(plan, op);
+    case "assign_guest_seat":
+      return assignGuestSeat(plan, op);
+    case "unassign_guest_seat":
+      return unassignGuestSeat(plan, op);
+    case "swap_seats":
+      return swapSeats(plan, op);
+    case "move_guest_table":
+      return moveGuestTable(plan, op);
+    case "change_seat_order_settings":
+      return changeSeatOrderSettings(plan, op);
+    default:
+      throw new PlanOperationError("INVALID_OPERATION", "Unsupported operation", {
+        op: (op as { op?: unknown }).op,
+      });
+  }
+}
+
+// --------------------------------------------------------
+// Tables
+// --------------------------------------------------------
+function addTable(plan: PlanDataDTO, op: OperationOf<"add_table">, context: PlanOpsContext): PlanOperation[] {
+  const table = structuredClone(op.table);
+  if (findTable(plan, table.id)) {
+    throw new PlanOperationError("DUPLICATE_ID", "Table id already exists", { table_id: table.id });
+  }
+  assertTableSettings(table);
+  if (context.grid) {
+    assertPlacement(plan, context.grid, table);
+  }
+
+  const seats = occupiedSeats({ ...table, seats: table.seats ?? [] });
+  const seenSeats = new Set<number>();
+  for (const seat of seats) {
+    assertSeatInCapacity(table, seat.seat_no);
+    if (seenSeats.has(seat.seat_no)) {
+      throw new PlanOperationError("SEAT_OCCUPIED", "Seat assigned twice", {
+        table_id: table.id,
+        seat_no: seat.seat_no,
+      });
+    }
+    seenSeats.add(seat.seat_no);
+    const guestId = seat.guest_id as string;
+    requireGuest(plan, guestId);
+    if (locateGuest(plan, guestId) || seats.filter((entry) => entry.guest_id === guestId).length > 1) {
+      throw new PlanOperationError("GUEST_ALREADY_SEATED", "Guest is already seated", { guest_id: guestId });
+    }
+  }
+
+  table.seats = sortSeats(seats);
+  plan.tables.push(table);
+  return [{ op: "remove_table", id: table.id }];
+}
+
+function updateTable(plan: PlanDataDTO, op: OperationOf<"update_table">, context: PlanOpsContext): PlanOperation[] {
+  const table = requireTable(plan, op.id);
+  if ("id" in op.patch || "seats" in op.patch) {
+    throw new PlanOperationError("INVALID_OPERATION", "Table id and seats cannot be patched", { table_id: op.id });
+  }
+
+  const next = applyPatch<TableDTO>(table, op.patch);
+  assertTableSettings(next);
+  const overflow = occupiedSeats(table).filter((seat) => seat.seat_no > next.capacity);
+  if (overflow.length > 0) {
+    throw new PlanOperationError("TABLE_CAPACITY_OVERFLOW", "Capacity is below assigned seats", {
+      table_id: table.id,
+      capacity: next.capacity,
+      guest_ids: overflow.map((seat) => seat.guest_id),
+    });
+  }
+  if (context.grid) {
+    assertPlacement(plan, context.grid, next);
+  }
+
+  const previous = pickPrevious(table, op.patch);
+  plan.tables[plan.tables.indexOf(table)] = next;
+  return [{ op: "update_table", id: table.id, patch: previous }];
+}
+
+function removeTable(plan: PlanDataDTO, op: OperationOf<"remove_table">): PlanOperation[] {
+  const table = requireTable(plan, op.id);
+  plan.tables.splice(plan.tables.indexOf(table), 1);
+  // Seated guests stay in the guest list; re-adding the table re-seats them.
+  return [{ op: "add_table", table: structuredClone(table) }];
+}
+
+// --------------------------------------------------------
+// Guests
+// --------------------------------------------------------
+function addGuest(plan: PlanDataDTO, op: OperationOf<"add_guest">): PlanOperation[] {
+  if (findGuest(plan, op.guest.id)) {
+    throw new PlanOperationError("DUPLICATE_ID", "Guest id already exists", { guest_id: op.guest.id });
+  }
+  assertGuestFields(plan, op.guest);
+  plan.guests.push(structuredClone(op.guest));
+  return [{ op: "remove_guest", id: op.guest.id }];
+}
+
+function updateGuest(plan: PlanDataDTO, op: OperationOf<"update_guest">): PlanOperation[] {
+  const guest = requireGuest(plan, op.id);
+  if ("id" in op.patch) {
+    throw new PlanOperationError("INVALID_OPERATION", "Guest id cannot be patched", { guest_id: op.id });
+  }
+
+  const next = applyPatch<GuestDTO>(guest, op.patch);
+  assertGuestFields(plan, next);
+  const previous = pickPrevious(guest, op.patch);
+  plan.guests[plan.guests.indexOf(guest)] = next;
+  return [{ op: "update_guest", id: guest.id, patch: previous }];
+}
+
+function removeGuest(plan: PlanDataDTO, op: OperationOf<"remove_guest">): PlanOperation[] {
+  const guest = requireGuest(plan, op.id);
+  const location = locateGuest(plan, guest.id);
+  if (location) {
+    clearSeat(location.table, location.seat_no);
+  }
+  plan.guests.splice(plan.guests.indexOf(guest), 1);
+
+  const inverse: PlanOperation[] = [{ op: "add_guest", guest: structuredClone(guest) }];
+  const party = guest.party_id ? findParty(plan, guest.party_id) : undefined;
+  if (party && party.primary_contact_id === guest.id) {
+    delete party.primary_contact_id;
+    inverse.push({ op: "update_party", id: party.id, patch: { primary_contact_id: guest.id } });
+  }
+  // Plus-ones stay in the list without a host
+  for (const plusOne of plan.guests.filter((other) => other.plus_one_of === guest.id)) {
+    delete plusOne.plus_one_of;
+    inverse.push({ op: "update_guest", id: plusOne.id, patch: { plus_one_of: guest.id } });
+  }
+  if (location) {
+    inverse.push({
+      op: "assign_guest_seat",
+      guest_id: guest.id,
+      table_id: location.table.id,
+      seat_no: location.seat_no,
+    });
+  }
+  return inverse;
+}
+
+// --------------------------------------------------------
+// Parties
+// --------------------------------------------------------
+function addParty(plan: PlanDataDTO, op: OperationOf<"add_party">): PlanOperation[] {
+  if (findParty(plan, op.party.id)) {
+    throw new PlanOperationError("DUPLICATE_ID", "Party id already exists", { party_id: op.party.id });
+  }
+  assertPartyFields(plan, op.party);
+  plan.parties = [...(plan.parties ?? []), structuredClone(op.party)];
+  return [{ op: "remove_party", id: op.party.id }];
+}
+
+function updateParty(plan: PlanDataDTO, op: OperationOf<"update_party">): PlanOperation[] {
+  const party = requireParty(plan, op.id);
+  if ("id" in op.patch) {
+    throw new PlanOperationError("INVALID_OPERATION", "Party id cannot be patched", { party_id: op.id });
+  }
+
+  const next = applyPatch<PartyDTO>(party, op.patch);
+  assertPartyFields(plan, next);
+  const previous = pickPrevious(party, op.patch);
+  const parties = plan.parties ?? [];
+  parties[parties.indexOf(party)] = next;
+  return [{ op: "update_party", id: party.id, patch: previous }];
+}
+
+function removeParty(plan: PlanDataDTO, op: OperationOf<"remove_party">): PlanOperation[] {
+  const party = requireParty(plan, op.id);
+  const inverse: PlanOperation[] = [{ op: "add_party", party: structuredClone(party) }];
+  for (const guest of plan.guests) {
+    if (guest.party_id === party.id) {
+      delete guest.party_id;
+      inverse.push({ op: "update_guest", id: guest.id, patch: { party_id: party.id } });
+    }
+  }
+  plan.parties = (plan.parties ?? []).filter((entry) => entry !== party);
+  return inverse;
+}
+
+// --------------------------------------------------------
+// Seating
+// --------------------------------------------------------
+function assignGuestSeat(plan: PlanDataDTO, op: OperationOf<"assign_guest_seat">): PlanOperation[] {
+  requireGuest(plan, op.guest_id);
+  const table = requireTable(plan, op.table_id);
+  const previous = seatGuest(plan, op.guest_id, table, op.seat_no, op.seed);
+
+  if (previous === null) {
+    return [];
+  }
+  if (!previous) {
+    return [{ op: "unassign_guest_seat", guest_id: op.guest_id }];
+  }
+  return [{ op: "assign_guest_seat", guest_id: op.guest_id, table_id: previous.table.id, seat_no: previous.seat_no }];
+}
+
+function unassignGuestSeat(plan: PlanDataDTO, op: OperationOf<"unassign_guest_seat">): PlanOperation[] {
+  requireGuest(plan, op.guest_id);
+  const location = requireSeatedGuest(plan, op.guest_id);
+  clearSeat(location.table, location.seat_no);
+  return [{ op: "assign_guest_seat", guest_id: op.guest_id, table_id: location.table.id, seat_no: location.seat_no }];
+}
+
+function swapSeats(plan: PlanDataDTO, op: OperationOf<"swap_seats">): PlanOperation[] {
+  const tableA = requireSeatTable(plan, op.a);
+  const tableB = requireSeatTable(plan, op.b);
+  if (tableA === tableB && op.a.seat_no === op.b.seat_no) {
+    return [];
+  }
+
+  // An empty side turns the swap into a plain move.
+  const guestA = guestAtSeat(tableA, op.a.seat_no);
+  const guestB = guestAtSeat(tableB, op.b.seat_no);
+  clearSeat(tableA, op.a.seat_no);
+  clearSeat(tableB, op.b.seat_no);
+  if (guestB) {
+    setSeat(tableA, op.a.seat_no, guestB);
+  }
+  if (guestA) {
+    setSeat(tableB, op.b.seat_no, guestA);
+  }
+  return [{ op: "swap_seats", a: { ...op.a }, b: { ...op.b } }];
+}
+
+function moveGuestTable(plan: PlanDataDTO, op: OperationOf<"move_guest_table">): PlanOperation[] {
+  requireGuest(plan, op.guest_id);
+  const origin = requireSeatedGuest(plan, op.guest_id);
+  const originRef = { table_id: origin.table.id, seat_no: origin.seat_no };
+  const table = requireTable(plan, op.to_table_id);
+
+  if (seatGuest(plan, op.guest_id, table, op.seat_no, op.seed) === null) {
+    return [];
+  }
+  return [
+    { op: "move_guest_table", guest_id: op.guest_id, to_table_id: originRef.table_id, seat_no: originRef.seat_no },
+  ];
+}
+
+function changeSeatOrderSettings(plan: PlanDataDTO, op: OperationOf<"change_seat_order_settings">): PlanOperation[] {
+  const table = requireTable(plan, op.table_id);
+  const direction = op.direction ?? table.direction ?? "clockwise";
+  assertTableSettings({ ...table, start_index: op.start_index, head_seat: op.head_seat, direction });
+
+  const inverse: PlanOperation = {
+    op: "change_seat_order_settings",
+    table_id: table.id,
+    start_index: table.start_index,
+    head_seat: table.head_seat,
+    direction: table.direction ?? "clockwise",
+  };
+  table.start_index = op.start_index;
+  table.head_seat = op.head_seat;
+  table.direction = direction;
+  return [inverse];
+}
+
+/**
+ * Seats a guest on `table`, vacating any seat they held before. Without `seatNo` a free seat
+ * is drawn with the op's seed (see random-seating). Returns the previous location, `undefined` if the guest was unseated,
+ * or `null` when the guest already sits in the requested seat (no-op).
+ */
+function seatGuest(
+  plan: PlanDataDTO,
+  guestId: string,
+  table: TableDTO,
+  seatNo: number | undefined,
+  seed: string | undefined
+): GuestSeatLocation | undefined | null {
+  const target = seatNo ?? pickRandomSeat(table, seed ?? fallbackSeatSeed(table.id, guestId));
+  assertSeatInCapacity(table, target);
+
+  const occupant = guestAtSeat(table, target);
+  if (occupant === guestId) {
+    return null;
+  }
+  if (occupant) {
+    throw new PlanOperationError("SEAT_OCCUPIED", "Seat is already occupied", {
+      table_id: table.id,
+      seat_no: target,
+      guest_id: occupant,
+    });
+  }
+
+  const previous = locateGuest(plan, guestId);
+  const snapshot = previous ? { table: previous.table, seat_no: previous.seat_no } : undefined;
+  if (previous) {
+    clearSeat(previous.table, previous.seat_no);
+  }
+  setSeat(table, target, guestId);
+  return snapshot;
+}
+
+// --------------------------------------------------------
+// Seat array mutation (kept sparse and sorted by seat_no)
+// --------------------------------------------------------
+function clearSeat(table: TableDTO, seatNo: number): void {
+  table.seats = table.seats.filter((seat) => seat.seat_no !== seatNo);
+}
+
+function setSeat(table: TableDTO, seatNo: number, guestId: string): void {
+  clearSeat(table, seatNo);
+  table.seats = sortSeats([...table.seats, { seat_no: seatNo, guest_id: guestId }]);
+}
+
+function sortSeats<T extends { seat_no: number }>(seats: T[]): T[] {
+  return [...seats].sort((a, b) => a.seat_no - b.seat_no);
+}
+
+// --------------------------------------------------------
+// Lookups & validation
+// --------------------------------------------------------
+function requireTable(plan: PlanDataDTO, tableId: string): TableDTO {
+  const table = findTable(plan, tableId);
+  if (!table) {
+    throw new PlanOperationError("TABLE_NOT_FOUND", "Table not found", { table_id: tableId });
+  }
+  return table;
+}
+
+function requireGuest(plan: PlanDataDTO, guestId: string): GuestDTO {
+  const guest = findGuest(plan, guestId);
+  if (!guest) {
+    throw new PlanOperationError("GUEST_NOT_FOUND", "Guest not found", { guest_id: guestId });
+  }
+  return guest;
+}
+
+function requireParty(plan: PlanDataDTO, partyId: string): PartyDTO {
+  const party = findParty(plan, partyId);
+  if (!party) {
+    throw new PlanOperationError("PARTY_NOT_FOUND", "Party not found", { party_id: partyId });
+  }
+  return party;
+}
+
+function requireSeatedGuest(plan: PlanDataDTO, guestId: string): GuestSeatLocation {
+  const location = locateGuest(plan, guestId);
+  if (!location) {
+    throw new PlanOperationError("GUEST_NOT_SEATED", "Guest is not seated", { guest_id: guestId });
+  }
+  return location;
+}
+
+function requireSeatTable(plan: PlanDataDTO, ref: SeatRefDTO): TableDTO {
+  const table = requireTable(plan, ref.table_id);
+  assertSeatInCapacity(table, ref.seat_no);
+  return table;
+}
+
+function assertSeatInCapacity(table: TableDTO, seatNo: number): void {
+  if (!Number.isInteger(seatNo) || seatNo < 1 || seatNo > table.capacity) {
+    throw new PlanOperationError("SEAT_OUT_OF_CAPACITY", "Seat number is outside table capacity", {
+      table_id: table.id,
+      seat_no: seatNo,
+      capacity: table.capacity,
+    });
+  }
+}
+
+function assertTableSettings(table: TableDTO): void {
+  const invalid = (field: string, reason: string) =>
+    new PlanOperationError("INVALID_OPERATION", reason, { table_id: table.id, field });
+
+  if (!TABLE_SHAPES.includes(table.shape)) {
+    throw invalid("shape", "Unknown table shape");
+  }
+  if (!Number.isInteger(table.capacity) || table.capacity < 1) {
+    throw invalid("capacity", "Capacity must be a positive integer");
+  }
+  if (!Number.isInteger(table.start_index) || table.start_index < 1) {
+    throw invalid("start_index", "Start index must be >= 1");
+  }
+  if (!Number.isInteger(table.head_seat) || table.head_seat < 1 || table.head_seat > table.capacity) {
+    throw invalid("head_seat", "Head seat must be within table capacity");
+  }
+  if (table.direction !== undefined && !SEAT_DIRECTIONS.includes(table.direction)) {
+    throw invalid("direction", "Direction must be clockwise or counterclockwise");
+  }
+  if (table.rotation !== undefined && !TABLE_ROTATIONS.includes(table.rotation)) {
+    throw invalid("rotation", "Rotation must be 0, 90, 180 or 270");
+  }
+  if (table.position && !(Number.isInteger(table.position.row) && Number.isInteger(table.position.col))) {
+    throw invalid("position", "Position must be whole grid cells");
+  }
+}
+
+function assertName(name: string | undefined, entity: "Guest" | "Party"): void {
+  if (typeof name !== "string" || name.trim().length === 0 || name.length > NAME_MAX_LENGTH) {
+    throw new PlanOperationError("INVALID_OPERATION", `${entity} name must be 1..${NAME_MAX_LENGTH} characters`, {
+      field: "name",
+    });
+  }
+}
+
+function assertGuestFields(plan: PlanDataDTO, guest: GuestDTO): void {
+  assertName(guest.name, "Guest");
+  if (guest.party_id !== undefined) {
+    requireParty(plan, guest.party_id);
+  }
+  if (guest.plus_one_of !== undefined && (guest.plus_one_of === guest.id || !findGuest(plan, guest.plus_one_of))) {
+    throw new PlanOperationError("GUEST_NOT_FOUND", "Plus-one host not found", { guest_id: guest.plus_one_of });
+  }
+  if (guest.age_group !== undefined && !AGE_GROUPS.includes(guest.age_group)) {
+    throw new PlanOperationError("INVALID_OPERATION", "Age group must be adult or child", { field: "age_group" });
+  }
+}
+
+function assertPartyFields(plan: PlanDataDTO, party: PartyDTO): void {
+  assertName(party.name, "Party");
+  if (party.primary_contact_id !== undefined) {
+    requireGuest(plan, party.primary_contact_id);
+  }
+}
+
+// --------------------------------------------------------
+// Patch helpers (a null value clears an optional field; undefined leaves it unchanged)
+// --------------------------------------------------------
+function applyPatch<T extends object>(target: T, patch: PlanPatch<T>): T {
+  const updates = Object.entries(patch).filter(([, value]) => value !== undefined);
+  const merged = Object.entries({ ...target, ...Object.fromEntries(updates) }).filter(([, value]) => value !== null);
+  return Object.fromEntries(merged) as T;
+}
+
+// The inverse patch: previous values of the patched fields, null for fields that were unset.
+function pickPrevious<T extends object>(target: T, patch: PlanPatch<T>): PlanPatch<T> {
+  const previous: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value !== undefined) {
+      previous[key] = (target as Record<string, unknown>)[key] ?? null;
+    }
+  }
+  return previous as PlanPatch<T>;
+}
@@ -0,0 +1,71 @@
+import type { Json } from "../../db/database.types";
+import type { GuestDTO, PartyDTO, PlanDataDTO, SeatAssignmentDTO, TableDTO } from "../../types";
+
+// Read-only lookups over PlanDataDTO shared by the plan engine, exporters and services.
+
+export interface GuestSeatLocation {
+  table: TableDTO;
+  seat_no: number;
+}
+
+// Reads a plan_data jsonb column; fresh events hold '{}' so missing collections default to empty.
+export function planDataFromJson(value: Json): PlanDataDTO {
+  const plan = (value && typeof value === "object" && !Array.isArray(value) ? value : {}) as Partial<PlanDataDTO>;
+  return {
+    ...plan,
+    tables: plan.tables ?? [],
+    guests: plan.guests ?? [],
+    settings: plan.settings ?? { color_palette: "default" },
+  };
+}
+
+export function clonePlan(plan: PlanDataDTO): PlanDataDTO {
+  return structuredClone(plan);
+}
+
+export function findTable(plan: PlanDataDTO, tableId: string): TableDTO | undefined {
+  return plan.tables.find((table) => table.id === tableId);
+}
+
+export function findGuest(plan: PlanDataDTO, guestId: string): GuestDTO | undefined {
+  return plan.guests.find((guest) => guest.id === guestId);
+}
+
+export function findParty(plan: PlanDataDTO, partyId: string): PartyDTO | undefined {
+  return plan.parties?.find((party) => party.id === partyId);
+}
+
+export function partyMembers(plan: PlanDataDTO, partyId: string): GuestDTO[] {
+  return plan.guests.filter((guest) => guest.party_id === partyId);
+}
+
+// Seat entries carrying a guest; entries without guest_id are treated as empty.
+export function occupiedSeats(table: TableDTO): SeatAssignmentDTO[] {
+  return table.seats.filter((seat) => seat.guest_id !== undefined);
+}
+
+export function guestAtSeat(table: TableDTO, seatNo: number): string | undefined {
+  return table.seats.find((seat) => seat.seat_no === seatNo)?.guest_id;
+}
+
+export function locateGuest(plan: PlanDataDTO, guestId: string): GuestSeatLocation | undefined {
+  for (const table of plan.tables) {
+    const seat = table.seats.find((entry) => entry.guest_id === guestId);
+    if (seat) {
+      return { table, seat_no: seat.seat_no };
+    }
+  }
+  return undefined;
+}
+
+// Empty seat numbers in ascending order (1..capacity).
+export function freeSeatNumbers(table: TableDTO): number[] {
+  const taken = new Set(occupiedSeats(table).map((seat) => seat.seat_no));
+  const free: number[] = [];
+  for (let seatNo = 1; seatNo <= table.capacity; seatNo++) {
+    if (!taken.has(seatNo)) {
+      free.push(seatNo);
+    }
+  }
+  return free;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import type { GuestDTO, PlanDataDTO, RedactionPolicyDTO } from "../../types";
+import { policyExposesPii, toPublicPlanData } from "./public-plan";
+
+const FULL: RedactionPolicyDTO = { names: "full", tags: true, rsvp: true, notes: true };
+
+const guests: GuestDTO[] = [
+  { id: "g1", name: "Zofia Anna Kowalska", tag: "Family", rsvp: "Yes", note: "Gluten free", party_id: "p1" },
+  { id: "g2", name: "Guest of Zofia Kowalska", is_placeholder: true, plus_one_of: "g1", age_group: "adult" },
+  { id: "g3", name: "Madonna" },
+  { id: "g4", name: "  émile   zola " },
+];
+
+const plan: PlanDataDTO = {
+  tables: [
+    { id: "t1", shape: "round", capacity: 4, start_index: 1, head_seat: 1, seats: [{ seat_no: 1, guest_id: "g1" }] },
+  ],
+  guests,
+  parties: [{ id: "p1", name: "Kowalski family" }],
+  settings: { color_palette: "default" },
+};
+
+function names(policy: RedactionPolicyDTO): (string | undefined)[] {
+  return toPublicPlanData(plan, policy).guests.map((guest) => guest.name);
+}
+
+describe("toPublicPlanData", () => {
+  it("never exposes parties, plus-one links or age groups", () => {
+    const result = toPublicPlanData(plan, FULL);
+    expect(result).not.toHaveProperty("parties");
+    expect(result.guests[0]).toEqual({
+      id: "g1",
+      name: "Zofia Anna Kowalska",
+      tag: "Family",
+      rsvp: "Yes",
+      note: "Gluten free",
+    });
+    expect(result.guests[1]).toEqual({ id: "g2", name: "Guest of Zofia Kowalska" });
+    expect(result.tables).toEqual(plan.tables);
+  });
+
+  it("shortens names per policy and hides placeholder hosts", () => {
+    expect(names({ ...FULL, names: "first_last_initial" })).toEqual(["Zofia K.", "+1", "Madonna", "émile Z."]);
+    expect(names({ ...FULL, names: "initials" })).toEqual(["Z. K.", "+1", "M.", "É. Z."]);
+    expect(names({ ...FULL, names: "hidden" })).toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  it("drops tags, RSVP and notes the policy does not allow", () => {
+    const [first] = toPublicPlanData(plan, { names: "hidden", tags: false, rsvp: false, notes: false }).guests;
+    expect(first).toEqual({ id: "g1" });
+  });
+});
+
+describe("policyExposesPii", () => {
+  it.each<[RedactionPolicyDTO, boolean]>([
+    [FULL, true],
+    [{ ...FULL, notes: false }, true],
+    [{ ...FULL, names: "first_last_initial", notes: false }, true],
+    [{ ...FULL, names: "initials", notes: false }, false],
+    [{ ...FULL, names: "hidden", notes: false }, false],
+    [{ ...FULL, names: "hidden" }, true],
+  ])("%o -> %s", (policy, expected) => {
+    expect(policyExposesPii(policy)).toBe(expected);
+  });
+});
@@ -0,0 +1,65 @@
+import type {
+  GuestDTO,
+  GuestNameDisplay,
+  PlanDataDTO,
+  PublicGuestDTO,
+  PublicPlanDataDTO,
+  RedactionPolicyDTO,
+} from "../../types";
+
+// Redaction layer for share links: the only way a plan is serialized for public viewers.
+// Guests keep their id (seats refer to it) and whatever the policy allows of name, tag, RSVP
+// and note. Parties (their names often carry surnames), plus-one links and age groups never
+// leave.
+
+/** Whether a view under this policy shows personal data: identifying names or notes. */
+export function policyExposesPii(policy: RedactionPolicyDTO): boolean {
+  return policy.notes || policy.names === "full" || policy.names === "first_last_initial";
+}
+
+export function toPublicPlanData(plan: PlanDataDTO, policy: RedactionPolicyDTO): PublicPlanDataDTO {
+  return {
+    tables: plan.tables,
+    settings: plan.settings,
+    guests: plan.guests.map((guest) => toPublicGuest(guest, policy)),
+  };
+}
+
+function toPublicGuest(guest: GuestDTO, policy: RedactionPolicyDTO): PublicGuestDTO {
+  const item: PublicGuestDTO = { id: guest.id };
+  const name = redactName(guest, policy.names);
+  if (name) {
+    item.name = name;
+  }
+  if (policy.tags && guest.tag) {
+    item.tag = guest.tag;
+  }
+  if (policy.rsvp && guest.rsvp) {
+    item.rsvp = guest.rsvp;
+  }
+  if (policy.notes && guest.note) {
+    item.note = guest.note;
+  }
+  return item;
+}
+
+// "Zofia Anna Kowalska" -> full as is, "Zofia K.", "Z. K.", or nothing. Placeholder names
+// ("Guest of John Smith") carry the host's name, so anything short of full shows "+1".
+function redactName(guest: GuestDTO, display: GuestNameDisplay): string | undefined {
+  if (display === "full") {
+    return guest.name;
+  }
+  if (display === "hidden") {
+    return undefined;
+  }
+  if (guest.is_placeholder) {
+    return "+1";
+  }
+  const tokens = guest.name.trim().split(/\s+/).filter(Boolean);
+  const initial = (token: string) => `${[...token][0]?.toUpperCase() ?? ""}.`;
+  if (display === "first_last_initial") {
+    return tokens.length > 1 ? `${tokens[0]} ${initial(tokens[tokens.length - 1])}` : tokens[0];
+  }
+  const letters = tokens.length > 2 ? [tokens[0], tokens[tokens.length - 1]] : tokens;
+  return letters.map(initial).join(" ");
+}
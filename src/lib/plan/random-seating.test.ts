@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import type { PlanDataDTO, PlanOperation, TableDTO } from "../../types";
+import { PlanOperationError } from "./plan-errors";
+import { fillTableOps, pickRandomSeat, stampSeatSeeds } from "./random-seating";
+
+function table(seats: TableDTO["seats"] = []): TableDTO {
+  return { id: "t1", shape: "round", capacity: 4, start_index: 1, head_seat: 1, seats };
+}
+
+function plan(seats: TableDTO["seats"] = []): PlanDataDTO {
+  return {
+    tables: [table(seats), { ...table(), id: "t2" }],
+    guests: ["g1", "g2", "g3", "g4", "g5"].map((id) => ({ id, name: id.toUpperCase() })),
+    settings: { color_palette: "default" },
+  };
+}
+
+function errorOf(run: () => unknown): PlanOperationError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PlanOperationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected a PlanOperationError");
+}
+
+describe("pickRandomSeat", () => {
+  it("draws a free seat, the same one for the same seed", () => {
+    const partly = table([
+      { seat_no: 1, guest_id: "g1" },
+      { seat_no: 3, guest_id: "g2" },
+    ]);
+    const seat = pickRandomSeat(partly, "seed");
+    expect([2, 4]).toContain(seat);
+    expect(pickRandomSeat(partly, "seed")).toBe(seat);
+  });
+
+  it("throws TABLE_FULL when no seat is free", () => {
+    const full = table([1, 2, 3, 4].map((seatNo) => ({ seat_no: seatNo, guest_id: `g${seatNo}` })));
+    expect(errorOf(() => pickRandomSeat(full, "seed")).code).toBe("TABLE_FULL");
+  });
+});
+
+describe("stampSeatSeeds", () => {
+  it("seeds only ops that leave the seat to chance", () => {
+    const ops: PlanOperation[] = [
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t1" },
+      { op: "assign_guest_seat", guest_id: "g2", table_id: "t1", seat_no: 2 },
+      { op: "move_guest_table", guest_id: "g3", to_table_id: "t2" },
+      { op: "move_guest_table", guest_id: "g4", to_table_id: "t2", seed: "kept" },
+      { op: "unassign_guest_seat", guest_id: "g5" },
+    ];
+    let next = 0;
+    expect(stampSeatSeeds(ops, () => `s${++next}`)).toEqual([
+      { op: "assign_guest_seat", guest_id: "g1", table_id: "t1", seed: "s1" },
+      ops[1],
+      { op: "move_guest_table", guest_id: "g3", to_table_id: "t2", seed: "s2" },
+      ops[3],
+      ops[4],
+    ]);
+  });
+});
+
+describe("fillTableOps", () => {
+  it("deals every pending guest a distinct free seat", () => {
+    const { seed, ops } = fillTableOps(plan([{ seat_no: 2, guest_id: "g1" }]), "t1", ["g1", "g2", "g3", "g4"], "fill");
+    expect(seed).toBe("fill");
+    expect(ops.map((op) => (op.op === "assign_guest_seat" ? op.guest_id : undefined))).toEqual(["g2", "g3", "g4"]);
+    const seats = ops.map((op) => (op.op === "assign_guest_seat" ? op.seat_no : undefined));
+    expect([...seats].sort()).toEqual([1, 3, 4]);
+  });
+
+  it("is reproducible from its seed", () => {
+    expect(fillTableOps(plan(), "t1", ["g1", "g2", "g3"], "fill")).toEqual(
+      fillTableOps(plan(), "t1", ["g1", "g2", "g3"], "fill")
+    );
+  });
+
+  it("reports overflowing guests before producing any op", () => {
+    const error = errorOf(() => fillTableOps(plan([{ seat_no: 1, guest_id: "g5" }]), "t1", ["g1", "g2", "g3", "g4"]));
+    expect(error.code).toBe("TABLE_FULL");
+    expect(error.details).toMatchObject({ free_seats: 3, requested: 4, overflow_guest_ids: ["g4"] });
+  });
+
+  it("rejects unknown and repeated guests", () => {
+    expect(errorOf(() => fillTableOps(plan(), "t1", ["g1", "nope"])).code).toBe("GUEST_NOT_FOUND");
+    expect(errorOf(() => fillTableOps(plan(), "t1", ["g1", "g1"])).code).toBe("INVALID_OPERATION");
+    expect(errorOf(() => fillTableOps(plan(), "t9", ["g1"])).code).toBe("TABLE_NOT_FOUND");
+  });
+});
@@ -0,0 +1,93 @@
+import type { PlanDataDTO, PlanOperation, TableDTO } from "../../types";
+import { PlanOperationError } from "./plan-errors";
+import { findGuest, findTable, freeSeatNumbers, locateGuest } from "./plan-utils";
+import { createSeededRandom, generateSeed, shuffle } from "./seeded-random";
+
+// FR-021 random seat placement. Free seats are listed in canonical order (ascending seat_no)
+// and one is drawn with a seeded PRNG, so a recorded seed reproduces the exact seat.
+
+/**
+ * Seed used when an op without seat_no also carries no seed. Keeps the engine pure; write
+ * paths stamp a fresh seed before applying ops (see stampSeatSeeds), so this only decides
+ * seats for ops replayed or previewed without one.
+ */
+export function fallbackSeatSeed(tableId: string, guestId: string): string {
+  return `${tableId}:${guestId}`;
+}
+
+export function pickRandomSeat(table: TableDTO, seed: string): number {
+  const free = freeSeatNumbers(table);
+  if (free.length === 0) {
+    throw new PlanOperationError("TABLE_FULL", "Table has no free seats", {
+      table_id: table.id,
+      capacity: table.capacity,
+    });
+  }
+  const random = createSeededRandom(seed);
+  return free[Math.floor(random() * free.length)];
+}
+
+/**
+ * Records a fresh seed on every assign_guest_seat / move_guest_table op that leaves the seat
+ * to chance, so the batch can be audited and replayed. Ops that already carry a seat_no or
+ * seed are returned unchanged.
+ */
+export function stampSeatSeeds(ops: PlanOperation[], nextSeed: () => string = generateSeed): PlanOperation[] {
+  return ops.map((op) => {
+    if ((op.op === "assign_guest_seat" || op.op === "move_guest_table") && op.seat_no === undefined && !op.seed) {
+      return { ...op, seed: nextSeed() };
+    }
+    return op;
+  });
+}
+
+export interface FillTableResult {
+  seed: string;
+  ops: PlanOperation[]; // assign_guest_seat ops with concrete seat numbers
+}
+
+/**
+ * "Fill table" mode: randomly seats every listed guest on one table. Guests already at the
+ * table keep their seat; the rest are dealt a shuffled set of the free seats. Throws
+ * TABLE_FULL (with the overflowing guest ids) before producing any op when they don't fit.
+ */
+export function fillTableOps(
+  plan: PlanDataDTO,
+  tableId: string,
+  guestIds: string[],
+  seed: string = generateSeed()
+): FillTableResult {
+  const table = findTable(plan, tableId);
+  if (!table) {
+    throw new PlanOperationError("TABLE_NOT_FOUND", "Table not found", { table_id: tableId });
+  }
+  if (new Set(guestIds).size !== guestIds.length) {
+    throw new PlanOperationError("INVALID_OPERATION", "Guest listed more than once", { table_id: tableId });
+  }
+  const unknown = guestIds.find((guestId) => !findGuest(plan, guestId));
+  if (unknown) {
+    throw new PlanOperationError("GUEST_NOT_FOUND", "Guest not found", { guest_id: unknown });
+  }
+
+  const pending = guestIds.filter((guestId) => locateGuest(plan, guestId)?.table.id !== tableId);
+  const free = freeSeatNumbers(table);
+  if (pending.length > free.length) {
+    throw new PlanOperationError("TABLE_FULL", "Not enough free seats for all guests", {
+      table_id: tableId,
+      capacity: table.capacity,
+      free_seats: free.length,
+      requested: pending.length,
+      overflow_guest_ids: pending.slice(free.length),
+    });
+  }
+
+  const seats = shuffle(free, createSeededRandom(seed));
+  const ops: PlanOperation[] = pending.map((guestId, index) => ({
+    op: "assign_guest_seat",
+    guest_id: guestId,
+    table_id: tableId,
+    seat_no: seats[index],
+    seed,
+  }));
+  return { seed, ops };
+}
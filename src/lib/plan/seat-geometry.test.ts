@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import type { TableDTO } from "../../types";
+import { seatDisplayNumber, seatSlot, tableGeometry } from "./seat-geometry";
+import { tableFootprint } from "./table-placement";
+
+type GeometryTable = Parameters<typeof tableGeometry>[0];
+
+function table(overrides: Partial<TableDTO> = {}): GeometryTable {
+  return { shape: "round", capacity: 4, start_index: 1, head_seat: 1, ...overrides };
+}
+
+describe("seatSlot", () => {
+  it("puts the head seat in slot 0 and counts clockwise by default", () => {
+    const head2 = { capacity: 4, head_seat: 2 };
+    expect([1, 2, 3, 4].map((seatNo) => seatSlot(head2, seatNo))).toEqual([3, 0, 1, 2]);
+  });
+
+  it("counts the other way for counterclockwise tables", () => {
+    const head2 = { capacity: 4, head_seat: 2, direction: "counterclockwise" as const };
+    expect([1, 2, 3, 4].map((seatNo) => seatSlot(head2, seatNo))).toEqual([1, 0, 3, 2]);
+  });
+});
+
+describe("seatDisplayNumber", () => {
+  it("offsets seat numbers by start_index", () => {
+    expect(seatDisplayNumber({ start_index: 1 }, 1)).toBe(1);
+    expect(seatDisplayNumber({ start_index: 101 }, 3)).toBe(103);
+  });
+});
+
+describe("tableGeometry", () => {
+  it("spaces round-table chairs evenly clockwise from 12 o'clock", () => {
+    const { seats } = tableGeometry(table());
+    expect(seats.map((seat) => seat.angle)).toEqual([0, 90, 180, 270]);
+    expect(seats[0]).toMatchObject({ seat_no: 1, display_no: 1, slot: 0, x: 1, y: 0.25, is_head: true });
+  });
+
+  it("returns one seat per capacity, ordered by seat number", () => {
+    const { seats } = tableGeometry(table({ shape: "rectangular", capacity: 6, start_index: 10, head_seat: 3 }));
+    expect(seats.map((seat) => seat.seat_no)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(seats.map((seat) => seat.display_no)).toEqual([10, 11, 12, 13, 14, 15]);
+    expect(seats.filter((seat) => seat.is_head).map((seat) => seat.seat_no)).toEqual([3]);
+    expect(new Set(seats.map((seat) => seat.slot)).size).toBe(6);
+  });
+
+  it("keeps every chair inside the table footprint", () => {
+    for (const shape of ["round", "rectangular", "long"] as const) {
+      for (const rotation of [0, 90, 180, 270] as const) {
+        const geometry = tableGeometry(table({ shape, capacity: 10, rotation }));
+        expect(geometry.footprint).toEqual(tableFootprint({ shape, capacity: 10, rotation }));
+        for (const seat of geometry.seats) {
+          expect(seat.x).toBeGreaterThanOrEqual(0);
+          expect(seat.x).toBeLessThanOrEqual(geometry.footprint.cols);
+          expect(seat.y).toBeGreaterThanOrEqual(0);
+          expect(seat.y).toBeLessThanOrEqual(geometry.footprint.rows);
+        }
+      }
+    }
+  });
+
+  it("turns chairs with the table so guests keep their seat", () => {
+    const upright = tableGeometry(table({ shape: "long", capacity: 6 }));
+    const turned = tableGeometry(table({ shape: "long", capacity: 6, rotation: 90 }));
+    turned.seats.forEach((seat, index) => {
+      expect(seat.slot).toBe(upright.seats[index].slot);
+      expect(seat.angle).toBeCloseTo((upright.seats[index].angle + 90) % 360, 4);
+    });
+  });
+
+  it("mirrors seat order for counterclockwise tables", () => {
+    const { seats } = tableGeometry(table({ direction: "counterclockwise" }));
+    expect(seats.map((seat) => seat.angle)).toEqual([0, 270, 180, 90]);
+  });
+});
@@ -0,0 +1,143 @@
+import type { TableDTO } from "../../types";
+import { tableFootprint, type GridFootprint } from "./table-placement";
+
+// Canonical seat geometry shared by the canvas, PDF/PNG exports and place-card printing.
+//
+// Chairs are laid out around the table footprint and numbered by "slot": slot 0 is the chair
+// at (or first clockwise from) 12 o'clock, and slots advance clockwise. The head seat sits in
+// slot 0; the remaining seat numbers follow `direction` from there. Display numbers are offset
+// by `start_index` (seat_no 1 is shown as start_index). Positions are computed in the
+// unrotated frame and then turned with the table, so guests keep their chair on rotation.
+
+type SeatGeometryTable = Pick<TableDTO, "shape" | "capacity" | "start_index" | "head_seat" | "direction" | "rotation">;
+
+export interface SeatPosition {
+  seat_no: number; // Storage seat number (1..capacity)
+  display_no: number; // Number printed next to the chair
+  slot: number; // Physical chair index, clockwise from 12 o'clock in the unrotated frame
+  angle: number; // Degrees clockwise from 12 o'clock around the table centre, after rotation
+  x: number; // Grid-cell offset from the footprint's top-left corner
+  y: number;
+  is_head: boolean;
+}
+
+export interface TableGeometry {
+  footprint: GridFootprint; // Rotated footprint, matching table-placement
+  seats: SeatPosition[]; // Ordered by seat_no
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Chair inset from the footprint edge, in cells.
+const CHAIR_INSET = 0.25;
+
+export function tableGeometry(table: SeatGeometryTable): TableGeometry {
+  const base = tableFootprint({ ...table, rotation: 0 });
+  const footprint = tableFootprint(table);
+  const chairs = orderClockwise(chairPoints(table, base), base);
+
+  const seats: SeatPosition[] = [];
+  for (let seatNo = 1; seatNo <= table.capacity; seatNo++) {
+    const slot = seatSlot(table, seatNo);
+    const point = rotatePoint(chairs[slot], base, table.rotation ?? 0);
+    seats.push({
+      seat_no: seatNo,
+      display_no: seatDisplayNumber(table, seatNo),
+      slot,
+      angle: clockwiseAngle(point, { x: footprint.cols / 2, y: footprint.rows / 2 }),
+      x: round(point.x),
+      y: round(point.y),
+      is_head: seatNo === table.head_seat,
+    });
+  }
+  return { footprint, seats };
+}
+
+export function seatDisplayNumber(table: Pick<TableDTO, "start_index">, seatNo: number): number {
+  return table.start_index + seatNo - 1;
+}
+
+// Physical chair slot of a seat number, honouring head_seat and direction.
+export function seatSlot(table: Pick<TableDTO, "capacity" | "head_seat" | "direction">, seatNo: number): number {
+  const step = table.direction === "counterclockwise" ? -1 : 1;
+  const offset = (seatNo - table.head_seat) * step;
+  return ((offset % table.capacity) + table.capacity) % table.capacity;
+}
+
+// --------------------------------------------------------
+// Chair layout per shape (unrotated frame)
+// --------------------------------------------------------
+function chairPoints(table: SeatGeometryTable, base: GridFootprint): Point[] {
+  if (table.shape === "round") {
+    return roundChairs(table.capacity, base);
+  }
+  // Rectangular tables seat one guest at each end once there are enough chairs; long
+  // (banquet) tables only use the two long sides.
+  const ends = table.shape === "rectangular" && table.capacity >= 4 ? 2 : 0;
+  return sideChairs(table.capacity, ends, base);
+}
+
+function roundChairs(capacity: number, base: GridFootprint): Point[] {
+  const centre = { x: base.cols / 2, y: base.rows / 2 };
+  const radius = Math.min(base.cols, base.rows) / 2 - CHAIR_INSET;
+  return Array.from({ length: capacity }, (_, index) => {
+    const radians = (2 * Math.PI * index) / capacity;
+    return { x: centre.x + radius * Math.sin(radians), y: centre.y - radius * Math.cos(radians) };
+  });
+}
+
+function sideChairs(capacity: number, ends: number, base: GridFootprint): Point[] {
+  const sides = capacity - ends;
+  const top = Math.ceil(sides / 2);
+  const bottom = sides - top;
+  const margin = ends > 0 ? 0.5 : 0;
+  const span = base.cols - 2 * margin;
+
+  const along = (count: number, index: number) => margin + ((index + 0.5) * span) / count;
+  const chairs: Point[] = [];
+  for (let i = 0; i < top; i++) {
+    chairs.push({ x: along(top, i), y: CHAIR_INSET });
+  }
+  for (let i = 0; i < bottom; i++) {
+    chairs.push({ x: along(bottom, i), y: base.rows - CHAIR_INSET });
+  }
+  if (ends > 0) {
+    chairs.push({ x: CHAIR_INSET, y: base.rows / 2 }, { x: base.cols - CHAIR_INSET, y: base.rows / 2 });
+  }
+  return chairs;
+}
+
+// --------------------------------------------------------
+// Geometry helpers
+// --------------------------------------------------------
+function orderClockwise(points: Point[], base: GridFootprint): Point[] {
+  const centre = { x: base.cols / 2, y: base.rows / 2 };
+  return [...points].sort((a, b) => round(clockwiseAngle(a, centre)) - round(clockwiseAngle(b, centre)));
+}
+
+function clockwiseAngle(point: Point, centre: Point): number {
+  const degrees = (Math.atan2(point.x - centre.x, centre.y - point.y) * 180) / Math.PI;
+  return round((degrees + 360) % 360) % 360;
+}
+
+// Rotates a point clockwise (screen coordinates, y down) about the footprint centre and
+// re-anchors it to the rotated footprint's top-left corner.
+function rotatePoint(point: Point, base: GridFootprint, rotation: number): Point {
+  const radians = (rotation * Math.PI) / 180;
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const dx = point.x - base.cols / 2;
+  const dy = point.y - base.rows / 2;
+  const width = quarterTurn ? base.rows : base.cols;
+  const height = quarterTurn ? base.cols : base.rows;
+  return {
+    x: width / 2 + dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: height / 2 + dx * Math.sin(radians) + dy * Math.cos(radians),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
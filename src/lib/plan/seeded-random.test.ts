@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { createSeededRandom, generateSeed, shuffle } from "./seeded-random";
+
+function draws(seed: string, count = 5): number[] {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => random());
+}
+
+describe("createSeededRandom", () => {
+  it("replays the same sequence for the same seed", () => {
+    expect(draws("a1b2c3")).toEqual(draws("a1b2c3"));
+  });
+
+  it("yields different sequences for different seeds", () => {
+    expect(draws("a1b2c3")).not.toEqual(draws("a1b2c4"));
+  });
+
+  it("stays within [0, 1)", () => {
+    for (const value of draws("range", 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("shuffle", () => {
+  const items = [1, 2, 3, 4, 5, 6, 7, 8];
+
+  it("returns a permutation without touching the input", () => {
+    const shuffled = shuffle(items, createSeededRandom("seed"));
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("is deterministic per seed", () => {
+    expect(shuffle(items, createSeededRandom("seed"))).toEqual(shuffle(items, createSeededRandom("seed")));
+  });
+});
+
+describe("generateSeed", () => {
+  it("returns 16 hex characters", () => {
+    expect(generateSeed()).toMatch(/^[0-9a-f]{16}$/);
+    expect(generateSeed()).not.toBe(generateSeed());
+  });
+});
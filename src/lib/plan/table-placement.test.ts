@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+
+import type { PlanDataDTO, TableDTO } from "../../types";
+import { PlanOperationError } from "./plan-errors";
+import {
+  assertPlacement,
+  checkGridResize,
+  findCollisions,
+  findFreePosition,
+  findTablesOffGrid,
+  rectsOverlap,
+  snapToGrid,
+  tableFootprint,
+} from "./table-placement";
+
+const GRID = { rows: 10, cols: 10 };
+
+function table(id: string, overrides: Partial<TableDTO> = {}): TableDTO {
+  return { id, shape: "round", capacity: 8, start_index: 1, head_seat: 1, seats: [], ...overrides };
+}
+
+function plan(tables: TableDTO[]): PlanDataDTO {
+  return { tables, guests: [], settings: { color_palette: "default" } };
+}
+
+describe("tableFootprint", () => {
+  it("grows round tables with every four seats", () => {
+    expect(tableFootprint({ shape: "round", capacity: 2 })).toEqual({ rows: 2, cols: 2 });
+    expect(tableFootprint({ shape: "round", capacity: 8 })).toEqual({ rows: 3, cols: 3 });
+    expect(tableFootprint({ shape: "round", capacity: 9 })).toEqual({ rows: 4, cols: 4 });
+  });
+
+  it("sizes rectangular and long tables along their long axis", () => {
+    expect(tableFootprint({ shape: "rectangular", capacity: 6 })).toEqual({ rows: 2, cols: 3 });
+    expect(tableFootprint({ shape: "long", capacity: 10 })).toEqual({ rows: 2, cols: 5 });
+  });
+
+  it("swaps rows and cols on a quarter turn only", () => {
+    expect(tableFootprint({ shape: "long", capacity: 10, rotation: 90 })).toEqual({ rows: 5, cols: 2 });
+    expect(tableFootprint({ shape: "long", capacity: 10, rotation: 180 })).toEqual({ rows: 2, cols: 5 });
+    expect(tableFootprint({ shape: "long", capacity: 10, rotation: 270 })).toEqual({ rows: 5, cols: 2 });
+  });
+});
+
+describe("rectsOverlap", () => {
+  const a = { row: 0, col: 0, rows: 2, cols: 2 };
+
+  it("treats touching edges as free", () => {
+    expect(rectsOverlap(a, { row: 0, col: 2, rows: 2, cols: 2 })).toBe(false);
+    expect(rectsOverlap(a, { row: 2, col: 0, rows: 2, cols: 2 })).toBe(false);
+  });
+
+  it("detects shared cells", () => {
+    expect(rectsOverlap(a, { row: 1, col: 1, rows: 2, cols: 2 })).toBe(true);
+  });
+});
+
+describe("snapToGrid", () => {
+  it("rounds to the nearest cell and keeps the footprint on the grid", () => {
+    const footprint = { rows: 3, cols: 3 };
+    expect(snapToGrid({ row: 2.4, col: 3.6 }, footprint, GRID)).toEqual({ row: 2, col: 4 });
+    expect(snapToGrid({ row: -1, col: 9.2 }, footprint, GRID)).toEqual({ row: 0, col: 7 });
+  });
+});
+
+describe("assertPlacement", () => {
+  const placed = plan([table("t1", { position: { row: 0, col: 0 } })]);
+
+  it("accepts unplaced tables and free spots", () => {
+    expect(() => assertPlacement(placed, GRID, table("t2"))).not.toThrow();
+    expect(() => assertPlacement(placed, GRID, table("t2", { position: { row: 0, col: 3 } }))).not.toThrow();
+  });
+
+  it("ignores the table's own footprint", () => {
+    expect(() => assertPlacement(placed, GRID, table("t1", { position: { row: 1, col: 1 } }))).not.toThrow();
+  });
+
+  it("rejects footprints that leave the grid", () => {
+    const error = errorOf(() => assertPlacement(placed, GRID, table("t2", { position: { row: 8, col: 0 } })));
+    expect(error.code).toBe("PLACEMENT_OUT_OF_BOUNDS");
+  });
+
+  it("rejects fractional positions", () => {
+    const error = errorOf(() => assertPlacement(placed, GRID, table("t2", { position: { row: 4.5, col: 4 } })));
+    expect(error.code).toBe("PLACEMENT_OUT_OF_BOUNDS");
+  });
+
+  it("reports the tables it collides with", () => {
+    const error = errorOf(() => assertPlacement(placed, GRID, table("t2", { position: { row: 2, col: 2 } })));
+    expect(error.code).toBe("PLACEMENT_COLLISION");
+    expect(error.details).toMatchObject({ table_id: "t2", colliding_table_ids: ["t1"] });
+  });
+});
+
+describe("findCollisions", () => {
+  it("skips unplaced tables", () => {
+    const tables = plan([table("t1", { position: { row: 0, col: 0 } }), table("t2")]);
+    expect(findCollisions(tables, { row: 0, col: 0, rows: 10, cols: 10 })).toEqual(["t1"]);
+  });
+});
+
+describe("findFreePosition", () => {
+  it("returns the requested spot when it is free", () => {
+    expect(findFreePosition(plan([]), GRID, table("t1"), { row: 4, col: 4 })).toEqual({ row: 4, col: 4 });
+  });
+
+  it("moves to the nearest free spot around an occupied one", () => {
+    const occupied = plan([table("t1", { position: { row: 0, col: 0 } })]);
+    expect(findFreePosition(occupied, GRID, table("t2"), { row: 0, col: 0 })).toEqual({ row: 0, col: 3 });
+  });
+
+  it("returns undefined when nothing fits", () => {
+    const full = plan([table("t1", { shape: "round", capacity: 36, position: { row: 0, col: 0 } })]);
+    expect(findFreePosition(full, GRID, table("t2"))).toBeUndefined();
+  });
+});
+
+describe("checkGridResize", () => {
+  const tables = plan([
+    table("t1", { label: "Head", position: { row: 0, col: 0 } }),
+    table("t2", { position: { row: 6, col: 6 } }),
+    table("t3"),
+  ]);
+
+  it("allows growing the grid and commands without grid changes", () => {
+    expect(checkGridResize(tables, GRID, { grid_rows: 20 })).toBeNull();
+    expect(checkGridResize(tables, GRID, { name: "Renamed" })).toBeNull();
+  });
+
+  it("allows shrinking while every placed table still fits", () => {
+    expect(checkGridResize(tables, GRID, { grid_rows: 9, grid_cols: 9 })).toBeNull();
+  });
+
+  it("reports tables that would fall off the resized grid", () => {
+    expect(checkGridResize(tables, GRID, { grid_cols: 8 })).toEqual({
+      grid: { rows: 10, cols: 8 },
+      tables: [{ table_id: "t2", label: undefined, position: { row: 6, col: 6 } }],
+    });
+  });
+
+  it("ignores unplaced tables", () => {
+    expect(findTablesOffGrid(tables, { rows: 1, cols: 1 }).map((conflict) => conflict.table_id)).toEqual(["t1", "t2"]);
+  });
+});
+
+function errorOf(run: () => unknown): PlanOperationError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PlanOperationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected a PlanOperationError");
+}
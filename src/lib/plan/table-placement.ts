@@ -0,0 +1,160 @@
+import type {
+  GridPositionDTO,
+  GridResizeConflictDTO,
+  GridSizeDTO,
+  PlanDataDTO,
+  TableDTO,
+  UpdateEventCommand,
+} from "../../types";
+import { PlanOperationError } from "./plan-errors";
+
+// Grid placement rules for tables on the event floorplan. Footprints are measured in grid
+// cells and include the ring of chairs, so two tables never overlap when their rects don't.
+
+export interface GridFootprint {
+  rows: number;
+  cols: number;
+}
+
+export interface GridRect extends GridPositionDTO, GridFootprint {}
+
+type PlacedTable = Pick<TableDTO, "id" | "shape" | "capacity" | "rotation" | "position">;
+
+// Footprint at rotation 0 (long axis horizontal) keyed by table_shape_enum.
+const BASE_FOOTPRINTS: Record<TableDTO["shape"], (capacity: number) => GridFootprint> = {
+  // Chairs all around: side grows with every four seats.
+  round: (capacity) => {
+    const side = Math.max(2, Math.ceil(capacity / 4) + 1);
+    return { rows: side, cols: side };
+  },
+  // Chairs on both long sides plus one at each end.
+  rectangular: (capacity) => ({ rows: 2, cols: Math.max(2, Math.ceil(Math.max(capacity - 2, 2) / 2) + 1) }),
+  // Banquet style: chairs on both long sides only.
+  long: (capacity) => ({ rows: 2, cols: Math.max(2, Math.ceil(capacity / 2)) }),
+};
+
+export function tableFootprint(table: Pick<TableDTO, "shape" | "capacity" | "rotation">): GridFootprint {
+  const base = BASE_FOOTPRINTS[table.shape](table.capacity);
+  const quarterTurn = table.rotation === 90 || table.rotation === 270;
+  return quarterTurn ? { rows: base.cols, cols: base.rows } : base;
+}
+
+export function tableRect(table: PlacedTable): GridRect | undefined {
+  if (!table.position) {
+    return undefined;
+  }
+  return { ...table.position, ...tableFootprint(table) };
+}
+
+export function rectsOverlap(a: GridRect, b: GridRect): boolean {
+  return a.row < b.row + b.rows && b.row < a.row + a.rows && a.col < b.col + b.cols && b.col < a.col + a.cols;
+}
+
+export function isWithinGrid(rect: GridRect, grid: GridSizeDTO): boolean {
+  return rect.row >= 0 && rect.col >= 0 && rect.row + rect.rows <= grid.rows && rect.col + rect.cols <= grid.cols;
+}
+
+/**
+ * Rounds a fractional drop point (in cell units, top-left of the footprint) to the nearest
+ * cell and clamps it so the footprint stays on the grid where possible.
+ */
+export function snapToGrid(point: GridPositionDTO, footprint: GridFootprint, grid: GridSizeDTO): GridPositionDTO {
+  const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 0), Math.max(max, 0));
+  return {
+    row: clamp(point.row, grid.rows - footprint.rows),
+    col: clamp(point.col, grid.cols - footprint.cols),
+  };
+}
+
+// Placed tables (other than `table` itself) whose footprint overlaps `rect`.
+export function findCollisions(plan: PlanDataDTO, rect: GridRect, ignoreTableId?: string): string[] {
+  return plan.tables
+    .filter((other) => other.id !== ignoreTableId)
+    .filter((other) => {
+      const otherRect = tableRect(other);
+      return otherRect !== undefined && rectsOverlap(rect, otherRect);
+    })
+    .map((other) => other.id);
+}
+
+/**
+ * Throws PLACEMENT_OUT_OF_BOUNDS / PLACEMENT_COLLISION when a placed table does not fit.
+ * Unplaced tables (no position) always pass.
+ */
+export function assertPlacement(plan: PlanDataDTO, grid: GridSizeDTO, table: PlacedTable): void {
+  const rect = tableRect(table);
+  if (!rect) {
+    return;
+  }
+  if (!Number.isInteger(rect.row) || !Number.isInteger(rect.col) || !isWithinGrid(rect, grid)) {
+    throw new PlanOperationError("PLACEMENT_OUT_OF_BOUNDS", "Table does not fit on the grid", {
+      table_id: table.id,
+      rect,
+      grid,
+    });
+  }
+  const collisions = findCollisions(plan, rect, table.id);
+  if (collisions.length > 0) {
+    throw new PlanOperationError("PLACEMENT_COLLISION", "Table overlaps another table", {
+      table_id: table.id,
+      rect,
+      colliding_table_ids: collisions,
+    });
+  }
+}
+
+/**
+ * Nearest free top-left cell for `table` around `near` (Chebyshev rings, row-major within a
+ * ring), used to snap a drop onto an occupied area to the closest legal spot.
+ */
+export function findFreePosition(
+  plan: PlanDataDTO,
+  grid: GridSizeDTO,
+  table: PlacedTable,
+  near: GridPositionDTO = { row: 0, col: 0 }
+): GridPositionDTO | undefined {
+  const footprint = tableFootprint(table);
+  const origin = snapToGrid(near, footprint, grid);
+  const maxRadius = Math.max(grid.rows, grid.cols);
+
+  for (let radius = 0; radius <= maxRadius; radius++) {
+    for (let row = origin.row - radius; row <= origin.row + radius; row++) {
+      for (let col = origin.col - radius; col <= origin.col + radius; col++) {
+        const onRing = Math.max(Math.abs(row - origin.row), Math.abs(col - origin.col)) === radius;
+        const rect = { row, col, ...footprint };
+        if (onRing && isWithinGrid(rect, grid) && findCollisions(plan, rect, table.id).length === 0) {
+          return { row, col };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+// Placed tables whose footprint would extend past `grid`.
+export function findTablesOffGrid(plan: PlanDataDTO, grid: GridSizeDTO): GridResizeConflictDTO["tables"] {
+  return plan.tables.flatMap((table) => {
+    const rect = tableRect(table);
+    if (!rect || !table.position || isWithinGrid(rect, grid)) {
+      return [];
+    }
+    return [{ table_id: table.id, label: table.label, position: { ...table.position } }];
+  });
+}
+
+/**
+ * Reports tables that an UpdateEventCommand grid change would push off the floorplan, or
+ * null when the resize is safe (including commands that do not touch the grid).
+ */
+export function checkGridResize(
+  plan: PlanDataDTO,
+  current: GridSizeDTO,
+  command: UpdateEventCommand
+): GridResizeConflictDTO | null {
+  const grid = { rows: command.grid_rows ?? current.rows, cols: command.grid_cols ?? current.cols };
+  if (grid.rows >= current.rows && grid.cols >= current.cols) {
+    return null;
+  }
+  const tables = findTablesOffGrid(plan, grid);
+  return tables.length > 0 ? { grid, tables } : null;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { matchRateLimitPolicy } from "./rate-limit-policies";
+
+const EVENT = "4f1c2b9e-8a3d-4c5e-9f6a-0b1c2d3e4f5a";
+
+describe("matchRateLimitPolicy", () => {
+  it.each([
+    ["POST", `/api/events/${EVENT}/plan/ops`, "plan_autosave", EVENT],
+    ["PUT", `/api/events/${EVENT}/plan`, "plan_autosave", EVENT],
+    ["GET", `/api/events/${EVENT}/exports`, "exports", EVENT],
+    ["POST", `/api/events/${EVENT}/exports/render`, "exports", EVENT],
+    ["POST", `/api/events/${EVENT}/snapshots`, "snapshot_create", EVENT],
+    ["POST", "/api/public/events/tok123/auth", "share_auth", "tok123"],
+    ["GET", "/api/public/events/tok123", "share_view", "tok123"],
+    ["POST", "/api/analytics", "analytics", undefined],
+  ])("%s %s -> %s", (method, pathname, name, pathKey) => {
+    const match = matchRateLimitPolicy(method, pathname);
+    expect(match?.policy.name).toBe(name);
+    expect(match?.pathKey).toBe(pathKey);
+  });
+
+  it.each([
+    ["GET", `/api/events/${EVENT}/plan`],
+    ["GET", `/api/events/${EVENT}/snapshots`],
+    ["POST", `/api/events/${EVENT}/planner`],
+    ["GET", "/api/public/events/tok123/seat"],
+    ["GET", "/api/profile"],
+  ])("does not limit %s %s", (method, pathname) => {
+    expect(matchRateLimitPolicy(method, pathname)).toBeUndefined();
+  });
+});
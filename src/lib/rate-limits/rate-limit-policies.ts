@@ -0,0 +1,91 @@
+// Per-route rate limit policies, applied by the middleware before the route runs. The first
+// policy whose method and path match a request applies; requests matching none are not limited.
+// Counters are keyed by the policy's subjects:
+//   - user: the signed-in user (anonymous callers are counted by IP; the route rejects them anyway)
+//   - ip: the client address
+//   - path: the first path group, i.e. the event id or share link token
+// Windows stay within a day (see the memory store's sweep). The share link endpoints also keep
+// their own attempt throttles (see share-links/throttle.ts) on top of these limits.
+
+export type RateLimitSubject = "user" | "ip" | "path";
+
+export interface RateLimitPolicy {
+  name: string;
+  methods: readonly string[];
+  path: RegExp; // Matched against the pathname
+  subjects: readonly RateLimitSubject[];
+  limit: number | "exports_daily"; // exports_daily: the caller's admin_flags.rate_limit_exports_daily
+  windowMs: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const RATE_LIMIT_POLICIES: readonly RateLimitPolicy[] = [
+  // Autosave bursts: plan edits arrive as batched ops, a few per second at most
+  {
+    name: "plan_autosave",
+    methods: ["POST", "PUT", "PATCH", "DELETE"],
+    path: /^\/api\/events\/([^/]+)\/plan(?:\/|$)/,
+    subjects: ["user", "path"],
+    limit: 10,
+    windowMs: 5 * 1000,
+  },
+  {
+    name: "exports",
+    methods: ["GET", "POST"],
+    path: /^\/api\/events\/([^/]+)\/exports(?:\/render)?\/?$/,
+    subjects: ["user"],
+    limit: "exports_daily",
+    windowMs: DAY,
+  },
+  {
+    name: "snapshot_create",
+    methods: ["POST"],
+    path: /^\/api\/events\/([^/]+)\/snapshots\/?$/,
+    subjects: ["user"],
+    limit: 30,
+    windowMs: HOUR,
+  },
+  {
+    name: "share_auth",
+    methods: ["POST"],
+    path: /^\/api\/public\/events\/([^/]+)\/auth\/?$/,
+    subjects: ["path", "ip"],
+    limit: 10,
+    windowMs: 15 * MINUTE,
+  },
+  // Per viewer rather than per link, so one scraper cannot lock out a room full of guests
+  {
+    name: "share_view",
+    methods: ["GET"],
+    path: /^\/api\/public\/events\/([^/]+)\/?$/,
+    subjects: ["path", "ip"],
+    limit: 60,
+    windowMs: MINUTE,
+  },
+  {
+    name: "analytics",
+    methods: ["POST"],
+    path: /^\/api\/analytics\/?$/,
+    subjects: ["user"],
+    limit: 100,
+    windowMs: MINUTE,
+  },
+];
+
+export interface RateLimitMatch {
+  policy: RateLimitPolicy;
+  pathKey: string | undefined; // First path group
+}
+
+export function matchRateLimitPolicy(method: string, pathname: string): RateLimitMatch | undefined {
+  for (const policy of RATE_LIMIT_POLICIES) {
+    const match = policy.methods.includes(method) ? policy.path.exec(pathname) : null;
+    if (match) {
+      return { policy, pathKey: match[1] };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { createMemoryRateLimitStore } from "./rate-limit-store";
+
+const WINDOW = 60_000;
+const T0 = 1_700_000_000_000;
+
+describe("memory rate limit store", () => {
+  it("allows up to the limit within the window", async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await store.hit("k", 3, WINDOW, T0)).toEqual({ allowed: true, remaining: 2, retryAfter: 0 });
+    expect(await store.hit("k", 3, WINDOW, T0 + 1)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+    expect(await store.hit("k", 3, WINDOW, T0 + 2)).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+    expect(await store.hit("k", 3, WINDOW, T0 + 3)).toEqual({ allowed: false, remaining: 0, retryAfter: 60 });
+  });
+
+  it("slides the window instead of resetting it", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("k", 2, WINDOW, T0);
+    await store.hit("k", 2, WINDOW, T0 + 30_000);
+
+    // The first request leaves the window at T0 + 60s; the second only 30s later
+    expect(await store.hit("k", 2, WINDOW, T0 + 45_000)).toMatchObject({ allowed: false, retryAfter: 15 });
+    expect(await store.hit("k", 2, WINDOW, T0 + WINDOW)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await store.hit("k", 2, WINDOW, T0 + WINDOW + 1)).toMatchObject({ allowed: false, retryAfter: 30 });
+  });
+
+  it("does not count denied requests", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("k", 1, WINDOW, T0);
+    await store.hit("k", 1, WINDOW, T0 + 10_000);
+    await store.hit("k", 1, WINDOW, T0 + 20_000);
+    expect(await store.hit("k", 1, WINDOW, T0 + WINDOW)).toMatchObject({ allowed: true });
+  });
+
+  it("counts keys separately and forgets a key on reset", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("a", 1, WINDOW, T0);
+    expect(await store.hit("b", 1, WINDOW, T0)).toMatchObject({ allowed: true });
+    await store.reset("a");
+    expect(await store.hit("a", 1, WINDOW, T0)).toMatchObject({ allowed: true });
+  });
+
+  it("denies every hit for a zero limit with a finite retry", async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await store.hit("k", 0, 86_400_000, T0)).toEqual({ allowed: false, remaining: 0, retryAfter: 86_400 });
+    expect(await store.hit("k", -1, 500, T0)).toEqual({ allowed: false, remaining: 0, retryAfter: 1 });
+  });
+});
@@ -0,0 +1,62 @@
+// Counters behind the API rate limits. A store answers "may this key make another request in
+// the window?" and records the request when it may. The in-memory backend keeps a sliding
+// window log per key in process memory, so each server instance counts on its own; a shared
+// backend (e.g. Redis) implements the same interface.
+
+const MAX_KEYS = 50_000; // Expired entries are swept once the store grows past this
+
+export interface RateLimitHit {
+  allowed: boolean;
+  remaining: number; // Requests left in the window after this one
+  retryAfter: number; // Seconds until another request is allowed; 0 when allowed
+}
+
+export interface RateLimitStore {
+  // A limit of 0 or less allows nothing: every hit is denied for a whole window.
+  hit(key: string, limit: number, windowMs: number, now?: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const requests = new Map<string, number[]>();
+
+  const recent = (key: string, windowMs: number, now: number): number[] => {
+    const times = (requests.get(key) ?? []).filter((time) => now - time < windowMs);
+    if (times.length === 0) {
+      requests.delete(key);
+    } else {
+      requests.set(key, times);
+    }
+    return times;
+  };
+
+  const sweep = (now: number) => {
+    for (const [key, times] of requests) {
+      // Windows differ per key; anything older than a day has expired under every policy
+      if (times[times.length - 1] <= now - 24 * 60 * 60 * 1000) {
+        requests.delete(key);
+      }
+    }
+  };
+
+  return {
+    async hit(key, limit, windowMs, now = Date.now()) {
+      if (limit <= 0) {
+        return { allowed: false, remaining: 0, retryAfter: Math.max(1, Math.ceil(windowMs / 1000)) };
+      }
+      const times = recent(key, windowMs, now);
+      if (times.length >= limit) {
+        const retryAfter = Math.max(1, Math.ceil((times[times.length - limit] + windowMs - now) / 1000));
+        return { allowed: false, remaining: 0, retryAfter };
+      }
+      if (requests.size >= MAX_KEYS) {
+        sweep(now);
+      }
+      requests.set(key, [...times, now]);
+      return { allowed: true, remaining: limit - times.length - 1, retryAfter: 0 };
+    },
+    async reset(key) {
+      requests.delete(key);
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AccessLogKind,
+  AccessReviewReportDTO,
+  AccessSummaryQuery,
+  ReviewShareLinkAccessCommand,
+  ShareLinkAccessSummaryDTO,
+  UUID,
+} from "../../types";
+import { lookupCountry } from "../access-logs/geoip";
+import { parseUserAgent } from "../access-logs/user-agent";
+import { ApiError } from "../api/api-error";
+import { recordAuditEntries } from "./audit-log.service";
+
+// Share link access logs: ingestion with offline enrichment (country from the geo-IP database,
+// device and browser from the user agent), the owner's per-link summary, and the scheduled
+// anomaly review (see review_share_link_access()).
+
+export const ACCESS_SUMMARY_DEFAULT_DAYS = 30;
+export const ACCESS_REVIEW_DEFAULTS = {
+  window_minutes: 60,
+  country_threshold: 5,
+  pii_min_hits: 50,
+  pii_spike_factor: 5,
+  pii_min_baseline_hours: 24,
+};
+
+export interface ShareAccessEntry {
+  share_link_id: UUID;
+  event_id: UUID;
+  kind: AccessLogKind;
+  pii_exposed: boolean;
+  ip: string;
+  user_agent: string | null;
+}
+
+/**
+ * Writes an enriched access_logs row and bumps the link's last_accessed_at. Runs with the
+ * service-role client; failures are logged and swallowed so they never block the public view.
+ */
+export async function recordShareAccess(admin: SupabaseClient, entry: ShareAccessEntry): Promise<void> {
+  const now = new Date().toISOString();
+  const { device, browser } = parseUserAgent(entry.user_agent);
+  const country = await lookupCountry(entry.ip).catch(() => undefined);
+  const [logged, touched] = await Promise.all([
+    admin.from("access_logs").insert({
+      share_link_id: entry.share_link_id,
+      event_id: entry.event_id,
+      accessed_at: now,
+      kind: entry.kind,
+      ip: entry.ip,
+      user_agent: entry.user_agent?.slice(0, 500) ?? null,
+      geo_country: country ?? null,
+      device,
+      browser,
+      pii_exposed: entry.pii_exposed,
+    }),
+    admin.from("share_links").update({ last_accessed_at: now }).eq("id", entry.share_link_id),
+  ]);
+  const error = logged.error ?? touched.error;
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Failed to record share link access:", error);
+  }
+}
+
+/** Access counts and flagged anomalies for one of the caller's share links (RLS-scoped). */
+export async function getShareLinkAccessSummary(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  shareLinkId: UUID,
+  query: AccessSummaryQuery,
+  now = new Date()
+): Promise<ShareLinkAccessSummaryDTO> {
+  const { data: link, error: linkError } = await supabase
+    .from("share_links")
+    .select("id")
+    .eq("event_id", eventId)
+    .eq("id", shareLinkId)
+    .maybeSingle();
+  if (linkError) {
+    throw linkError;
+  }
+  if (!link) {
+    throw new ApiError(404, "SHARE_LINK_NOT_FOUND", "Share link not found", { share_link_id: shareLinkId });
+  }
+
+  const to = query.to ?? now.toISOString();
+  const from = query.from ?? new Date(Date.parse(to) - ACCESS_SUMMARY_DEFAULT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const [summary, anomalies] = await Promise.all([
+    supabase.rpc("share_link_access_summary", { p_share_link_id: shareLinkId, p_from: from, p_to: to }),
+    supabase
+      .from("access_anomalies")
+      .select("id, share_link_id, kind, window_start, window_end, details, link_revoked, detected_at")
+      .eq("share_link_id", shareLinkId)
+      .order("detected_at", { ascending: false })
+      .limit(50),
+  ]);
+  if (summary.error) {
+    throw summary.error;
+  }
+  if (anomalies.error) {
+    throw anomalies.error;
+  }
+  const counts = summary.data as unknown as Omit<
+    ShareLinkAccessSummaryDTO,
+    "share_link_id" | "from" | "to" | "anomalies"
+  >;
+  return { share_link_id: shareLinkId, from, to, ...counts, anomalies: anomalies.data };
+}
+
+/**
+ * Scheduled review of recent access across all live links. Runs with the service-role client;
+ * a dry run (the default) only reports what would be flagged and revoked. Auto-revocations are
+ * written to the event's audit log.
+ */
+export async function reviewShareLinkAccess(
+  admin: SupabaseClient,
+  command: ReviewShareLinkAccessCommand
+): Promise<AccessReviewReportDTO> {
+  const { data, error } = await admin.rpc("review_share_link_access", {
+    p_dry_run: command.dry_run ?? true,
+    p_window: `${command.window_minutes ?? ACCESS_REVIEW_DEFAULTS.window_minutes} minutes`,
+    p_country_threshold: command.country_threshold ?? ACCESS_REVIEW_DEFAULTS.country_threshold,
+    p_pii_min_hits: command.pii_min_hits ?? ACCESS_REVIEW_DEFAULTS.pii_min_hits,
+    p_pii_spike_factor: command.pii_spike_factor ?? ACCESS_REVIEW_DEFAULTS.pii_spike_factor,
+    p_pii_min_baseline_hours: command.pii_min_baseline_hours ?? ACCESS_REVIEW_DEFAULTS.pii_min_baseline_hours,
+  });
+  if (error) {
+    throw error;
+  }
+  const report = data as unknown as AccessReviewReportDTO;
+  if (!report.dry_run) {
+    // A link flagged for both kinds at once is revoked (and logged) once.
+    const revoked = report.anomalies.filter((entry) => entry.revoked);
+    for (const linkId of new Set(revoked.map((entry) => entry.share_link_id))) {
+      const flagged = revoked.filter((entry) => entry.share_link_id === linkId);
+      await recordAuditEntries(
+        admin,
+        flagged[0].event_id,
+        [
+          {
+            action_type: "share_link_revoked",
+            details: { reason: "access_anomaly", anomalies: flagged.map((entry) => entry.kind) },
+          },
+        ],
+        linkId
+      );
+    }
+  }
+  return report;
+}
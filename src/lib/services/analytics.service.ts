@@ -0,0 +1,124 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AnalyticsEventIngestCommand,
+  AnalyticsEventType,
+  AnalyticsFunnelDTO,
+  AnalyticsFunnelQuery,
+  AnalyticsIngestResultDTO,
+  UUID,
+} from "../../types";
+import { analyticsSaltPeriod, hashAnalyticsIdentifier } from "../analytics/identifier-hash";
+import { sanitizeAnalyticsMetadata } from "../analytics/metadata-policy";
+
+// Product analytics: client batches are stored without raw identifiers (hashed with the month's
+// salt, see analytics_salt()) and with allow-listed metadata only. analytics_events is written
+// and read with the service-role client; end users never see it.
+
+export const ANALYTICS_FUNNEL_STEPS = [
+  "event_created",
+  "import_completed",
+  "first_save",
+  "share_link_created",
+  "export_generated",
+] as const satisfies readonly AnalyticsEventType[];
+export const ANALYTICS_FUNNEL_DEFAULT_DAYS = 30;
+
+// The month's salt, fetched once per period per server instance
+let currentSalt: { period: string; salt: string } | undefined;
+
+async function saltFor(admin: SupabaseClient, now: Date): Promise<{ period: string; salt: string }> {
+  const period = analyticsSaltPeriod(now);
+  if (currentSalt?.period !== period) {
+    const { data, error } = await admin.rpc("analytics_salt", { p_period: period });
+    if (error) {
+      throw error;
+    }
+    currentSalt = { period, salt: data };
+  }
+  return currentSalt;
+}
+
+/**
+ * Stores a batch of client analytics events for the caller. An event_id must be an event the
+ * caller can read (checked with their RLS-scoped client); entries referencing any other event
+ * are dropped rather than failing the batch.
+ */
+export async function ingestAnalyticsEvents(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  userId: UUID,
+  command: AnalyticsEventIngestCommand,
+  now = new Date()
+): Promise<AnalyticsIngestResultDTO> {
+  const eventIds = [...new Set(command.events.flatMap((item) => (item.event_id ? [item.event_id] : [])))];
+  const visible = new Set<string>();
+  if (eventIds.length) {
+    const { data, error } = await supabase.from("events").select("id").in("id", eventIds);
+    if (error) {
+      throw error;
+    }
+    data.forEach((event) => visible.add(event.id));
+  }
+
+  const { period, salt } = await saltFor(admin, now);
+  const userHash = hashAnalyticsIdentifier(salt, "user", userId);
+  const droppedFields = new Set<string>();
+  const rows = command.events
+    .filter((item) => !item.event_id || visible.has(item.event_id))
+    .map((item) => {
+      const { metadata, dropped } = sanitizeAnalyticsMetadata(item.event_type, item.metadata);
+      dropped.forEach((key) => droppedFields.add(key));
+      return {
+        event_type: item.event_type,
+        user_hash: userHash,
+        event_hash: item.event_id ? hashAnalyticsIdentifier(salt, "event", item.event_id) : null,
+        salt_period: period,
+        metadata,
+        created_at: now.toISOString(),
+      };
+    });
+  if (rows.length) {
+    const { error } = await admin.from("analytics_events").insert(rows);
+    if (error) {
+      throw error;
+    }
+  }
+  return {
+    accepted: rows.length,
+    dropped: command.events.length - rows.length,
+    dropped_fields: [...droppedFields].sort(),
+  };
+}
+
+/**
+ * Activation funnel over events created in [from, to): how many reached each step, in order
+ * (see analytics_funnel()). Steps are only linked within one salt period, so an event whose
+ * steps straddle a month boundary counts as dropping off there.
+ */
+export async function getAnalyticsFunnel(
+  admin: SupabaseClient,
+  query: AnalyticsFunnelQuery,
+  now = new Date()
+): Promise<AnalyticsFunnelDTO> {
+  const to = query.to ?? now.toISOString();
+  const from =
+    query.from ?? new Date(Date.parse(to) - ANALYTICS_FUNNEL_DEFAULT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await admin.rpc("analytics_funnel", { p_from: from, p_to: to });
+  if (error) {
+    throw error;
+  }
+  const counts = data as unknown as Record<(typeof ANALYTICS_FUNNEL_STEPS)[number], number>;
+  return {
+    from,
+    to,
+    steps: ANALYTICS_FUNNEL_STEPS.map((eventType, index) => {
+      const events = counts[eventType] ?? 0;
+      const previous = index > 0 ? (counts[ANALYTICS_FUNNEL_STEPS[index - 1]] ?? 0) : 0;
+      return {
+        event_type: eventType,
+        events,
+        conversion: previous > 0 ? Math.round((events / previous) * 10_000) / 10_000 : null,
+      };
+    }),
+  };
+}
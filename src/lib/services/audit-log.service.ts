@@ -0,0 +1,75 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json } from "../../db/database.types";
+import type { AuditEntryDraft, AuditLogEntryDTO, AuditLogQuery, PaginatedDTO, UUID } from "../../types";
+import { decodeCursor, encodeCursor, keysetFilter } from "../api/cursor";
+
+// Event audit trail (audit_log). Owner actions are written with the caller's client, so the row
+// is stamped with auth.uid() by the column default; public share link actions are written with
+// the service-role client and carry the link instead of a user.
+
+const AUDIT_LOG_COLUMNS = "id, event_id, share_link_id, user_id, action_type, details, created_at";
+
+/**
+ * Appends entries to the event's audit trail. The action they describe has already happened,
+ * so failures are logged and swallowed rather than failing the request.
+ */
+export async function recordAuditEntries(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  entries: AuditEntryDraft[],
+  shareLinkId: UUID | null = null
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  const { error } = await supabase.from("audit_log").insert(
+    entries.map((entry) => ({
+      event_id: eventId,
+      share_link_id: shareLinkId,
+      action_type: entry.action_type,
+      details: entry.details as Json,
+    }))
+  );
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Failed to write audit log:", error);
+  }
+}
+
+/** Newest-first audit feed of one of the caller's events (RLS-scoped). */
+export async function listAuditLog(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  query: AuditLogQuery
+): Promise<PaginatedDTO<AuditLogEntryDTO>> {
+  let request = supabase
+    .from("audit_log")
+    .select(AUDIT_LOG_COLUMNS)
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+  if (query.action_type?.length) {
+    request = request.in("action_type", query.action_type);
+  }
+  if (query.user_id) {
+    request = request.eq("user_id", query.user_id);
+  }
+  if (query.from) {
+    request = request.gte("created_at", query.from);
+  }
+  if (query.to) {
+    request = request.lt("created_at", query.to);
+  }
+  if (query.cursor) {
+    request = request.or(keysetFilter(decodeCursor(query.cursor)));
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    throw error;
+  }
+  const items = data.slice(0, query.limit);
+  const last = items.at(-1);
+  return { items, next_cursor: data.length > query.limit && last ? encodeCursor(last) : null };
+}
@@ -0,0 +1,537 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json, Tables, TablesUpdate } from "../../db/database.types";
+import type {
+  DataErasureReportDTO,
+  DataErasureRunReportDTO,
+  DataExportDownloadQuery,
+  DataExportReportDTO,
+  DataRequestRunItemDTO,
+  DataRequestType,
+  ProcessDataRequestsCommand,
+  UUID,
+} from "../../types";
+import { ApiError } from "../api/api-error";
+import {
+  deleteExportArchive,
+  hasExportArchive,
+  readExportArchive,
+  writeExportArchive,
+} from "../data-requests/archive-storage";
+import {
+  DATA_EXPORT_URL_TTL_SECONDS,
+  isDataExportSignatureValid,
+  signDataExportDownload,
+} from "../data-requests/download-signature";
+import { buildDataExportArchive, type DataExportContents } from "../data-requests/export-bundle";
+import {
+  createPseudonymRegistry,
+  erasePlanPersonalData,
+  planPersonalTerms,
+  type PseudonymRegistry,
+} from "../data-requests/plan-erasure";
+import { ZIP_CONTENT_TYPE } from "../data-requests/zip-archive";
+import { planDataFromJson } from "../plan/plan-utils";
+import { savePlanData } from "./event-plan.service";
+import type { ExportFile } from "./export.service";
+
+// Data subject access requests (DSAR). The scheduler runs one worker per request type with the
+// service-role client; queued requests move pending -> processing -> completed or rejected.
+// Unexpected failures release the request back to pending for the next run.
+//   - export: an archive of the requester's data is written and a signed result_url set
+//   - deletion: guest names and notes are pseudonymized in the live plan and every snapshot,
+//     retained logs anonymized (see erase_event_logs()), the requester's export archives
+//     deleted, and the result verified by searching for the erased names and archives; the
+//     report goes to data_requests.report and an audit tombstone
+
+export const DATA_REQUEST_BATCH_SIZE = 5;
+const STALE_CLAIM_MS = 30 * 60 * 1000; // A processing claim older than this was abandoned
+const PAGE_SIZE = 1000; // PostgREST max rows per response
+const SNAPSHOT_PAGE_SIZE = 50; // Snapshots carry a full plan each
+const TERM_BATCH_SIZE = 100; // Names per verification query
+const REJECTION_CODES = new Set(["EVENT_NOT_OWNED"]); // Permanent failures; anything else is retried
+
+// Everything but the password hash.
+const SHARE_LINK_EXPORT_COLUMNS =
+  "id, event_id, token, expires_at, include_pii, revoked_at, created_at, created_by, last_accessed_at, source, snapshot_id, guest_names, show_tags, show_rsvp, auto_revoke_on_anomaly";
+
+type QueuedRequest = Pick<Tables<"data_requests">, "id" | "user_id" | "event_id">;
+type Page = PromiseLike<{ data: unknown[] | null; error: unknown }>;
+
+function queueFilter(staleBefore: string): string {
+  return `status.eq.pending,and(status.eq.processing,started_at.lt."${staleBefore}")`;
+}
+
+function runItem(request: QueuedRequest): Omit<DataRequestRunItemDTO, "outcome"> {
+  return { request_id: request.id, user_id: request.user_id, event_id: request.event_id };
+}
+
+/**
+ * Export worker run: processes up to `limit` queued export requests, oldest first, then purges
+ * archives whose download link has expired. A dry run (the default) only reports both lists.
+ */
+export async function processDataExports(
+  admin: SupabaseClient,
+  command: ProcessDataRequestsCommand,
+  origin: string,
+  now = new Date()
+): Promise<DataExportReportDTO> {
+  const dryRun = command.dry_run ?? true;
+  const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+  const [queued, expired] = await Promise.all([
+    loadQueue(admin, "export", command.limit ?? DATA_REQUEST_BATCH_SIZE, staleBefore),
+    admin
+      .from("data_requests")
+      .select("id")
+      .eq("type", "export")
+      .not("result_url", "is", null)
+      .lte("result_expires_at", now.toISOString()),
+  ]);
+  if (expired.error) {
+    throw expired.error;
+  }
+
+  if (dryRun) {
+    return {
+      dry_run: true,
+      requests: queued.map((request) => ({ ...runItem(request), outcome: "pending" })),
+      purged: expired.data.map((request) => request.id),
+    };
+  }
+
+  const requests: DataRequestRunItemDTO[] = [];
+  for (const request of queued) {
+    if (await claimRequest(admin, request.id, staleBefore, now)) {
+      requests.push(await settleRequest(admin, request, now, () => exportRequestedData(admin, request, origin, now)));
+    }
+  }
+  const purged: UUID[] = [];
+  for (const { id } of expired.data) {
+    await deleteExportArchive(id);
+    await updateRequest(admin, id, { result_url: null });
+    purged.push(id);
+  }
+  return { dry_run: false, requests, purged };
+}
+
+/**
+ * Deletion worker run: erases the data of up to `limit` queued deletion requests, oldest
+ * first. A dry run (the default) only lists them.
+ */
+export async function processDataErasures(
+  admin: SupabaseClient,
+  command: ProcessDataRequestsCommand,
+  now = new Date()
+): Promise<DataErasureRunReportDTO> {
+  const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+  const queued = await loadQueue(admin, "deletion", command.limit ?? DATA_REQUEST_BATCH_SIZE, staleBefore);
+  if (command.dry_run ?? true) {
+    return { dry_run: true, requests: queued.map((request) => ({ ...runItem(request), outcome: "pending" })) };
+  }
+
+  const requests: DataErasureRunReportDTO["requests"] = [];
+  for (const request of queued) {
+    if (!(await claimRequest(admin, request.id, staleBefore, now))) {
+      continue;
+    }
+    let verified: boolean | undefined;
+    const item = await settleRequest(admin, request, now, async () => {
+      const report = await eraseRequestedData(admin, request, now);
+      verified = report.verification.verified;
+      return { report: report as unknown as Json };
+    });
+    requests.push(verified === undefined ? item : { ...item, verified });
+  }
+  return { dry_run: false, requests };
+}
+
+async function loadQueue(
+  admin: SupabaseClient,
+  type: DataRequestType,
+  limit: number,
+  staleBefore: string
+): Promise<QueuedRequest[]> {
+  const { data, error } = await admin
+    .from("data_requests")
+    .select("id, user_id, event_id")
+    .eq("type", type)
+    .or(queueFilter(staleBefore))
+    .order("requested_at", { ascending: true })
+    .limit(limit);
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+// Conditional update, so two overlapping runs never process the same request.
+async function claimRequest(admin: SupabaseClient, requestId: UUID, staleBefore: string, now: Date): Promise<boolean> {
+  const { data, error } = await admin
+    .from("data_requests")
+    .update({ status: "processing", started_at: now.toISOString() })
+    .eq("id", requestId)
+    .or(queueFilter(staleBefore))
+    .select("id")
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data !== null;
+}
+
+// Runs the work for a claimed request and records how it ended.
+async function settleRequest(
+  admin: SupabaseClient,
+  request: QueuedRequest,
+  now: Date,
+  work: () => Promise<TablesUpdate<"data_requests">>
+): Promise<DataRequestRunItemDTO> {
+  try {
+    const result = await work();
+    await updateRequest(admin, request.id, { ...result, status: "completed", processed_at: now.toISOString() });
+    return { ...runItem(request), outcome: "completed" };
+  } catch (error) {
+    if (error instanceof ApiError && REJECTION_CODES.has(error.code)) {
+      await updateRequest(admin, request.id, {
+        status: "rejected",
+        processed_at: now.toISOString(),
+        rejection_reason: error.code,
+      });
+      return { ...runItem(request), outcome: "rejected", reason: error.code };
+    }
+    // eslint-disable-next-line no-console
+    console.error(`Data request ${request.id} failed:`, error);
+    await updateRequest(admin, request.id, { status: "pending", started_at: null });
+    return { ...runItem(request), outcome: "failed", reason: "PROCESSING_ERROR" };
+  }
+}
+
+async function updateRequest(
+  admin: SupabaseClient,
+  requestId: UUID,
+  update: TablesUpdate<"data_requests">
+): Promise<void> {
+  const { error } = await admin.from("data_requests").update(update).eq("id", requestId);
+  if (error) {
+    throw error;
+  }
+}
+
+async function selectAll(page: (from: number, to: number) => Page): Promise<unknown[]> {
+  const rows: unknown[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+async function loadProfile(admin: SupabaseClient, userId: UUID): Promise<Tables<"profiles"> | null> {
+  const { data, error } = await admin.from("profiles").select("*").eq("user_id", userId).maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+// Events in scope: the requested one, or every event the requester owns (deleted ones included).
+async function requestedEvents(admin: SupabaseClient, request: QueuedRequest): Promise<Tables<"events">[]> {
+  const events = (await selectAll((from, to) => {
+    const query = admin.from("events").select("*").eq("owner_id", request.user_id);
+    return (request.event_id ? query.eq("id", request.event_id) : query).order("id").range(from, to);
+  })) as Tables<"events">[];
+  if (request.event_id && events.length === 0) {
+    throw new ApiError(403, "EVENT_NOT_OWNED", "Requested event does not belong to the requester", {
+      event_id: request.event_id,
+    });
+  }
+  return events;
+}
+
+// --------------------------------------------------------
+// Export
+// --------------------------------------------------------
+
+async function exportRequestedData(
+  admin: SupabaseClient,
+  request: QueuedRequest,
+  origin: string,
+  now: Date
+): Promise<TablesUpdate<"data_requests">> {
+  const contents = await loadExportContents(admin, request);
+  await writeExportArchive(request.id, buildDataExportArchive(runItem(request), contents, now));
+  const expiresAt = new Date(now.getTime() + DATA_EXPORT_URL_TTL_SECONDS * 1000);
+  const link = signDataExportDownload(request.id, expiresAt);
+  return {
+    result_url: `${origin}/api/data-requests/${request.id}/download?expires=${link.expires}&signature=${link.signature}`,
+    result_expires_at: expiresAt.toISOString(),
+  };
+}
+
+/**
+ * The requester's data: their profile and, for each event they own (or just the requested
+ * one), the event with its plan, snapshots, share links, logs, consents and imports. Account-wide
+ * exports also pick up rows the requester wrote on events they do not own.
+ */
+async function loadExportContents(admin: SupabaseClient, request: QueuedRequest): Promise<DataExportContents> {
+  const profile = await loadProfile(admin, request.user_id);
+  const events = await requestedEvents(admin, request);
+
+  const eventIds = events.map((event) => event.id);
+  const inEvents = `event_id.in.(${eventIds.join(",")})`;
+  // Rows tied to the exported events, or written by the requester (account-wide only)
+  const related = request.event_id
+    ? `event_id.eq.${request.event_id}`
+    : [...(eventIds.length ? [inEvents] : []), `user_id.eq.${request.user_id}`].join(",");
+  const byEvents = (page: (from: number, to: number) => Page) =>
+    eventIds.length ? selectAll(page) : Promise.resolve([]);
+
+  const [snapshots, shareLinks, accessLogs, auditLog, importConsent, guestImports] = await Promise.all([
+    byEvents((from, to) => admin.from("snapshots").select("*").or(inEvents).order("id").range(from, to)),
+    byEvents((from, to) =>
+      admin.from("share_links").select(SHARE_LINK_EXPORT_COLUMNS).or(inEvents).order("id").range(from, to)
+    ),
+    byEvents((from, to) => admin.from("access_logs").select("*").or(inEvents).order("id").range(from, to)),
+    selectAll((from, to) => admin.from("audit_log").select("*").or(related).order("id").range(from, to)),
+    selectAll((from, to) => admin.from("import_consent").select("*").or(related).order("id").range(from, to)),
+    selectAll((from, to) => admin.from("guest_imports").select("*").or(related).order("id").range(from, to)),
+  ]);
+
+  return {
+    profile,
+    tables: {
+      events,
+      snapshots,
+      share_links: shareLinks,
+      access_logs: accessLogs,
+      audit_log: auditLog,
+      import_consent: importConsent,
+      guest_imports: guestImports,
+    },
+  };
+}
+
+// --------------------------------------------------------
+// Erasure
+// --------------------------------------------------------
+
+// Counts returned by erase_event_logs()
+type ErasedLogCounts = Omit<
+  DataErasureReportDTO["counts"],
+  "events" | "snapshots" | "guests_pseudonymized" | "parties_pseudonymized" | "export_archives_deleted"
+>;
+type ResidualMatch = DataErasureReportDTO["verification"]["residual"][number];
+
+/**
+ * Erases the requester's personal data from the events in scope and verifies the result. Guest
+ * and party names are captured from the live plan and every snapshot before they are
+ * pseudonymized, then searched for across all rows tied to the events (and the requester,
+ * account-wide). The requester's export archives covering the scope are deleted and checked to
+ * be gone. The compliance logs themselves are kept, anonymized; each event gets a data_erased
+ * tombstone.
+ */
+async function eraseRequestedData(
+  admin: SupabaseClient,
+  request: QueuedRequest,
+  now: Date
+): Promise<DataErasureReportDTO> {
+  const events = await requestedEvents(admin, request);
+  const userId = request.event_id ? undefined : request.user_id;
+  const terms = new Set<string>();
+  if (userId) {
+    const profile = await loadProfile(admin, userId);
+    if (profile?.display_name) {
+      terms.add(profile.display_name.trim());
+    }
+  }
+
+  let snapshots = 0;
+  let guests = 0;
+  let parties = 0;
+  for (const event of events) {
+    const pseudonyms = createPseudonymRegistry();
+    const plan = planDataFromJson(event.plan_data);
+    planPersonalTerms(plan).forEach((term) => terms.add(term));
+    const erased = erasePlanPersonalData(plan, pseudonyms);
+    await savePlanData(admin, event.id, erased.plan, event.autosave_version);
+    guests += erased.guests;
+    parties += erased.parties;
+    snapshots += await eraseSnapshotPlans(admin, event.id, pseudonyms, terms);
+  }
+
+  const eventIds = events.map((event) => event.id);
+  const { data: logCounts, error } = await admin.rpc("erase_event_logs", {
+    p_event_ids: eventIds,
+    ...(userId ? { p_user_id: userId } : {}),
+  });
+  if (error) {
+    throw error;
+  }
+  const archives = await eraseExportArchives(admin, request);
+  const residual = await findResidualMatches(admin, eventIds, [...terms], userId);
+  for (const requestId of archives) {
+    if (await hasExportArchive(requestId)) {
+      residual.push({ table: "export_archives", row_id: requestId });
+    }
+  }
+
+  const report: DataErasureReportDTO = {
+    scope: request.event_id ? "event" : "account",
+    event_ids: eventIds,
+    erased_at: now.toISOString(),
+    counts: {
+      events: events.length,
+      snapshots,
+      guests_pseudonymized: guests,
+      parties_pseudonymized: parties,
+      export_archives_deleted: archives.length,
+      ...(logCounts as unknown as ErasedLogCounts),
+    },
+    verification: { terms_checked: terms.size, export_archives: archives, residual, verified: residual.length === 0 },
+  };
+  if (eventIds.length) {
+    // Written directly: unlike recordAuditEntries() a missing tombstone must fail the request
+    const { error: auditError } = await admin.from("audit_log").insert(
+      eventIds.map((eventId) => ({
+        event_id: eventId,
+        user_id: request.user_id,
+        action_type: "data_erased" as const,
+        details: {
+          data_request_id: request.id,
+          scope: report.scope,
+          counts: report.counts,
+          verified: report.verification.verified,
+          residual_rows: residual.length,
+        },
+      }))
+    );
+    if (auditError) {
+      throw auditError;
+    }
+  }
+  return report;
+}
+
+// Deletes the archives of the requester's export requests that cover the erased scope (for one
+// event: exports of that event and account-wide ones) and clears their links. Returns the ids
+// of the export requests that had an archive or a link.
+async function eraseExportArchives(admin: SupabaseClient, request: QueuedRequest): Promise<UUID[]> {
+  let query = admin.from("data_requests").select("id, result_url").eq("type", "export").eq("user_id", request.user_id);
+  if (request.event_id) {
+    query = query.or(`event_id.eq.${request.event_id},event_id.is.null`);
+  }
+  const { data, error } = await query.order("id");
+  if (error) {
+    throw error;
+  }
+  const erased: UUID[] = [];
+  for (const exported of data) {
+    const stored = await hasExportArchive(exported.id);
+    if (!stored && !exported.result_url) {
+      continue;
+    }
+    await deleteExportArchive(exported.id);
+    await updateRequest(admin, exported.id, { result_url: null });
+    erased.push(exported.id);
+  }
+  return erased;
+}
+
+// Pseudonymizes every snapshot of an event, adding the names it held to `terms`.
+async function eraseSnapshotPlans(
+  admin: SupabaseClient,
+  eventId: UUID,
+  pseudonyms: PseudonymRegistry,
+  terms: Set<string>
+): Promise<number> {
+  let erased = 0;
+  for (let from = 0; ; from += SNAPSHOT_PAGE_SIZE) {
+    const { data, error } = await admin
+      .from("snapshots")
+      .select("id, plan_data")
+      .eq("event_id", eventId)
+      .order("id")
+      .range(from, from + SNAPSHOT_PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    for (const snapshot of data) {
+      const plan = planDataFromJson(snapshot.plan_data);
+      planPersonalTerms(plan).forEach((term) => terms.add(term));
+      const { error: updateError } = await admin
+        .from("snapshots")
+        .update({ plan_data: erasePlanPersonalData(plan, pseudonyms).plan as unknown as Json })
+        .eq("id", snapshot.id);
+      if (updateError) {
+        throw updateError;
+      }
+      erased++;
+    }
+    if (data.length < SNAPSHOT_PAGE_SIZE) {
+      return erased;
+    }
+  }
+}
+
+async function findResidualMatches(
+  admin: SupabaseClient,
+  eventIds: UUID[],
+  terms: string[],
+  userId: UUID | undefined
+): Promise<ResidualMatch[]> {
+  const matches = new Map<string, ResidualMatch>();
+  for (let i = 0; i < terms.length; i += TERM_BATCH_SIZE) {
+    const { data, error } = await admin.rpc("erasure_residual_matches", {
+      p_event_ids: eventIds,
+      p_terms: terms.slice(i, i + TERM_BATCH_SIZE),
+      ...(userId ? { p_user_id: userId } : {}),
+    });
+    if (error) {
+      throw error;
+    }
+    for (const match of data as unknown as ResidualMatch[]) {
+      matches.set(`${match.table}:${match.row_id}`, match);
+    }
+  }
+  return [...matches.values()];
+}
+
+/**
+ * Archive behind a signed result_url. The signature is checked before anything is looked up;
+ * expired links and purged archives answer 410.
+ */
+export async function downloadDataExport(
+  admin: SupabaseClient,
+  requestId: UUID,
+  query: DataExportDownloadQuery,
+  now = new Date()
+): Promise<ExportFile> {
+  if (!isDataExportSignatureValid(requestId, query)) {
+    throw new ApiError(403, "DOWNLOAD_LINK_INVALID", "Download link is invalid");
+  }
+  if (query.expires * 1000 <= now.getTime()) {
+    throw new ApiError(410, "DOWNLOAD_LINK_EXPIRED", "Download link has expired");
+  }
+
+  const { data, error } = await admin
+    .from("data_requests")
+    .select("id, type, status, processed_at")
+    .eq("id", requestId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data || data.type !== "export" || data.status !== "completed") {
+    throw new ApiError(404, "DATA_REQUEST_NOT_FOUND", "Data export not found");
+  }
+  const archive = await readExportArchive(requestId);
+  if (!archive) {
+    throw new ApiError(410, "DOWNLOAD_LINK_EXPIRED", "Download link has expired");
+  }
+  const date = (data.processed_at ?? now.toISOString()).slice(0, 10);
+  return { filename: `data-export-${date}.zip`, content_type: ZIP_CONTENT_TYPE, body: archive };
+}
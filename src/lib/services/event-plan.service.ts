@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json } from "../../db/database.types";
+import type { GridSizeDTO, PlanDataDTO, UUID } from "../../types";
+import { ApiError } from "../api/api-error";
+import { planDataFromJson } from "../plan/plan-utils";
+
+export interface EventPlanState {
+  plan_data: PlanDataDTO;
+  autosave_version: number;
+  grid: GridSizeDTO;
+  updated_at: string;
+}
+
+export async function getEventPlanState(supabase: SupabaseClient, eventId: UUID): Promise<EventPlanState> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("plan_data, autosave_version, grid_rows, grid_cols, updated_at")
+    .eq("id", eventId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "EVENT_NOT_FOUND", "Event not found", { event_id: eventId });
+  }
+  return {
+    plan_data: planDataFromJson(data.plan_data),
+    autosave_version: data.autosave_version,
+    grid: { rows: data.grid_rows, cols: data.grid_cols },
+    updated_at: data.updated_at,
+  };
+}
+
+/**
+ * Writes plan_data if autosave_version still equals `expectedVersion` and returns the new
+ * version; a concurrent save surfaces as 409 VERSION_CONFLICT.
+ */
+export async function savePlanData(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  plan: PlanDataDTO,
+  expectedVersion: number
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("events")
+    .update({
+      plan_data: plan as unknown as Json,
+      autosave_version: expectedVersion + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", eventId)
+    .eq("autosave_version", expectedVersion)
+    .select("autosave_version")
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(409, "VERSION_CONFLICT", "Plan was changed by another save; reload and retry", {
+      expected_version: expectedVersion,
+    });
+  }
+  return data.autosave_version;
+}
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { TablesUpdate } from "../../db/database.types";
+import type { EventSummaryDTO, UpdateEventCommand, UUID } from "../../types";
+import { ApiError } from "../api/api-error";
+import { checkGridResize } from "../plan/table-placement";
+import { getEventPlanState } from "./event-plan.service";
+
+/**
+ * Updates event metadata and grid size (never plan_data). Shrinking the grid is refused with
+ * 409 GRID_RESIZE_CONFLICT while placed tables would fall off it; the write is tied to the
+ * autosave_version the check ran against, so a concurrent plan save surfaces as 409
+ * VERSION_CONFLICT instead of slipping a table past the check.
+ */
+export async function updateEvent(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  command: UpdateEventCommand
+): Promise<EventSummaryDTO> {
+  const update: TablesUpdate<"events"> = { updated_at: new Date().toISOString() };
+  if (command.name !== undefined) {
+    update.name = command.name;
+  }
+  if (command.event_date !== undefined) {
+    update.event_date = command.event_date;
+  }
+
+  let query = supabase.from("events").update(update).eq("id", eventId).is("deleted_at", null);
+  if (command.grid_rows !== undefined || command.grid_cols !== undefined) {
+    const state = await getEventPlanState(supabase, eventId);
+    const conflict = checkGridResize(state.plan_data, state.grid, command);
+    if (conflict) {
+      throw new ApiError(409, "GRID_RESIZE_CONFLICT", "Tables would fall outside the resized grid", {
+        ...conflict,
+      });
+    }
+    update.grid_rows = command.grid_rows ?? state.grid.rows;
+    update.grid_cols = command.grid_cols ?? state.grid.cols;
+    query = query.eq("autosave_version", state.autosave_version);
+  }
+
+  const { data, error } = await query
+    .select("id, owner_id, name, event_date, grid_rows, grid_cols, autosave_version, created_at, updated_at")
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    if (update.grid_rows !== undefined) {
+      throw new ApiError(409, "VERSION_CONFLICT", "Plan was changed by another save; reload and retry");
+    }
+    throw new ApiError(404, "EVENT_NOT_FOUND", "Event not found", { event_id: eventId });
+  }
+  const { grid_rows, grid_cols, ...event } = data;
+  return { ...event, grid: { rows: grid_rows, cols: grid_cols } };
+}
@@ -0,0 +1,153 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { CreateExportCommand, GridSizeDTO, PlanDataDTO, UUID } from "../../types";
+import { ApiError } from "../api/api-error";
+import { buildAssignmentCsv, buildAssignmentXlsx, type AssignmentExportOptions } from "../exports/assignment-export";
+import { PDF_CONTENT_TYPE, renderFloorplanPdf, renderScenePdf } from "../exports/pdf-renderer";
+import {
+  buildFloorplanPngScene,
+  MAX_PNG_PIXELS,
+  PNG_CONTENT_TYPE,
+  pngPixelSize,
+  renderScenePng,
+} from "../exports/png-renderer";
+import { buildEscortPosterScene, buildPlaceCardScene } from "../exports/print-cards";
+import { CSV_CONTENT_TYPE } from "../imports/error-report";
+import { XLSX_CONTENT_TYPE } from "../imports/template-workbook";
+import { planDataFromJson } from "../plan/plan-utils";
+
+// Export rendering (FR-050..FR-052). Files are produced in-process from the live plan; no
+// external rendering service is involved.
+
+export interface ExportFile {
+  filename: string;
+  content_type: string;
+  body: Uint8Array | string;
+}
+
+interface ExportSource {
+  name: string;
+  plan_data: PlanDataDTO;
+  grid: GridSizeDTO;
+}
+
+async function loadExportSource(supabase: SupabaseClient, eventId: UUID): Promise<ExportSource> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("name, plan_data, grid_rows, grid_cols")
+    .eq("id", eventId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "EVENT_NOT_FOUND", "Event not found", { event_id: eventId });
+  }
+  return {
+    name: data.name,
+    plan_data: planDataFromJson(data.plan_data),
+    grid: { rows: data.grid_rows, cols: data.grid_cols },
+  };
+}
+
+// Header-safe base name derived from the event name.
+function exportBasename(name: string, generatedAt: Date): string {
+  const slug =
+    name
+      .replace(/[^\w.-]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 80) || "event";
+  return `${slug}-${generatedAt.toISOString().slice(0, 10)}`;
+}
+
+async function renderPng(source: ExportSource, command: CreateExportCommand): Promise<Uint8Array> {
+  const scale = command.scale ?? 1;
+  const scene = await buildFloorplanPngScene(source.plan_data, source.grid, {
+    title: source.name,
+    table_id: command.table_id,
+    guest_labels: command.hide_names ? "none" : "names",
+  });
+  if (!scene) {
+    throw new ApiError(404, "TABLE_NOT_FOUND", "Table not found", { table_id: command.table_id });
+  }
+  const size = pngPixelSize(scene.page, scale);
+  if (size.width * size.height > MAX_PNG_PIXELS) {
+    throw new ApiError(400, "EXPORT_TOO_LARGE", "Image would be too large; lower the scale", {
+      ...size,
+      max_pixels: MAX_PNG_PIXELS,
+    });
+  }
+  return renderScenePng(scene, scale);
+}
+
+function assignmentOptions(command: CreateExportCommand): AssignmentExportOptions {
+  return { sort: command.sort ?? "table", include_notes: command.include_notes ?? false };
+}
+
+export async function renderEventExport(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  command: CreateExportCommand,
+  generatedAt: Date = new Date()
+): Promise<ExportFile> {
+  const source = await loadExportSource(supabase, eventId);
+  const basename = exportBasename(source.name, generatedAt);
+  switch (command.type) {
+    case "pdf":
+      return {
+        filename: `${basename}-floorplan.pdf`,
+        content_type: PDF_CONTENT_TYPE,
+        body: await renderFloorplanPdf(source.plan_data, source.grid, {
+          title: source.name,
+          orientation: command.orientation ?? "landscape",
+          include_notes: command.include_notes ?? false,
+          guest_labels: "names",
+          generated_at: generatedAt,
+        }),
+      };
+    case "png":
+      return {
+        filename: `${basename}-${command.table_id ? "table" : "floorplan"}.png`,
+        content_type: PNG_CONTENT_TYPE,
+        body: await renderPng(source, command),
+      };
+    case "xlsx":
+      return {
+        filename: `${basename}-seating.xlsx`,
+        content_type: XLSX_CONTENT_TYPE,
+        body: await buildAssignmentXlsx(source.plan_data, assignmentOptions(command)),
+      };
+    case "csv":
+      return {
+        filename: `${basename}-seating.csv`,
+        content_type: CSV_CONTENT_TYPE,
+        body: buildAssignmentCsv(source.plan_data, assignmentOptions(command)),
+      };
+    case "place_cards":
+      return {
+        filename: `${basename}-place-cards.pdf`,
+        content_type: PDF_CONTENT_TYPE,
+        body: await renderScenePdf(
+          (measure) =>
+            buildPlaceCardScene(
+              source.plan_data,
+              { title: source.name, paper: command.paper ?? "a4", meal_icons: command.meal_icons ?? false },
+              measure
+            ),
+          generatedAt
+        ),
+      };
+    case "escort_poster":
+      return {
+        filename: `${basename}-find-your-table.pdf`,
+        content_type: PDF_CONTENT_TYPE,
+        body: await renderScenePdf(
+          (measure) =>
+            buildEscortPosterScene(source.plan_data, { title: source.name, paper: command.paper ?? "a3" }, measure),
+          generatedAt
+        ),
+      };
+    default:
+      throw new ApiError(400, "EXPORT_TYPE_NOT_SUPPORTED", "Export type is not supported yet", { type: command.type });
+  }
+}
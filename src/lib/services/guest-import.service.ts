@@ -0,0 +1,477 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Enums, Json, TablesUpdate } from "../../db/database.types";
+import type {
+  DuplicateGroupDTO,
+  FinalizeImportResultDTO,
+  GuestImportStatusDTO,
+  ImportAuditEntryDTO,
+  ImportAuditTrailDTO,
+  ImportColumnMappingDTO,
+  ImportErrorReportFormat,
+  ImportPreviewDTO,
+  ResolveDuplicatesCommand,
+  UpdateImportMappingCommand,
+  UploadGuestImportResultDTO,
+  UUID,
+} from "../../types";
+import { ApiError } from "../api/api-error";
+import { applyMappingOverride, describeColumns, detectColumnMapping } from "../imports/column-mapping";
+import {
+  checkDecision,
+  describeDuplicateGroups,
+  latestDecisions,
+  plannedMerges,
+  unresolvedGroupIds,
+} from "../imports/duplicate-resolution";
+import { buildErrorReportCsv, buildErrorReportXlsx, CSV_CONTENT_TYPE } from "../imports/error-report";
+import { buildImportedGuests } from "../imports/guest-import-template";
+import { ImportError } from "../imports/import-errors";
+import { buildImportOps, mergeDuplicates } from "../imports/import-ops";
+import { previewRows, validateImport, type ValidatedImport } from "../imports/row-validation";
+import { XLSX_CONTENT_TYPE } from "../imports/template-workbook";
+import { readImportWorkbook, type ImportSheet } from "../imports/xlsx-reader";
+import { planAuditEntries } from "../plan/plan-audit";
+import { applyPlanOps } from "../plan/plan-operations";
+import { stampSeatSeeds } from "../plan/random-seating";
+import { recordAuditEntries } from "./audit-log.service";
+import { getEventPlanState, savePlanData } from "./event-plan.service";
+import { createSnapshot } from "./snapshot.service";
+
+// XLSX guest import flow (FR-010..FR-012): upload (with consent) -> mapping/preview ->
+// finalize. guest_imports.status moves started -> validated -> completed, or failed when the
+// workbook cannot be read. Counts are refreshed on every (re)validation; an import is only
+// validated once it has no row errors and no undecided ambiguous duplicate groups (FR-013).
+
+export const DEFAULT_PREVIEW_ROWS = 50;
+
+const STATUS_COLUMNS =
+  "id, event_id, user_id, status, row_count, duplicate_count, error_count, started_at, completed_at, audit_trail, previous_import_id";
+
+export interface UploadGuestImportInput {
+  file: File;
+  consent_text: string;
+  previous_import_id?: UUID; // Corrected re-upload of an earlier import
+  ip: string | null;
+}
+
+export interface ImportErrorReport {
+  filename: string;
+  content_type: string;
+  body: string | Buffer;
+}
+
+interface ImportRecord {
+  status: GuestImportStatusDTO;
+  original_filename: string | null;
+  source: ImportSheet | null;
+  mapping: ImportColumnMappingDTO | null;
+}
+
+function auditEntry(
+  userId: UUID,
+  action: ImportAuditEntryDTO["action"],
+  details?: Record<string, unknown>
+): ImportAuditEntryDTO {
+  return { at: new Date().toISOString(), user_id: userId, action, ...(details ? { details } : {}) };
+}
+
+function auditEntries(trail: Json | null): ImportAuditEntryDTO[] {
+  return (trail as unknown as ImportAuditTrailDTO | null)?.entries ?? [];
+}
+
+function appendAudit(trail: Json | null, ...entries: ImportAuditEntryDTO[]): Json {
+  return { entries: [...auditEntries(trail), ...entries] } as unknown as Json;
+}
+
+function duplicateGroups(validated: ValidatedImport, trail: Json | null): DuplicateGroupDTO[] {
+  return describeDuplicateGroups(validated.duplicate_groups, latestDecisions(auditEntries(trail)));
+}
+
+function statusFor(validated: ValidatedImport, groups: DuplicateGroupDTO[]): Enums<"import_status_enum"> {
+  return validated.error_count === 0 && unresolvedGroupIds(groups).length === 0 ? "validated" : "started";
+}
+
+function validationSummary(validated: ValidatedImport) {
+  return {
+    row_count: validated.row_count,
+    error_count: validated.error_count,
+    duplicate_count: validated.duplicate_count,
+  };
+}
+
+// Groups and scores as recorded with each validation.
+function duplicateSummary(groups: DuplicateGroupDTO[]) {
+  return groups.map((group) => ({
+    group_id: group.group_id,
+    confidence: group.confidence,
+    member_ids: group.members.map((member) => member.id),
+  }));
+}
+
+async function loadImport(supabase: SupabaseClient, eventId: UUID, importId: UUID): Promise<ImportRecord> {
+  const { data, error } = await supabase
+    .from("guest_imports")
+    .select(`${STATUS_COLUMNS}, original_filename, source, column_mapping`)
+    .eq("event_id", eventId)
+    .eq("id", importId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "IMPORT_NOT_FOUND", "Import not found", { import_id: importId });
+  }
+  const { original_filename, source, column_mapping, ...status } = data;
+  return {
+    status,
+    original_filename,
+    source: source as unknown as ImportSheet | null,
+    mapping: column_mapping as unknown as ImportColumnMappingDTO | null,
+  };
+}
+
+function requireOpenImport(record: ImportRecord): { source: ImportSheet; mapping: ImportColumnMappingDTO } {
+  if (record.status.status === "completed") {
+    throw new ApiError(409, "IMPORT_ALREADY_FINALIZED", "Import has already been finalized", {
+      import_id: record.status.id,
+    });
+  }
+  if (record.status.status === "failed" || !record.source || !record.mapping) {
+    throw new ApiError(409, "IMPORT_FAILED", "Import failed; upload the file again", { import_id: record.status.id });
+  }
+  return { source: record.source, mapping: record.mapping };
+}
+
+async function updateImport(
+  supabase: SupabaseClient,
+  importId: UUID,
+  patch: TablesUpdate<"guest_imports">
+): Promise<GuestImportStatusDTO> {
+  const { data, error } = await supabase
+    .from("guest_imports")
+    .update(patch)
+    .eq("id", importId)
+    .select(STATUS_COLUMNS)
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+export async function uploadGuestImport(
+  supabase: SupabaseClient,
+  userId: UUID,
+  eventId: UUID,
+  input: UploadGuestImportInput
+): Promise<UploadGuestImportResultDTO> {
+  const { plan_data } = await getEventPlanState(supabase, eventId);
+  if (input.previous_import_id) {
+    // Only imports of the same event can be replaced; loadImport raises 404 otherwise.
+    await loadImport(supabase, eventId, input.previous_import_id);
+  }
+
+  const { data: consent, error: consentError } = await supabase
+    .from("import_consent")
+    .insert({ event_id: eventId, user_id: userId, consent_text: input.consent_text, ip: input.ip })
+    .select("id")
+    .single();
+  if (consentError) {
+    throw consentError;
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from("guest_imports")
+    .insert({
+      event_id: eventId,
+      user_id: userId,
+      consent_id: consent.id,
+      previous_import_id: input.previous_import_id ?? null,
+      original_filename: input.file.name || null,
+      status: "started",
+      audit_trail: appendAudit(
+        null,
+        auditEntry(userId, "uploaded", {
+          filename: input.file.name,
+          size: input.file.size,
+          ...(input.previous_import_id ? { previous_import_id: input.previous_import_id } : {}),
+        })
+      ),
+    })
+    .select("id, audit_trail")
+    .single();
+  if (createError) {
+    throw createError;
+  }
+  await recordAuditEntries(supabase, eventId, [
+    { action_type: "import_started", details: { import_id: created.id, filename: input.file.name } },
+  ]);
+
+  let sheet: ImportSheet;
+  try {
+    sheet = await readImportWorkbook(await input.file.arrayBuffer());
+  } catch (error) {
+    if (!(error instanceof ImportError)) {
+      throw error;
+    }
+    await updateImport(supabase, created.id, {
+      status: "failed",
+      completed_at: new Date().toISOString(),
+      audit_trail: appendAudit(created.audit_trail, auditEntry(userId, "failed", { code: error.code })),
+    });
+    throw new ImportError(error.code, error.message, { ...error.details, import_id: created.id });
+  }
+
+  const mapping = detectColumnMapping(sheet.headers);
+  const validated = validateImport(sheet, mapping, plan_data.guests);
+  const groups = duplicateGroups(validated, created.audit_trail);
+  const status = statusFor(validated, groups);
+  await updateImport(supabase, created.id, {
+    source: sheet as unknown as Json,
+    column_mapping: mapping as unknown as Json,
+    status,
+    ...validationSummary(validated),
+    audit_trail: appendAudit(
+      created.audit_trail,
+      auditEntry(userId, "validated", {
+        ...validationSummary(validated),
+        mapping,
+        duplicate_groups: duplicateSummary(groups),
+      })
+    ),
+  });
+  return { import_id: created.id, status };
+}
+
+export async function getGuestImport(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  importId: UUID
+): Promise<GuestImportStatusDTO> {
+  return (await loadImport(supabase, eventId, importId)).status;
+}
+
+export async function getImportPreview(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  importId: UUID,
+  limit: number = DEFAULT_PREVIEW_ROWS
+): Promise<ImportPreviewDTO> {
+  const record = await loadImport(supabase, eventId, importId);
+  const { source, mapping } = requireOpenImport(record);
+  const { plan_data } = await getEventPlanState(supabase, eventId);
+  const validated = validateImport(source, mapping, plan_data.guests);
+  return buildPreview(
+    record.status,
+    source,
+    mapping,
+    validated,
+    duplicateGroups(validated, record.status.audit_trail),
+    limit
+  );
+}
+
+export async function updateImportMapping(
+  supabase: SupabaseClient,
+  userId: UUID,
+  eventId: UUID,
+  importId: UUID,
+  command: UpdateImportMappingCommand,
+  limit: number = DEFAULT_PREVIEW_ROWS
+): Promise<ImportPreviewDTO> {
+  const record = await loadImport(supabase, eventId, importId);
+  const { source, mapping: current } = requireOpenImport(record);
+  const mapping = applyMappingOverride(current, command.mapping, source.headers.length);
+  const { plan_data } = await getEventPlanState(supabase, eventId);
+  const validated = validateImport(source, mapping, plan_data.guests);
+  const groups = duplicateGroups(validated, record.status.audit_trail);
+
+  const status = await updateImport(supabase, importId, {
+    column_mapping: mapping as unknown as Json,
+    status: statusFor(validated, groups),
+    ...validationSummary(validated),
+    audit_trail: appendAudit(
+      record.status.audit_trail,
+      auditEntry(userId, "mapping_updated", { mapping }),
+      auditEntry(userId, "validated", { ...validationSummary(validated), duplicate_groups: duplicateSummary(groups) })
+    ),
+  });
+  return buildPreview(status, source, mapping, validated, groups, limit);
+}
+
+/**
+ * Builds the downloadable error report for an open import. Row errors do not depend on the
+ * plan, so the sheet is revalidated without existing guests.
+ */
+export async function getImportErrorReport(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  importId: UUID,
+  format: ImportErrorReportFormat,
+  options: { only_errors: boolean }
+): Promise<ImportErrorReport> {
+  const record = await loadImport(supabase, eventId, importId);
+  const { source, mapping } = requireOpenImport(record);
+  const { errors } = validateImport(source, mapping, []);
+  // Header-safe name derived from the uploaded file.
+  const original = (record.original_filename ?? "guest-import").replace(/\.xlsx$/i, "");
+  const basename = `${original.replace(/[^\w.-]+/g, "_").slice(0, 100)}-errors`;
+  if (format === "csv") {
+    return {
+      filename: `${basename}.csv`,
+      content_type: CSV_CONTENT_TYPE,
+      body: buildErrorReportCsv(source, errors, options),
+    };
+  }
+  return {
+    filename: `${basename}.xlsx`,
+    content_type: XLSX_CONTENT_TYPE,
+    body: await buildErrorReportXlsx(source, mapping, errors, options),
+  };
+}
+
+/**
+ * Records decisions for duplicate groups, one "duplicate_resolved" audit entry each. A later
+ * decision for the same group replaces the earlier one; decisions only apply while the group's
+ * membership is unchanged.
+ */
+export async function resolveDuplicates(
+  supabase: SupabaseClient,
+  userId: UUID,
+  eventId: UUID,
+  importId: UUID,
+  command: ResolveDuplicatesCommand,
+  limit: number = DEFAULT_PREVIEW_ROWS
+): Promise<ImportPreviewDTO> {
+  const record = await loadImport(supabase, eventId, importId);
+  const { source, mapping } = requireOpenImport(record);
+  const { plan_data } = await getEventPlanState(supabase, eventId);
+  const validated = validateImport(source, mapping, plan_data.guests);
+  const current = new Map(
+    duplicateGroups(validated, record.status.audit_trail).map((group) => [group.group_id, group])
+  );
+
+  const entries = command.decisions.map((decision) => {
+    const group = current.get(decision.group_id);
+    checkDecision(group, decision);
+    const recorded =
+      decision.action === "merge" ? { ...decision, keep_id: decision.keep_id ?? group?.suggested_keep_id } : decision;
+    return auditEntry(userId, "duplicate_resolved", {
+      decision: recorded,
+      member_ids: group?.members.map((member) => member.id),
+      confidence: group?.confidence,
+    });
+  });
+  const trail = appendAudit(record.status.audit_trail, ...entries);
+  const groups = duplicateGroups(validated, trail);
+
+  const status = await updateImport(supabase, importId, {
+    status: statusFor(validated, groups),
+    ...validationSummary(validated),
+    audit_trail: trail,
+  });
+  return buildPreview(status, source, mapping, validated, groups, limit);
+}
+
+/**
+ * Applies the import to plan_data. The sheet is revalidated against the current plan first, so
+ * guests added since the preview still count towards duplicates. Duplicate groups are merged
+ * per their decisions (undecided unambiguous groups into the suggested member). Creates an
+ * automatic snapshot once the plan is saved and drops the stored sheet.
+ */
+export async function finalizeGuestImport(
+  supabase: SupabaseClient,
+  userId: UUID,
+  eventId: UUID,
+  importId: UUID
+): Promise<FinalizeImportResultDTO> {
+  const record = await loadImport(supabase, eventId, importId);
+  const { source, mapping } = requireOpenImport(record);
+  const state = await getEventPlanState(supabase, eventId);
+  const validated = validateImport(source, mapping, state.plan_data.guests);
+  const groups = duplicateGroups(validated, record.status.audit_trail);
+  if (statusFor(validated, groups) !== "validated") {
+    throw new ApiError(409, "IMPORT_NOT_VALIDATED", "Import has unresolved validation errors or duplicates", {
+      import_id: importId,
+      error_count: validated.error_count,
+      unresolved_group_ids: unresolvedGroupIds(groups),
+    });
+  }
+
+  const confidence = new Map(groups.map((group) => [group.group_id, group.confidence]));
+  const merges = plannedMerges(groups);
+  const imported = mergeDuplicates(
+    buildImportedGuests(validated.rows, () => crypto.randomUUID()),
+    merges
+  );
+  const result = buildImportOps(state.plan_data, imported);
+  const ops = stampSeatSeeds(result.ops);
+  const { plan_data } = applyPlanOps(state.plan_data, ops, { grid: state.grid });
+  const autosaveVersion = await savePlanData(supabase, eventId, plan_data, state.autosave_version);
+
+  const outcome = {
+    guests_added: imported.guests.length,
+    merged_rows: merges.reduce((total, merge) => total + merge.row_numbers.length, 0),
+    seated: result.seated,
+    unseated_guest_ids: result.unseated_guest_ids,
+  };
+  await recordAuditEntries(supabase, eventId, [
+    ...planAuditEntries(state.plan_data, ops, { grid: state.grid, source: "guest_import" }),
+    {
+      action_type: "import_completed",
+      details: { import_id: importId, ...outcome, autosave_version: autosaveVersion },
+    },
+  ]);
+  const status = await updateImport(supabase, importId, {
+    status: "completed",
+    completed_at: new Date().toISOString(),
+    source: null,
+    ...validationSummary(validated),
+    audit_trail: appendAudit(
+      record.status.audit_trail,
+      ...merges
+        .filter((merge) => !merge.decided)
+        .map(({ group_id, keep_id, row_numbers }) =>
+          auditEntry(userId, "duplicate_auto_merged", {
+            group_id,
+            keep_id,
+            row_numbers,
+            confidence: confidence.get(group_id),
+          })
+        ),
+      auditEntry(userId, "completed", { ...outcome, seed: result.seed, autosave_version: autosaveVersion })
+    ),
+  });
+
+  let snapshotId: UUID | null = null;
+  try {
+    const label = record.original_filename ? `Guest import: ${record.original_filename}` : "Guest import";
+    snapshotId = (await createSnapshot(supabase, eventId, { label: label.slice(0, 150) }, false)).id;
+  } catch (error) {
+    // The import is already applied; a missing snapshot must not fail the request.
+    // eslint-disable-next-line no-console
+    console.error("Post-import snapshot failed:", error);
+  }
+
+  return { import: status, ...outcome, autosave_version: autosaveVersion, snapshot_id: snapshotId };
+}
+
+function buildPreview(
+  status: GuestImportStatusDTO,
+  source: ImportSheet,
+  mapping: ImportColumnMappingDTO,
+  validated: ValidatedImport,
+  groups: DuplicateGroupDTO[],
+  limit: number
+): ImportPreviewDTO {
+  return {
+    import: status,
+    sheet_name: source.sheet_name,
+    columns: describeColumns(source.headers, mapping),
+    mapping,
+    rows: previewRows(source, mapping, validated, limit),
+    errors: validated.errors,
+    duplicate_groups: groups,
+    unresolved_group_ids: unresolvedGroupIds(groups),
+  };
+}
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { UUID } from "../../types";
+import { rateLimitError } from "../api/api-error";
+import { matchRateLimitPolicy, type RateLimitPolicy } from "../rate-limits/rate-limit-policies";
+import type { RateLimitStore } from "../rate-limits/rate-limit-store";
+
+// Applies the per-route rate limit policies (see rate-limit-policies.ts) to an incoming API request.
+
+export const DEFAULT_EXPORTS_DAILY = 10; // admin_flags.rate_limit_exports_daily default, for users without a row
+
+export interface RateLimitRequest {
+  method: string;
+  pathname: string;
+  userId: () => Promise<UUID | null>; // Resolved only when a policy counts per user
+  clientIp: () => string; // Read only when a policy needs it
+}
+
+/**
+ * Counts the request against the policy matching its route and throws 429 RATE_LIMIT_EXCEEDED
+ * (with Retry-After) once the limit is reached. Rejected requests are not counted. Per-user
+ * limits are read with the service-role client, created only when a policy needs one.
+ */
+export async function enforceRateLimit(
+  adminClient: () => SupabaseClient,
+  store: RateLimitStore,
+  request: RateLimitRequest,
+  now = Date.now()
+): Promise<void> {
+  const match = matchRateLimitPolicy(request.method, request.pathname);
+  if (!match) {
+    return;
+  }
+  const { policy, pathKey } = match;
+  const userId = policy.subjects.includes("user") ? await request.userId() : null;
+  const limit = policy.limit === "exports_daily" ? await exportsDailyLimit(adminClient, userId) : policy.limit;
+  const subjects = policy.subjects.map((subject) => {
+    switch (subject) {
+      case "user":
+        return userId ? `user:${userId}` : `ip:${request.clientIp()}`;
+      case "ip":
+        return `ip:${request.clientIp()}`;
+      case "path":
+        return `path:${pathKey ?? ""}`;
+    }
+  });
+  const hit = await store.hit(`${policy.name}|${subjects.join("|")}`, limit, policy.windowMs, now);
+  if (!hit.allowed) {
+    throw rateLimitError(hit.retryAfter, rejectionMessage(policy), {
+      policy: policy.name,
+      limit,
+      window_seconds: policy.windowMs / 1000,
+    });
+  }
+}
+
+async function exportsDailyLimit(adminClient: () => SupabaseClient, userId: UUID | null): Promise<number> {
+  if (!userId) {
+    return DEFAULT_EXPORTS_DAILY;
+  }
+  const { data, error } = await adminClient()
+    .from("admin_flags")
+    .select("rate_limit_exports_daily")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data?.rate_limit_exports_daily ?? DEFAULT_EXPORTS_DAILY;
+}
+
+function rejectionMessage(policy: RateLimitPolicy): string {
+  return policy.limit === "exports_daily"
+    ? "Daily export limit reached; try again later"
+    : "Too many requests; try again later";
+}
@@ -0,0 +1,521 @@
+import { randomBytes } from "node:crypto";
+
+import type { Tables, TablesUpdate } from "../../db/database.types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AccessLogKind,
+  CreateShareLinkCommand,
+  PublicEventViewDTO,
+  PublishedVersionDTO,
+  PublishShareLinkCommand,
+  PublishShareLinkResultDTO,
+  RedactionPolicyDTO,
+  SeatLookupCommand,
+  SeatLookupResultDTO,
+  ShareLinkAuthCommand,
+  ShareLinkAuthResultDTO,
+  ShareLinkDTO,
+  ShareLinkQrQuery,
+  UpdateShareLinkCommand,
+  UUID,
+} from "../../types";
+import { ApiError, rateLimitError } from "../api/api-error";
+import { planDataFromJson } from "../plan/plan-utils";
+import { policyExposesPii, toPublicPlanData } from "../plan/public-plan";
+import {
+  issueShareAccessToken,
+  readShareAccessToken,
+  SHARE_ACCESS_TOKEN_TTL_SECONDS,
+} from "../share-links/access-token";
+import { hashSharePassword, passwordFingerprint, verifySharePassword } from "../share-links/password-hash";
+import { encodeQr, QR_PNG_CONTENT_TYPE, QR_SVG_CONTENT_TYPE, qrCodePng, qrCodeSvg } from "../share-links/qr-code";
+import { findSeats } from "../share-links/seat-lookup";
+import { seatLookupThrottle, shareAuthThrottle } from "../share-links/throttle";
+import { recordShareAccess, type ShareAccessEntry } from "./access-log.service";
+import { recordAuditEntries } from "./audit-log.service";
+import { createSnapshot, getSnapshot } from "./snapshot.service";
+
+// Share links (FR-040..FR-042). Owner endpoints run with the caller's client under RLS; the
+// public endpoints take the service-role client, since anon has no access to share_links, and
+// only ever look a link up by its token.
+
+const SHARE_LINK_COLUMNS =
+  "id, event_id, token, password_hash, expires_at, include_pii, revoked_at, created_at, created_by, last_accessed_at, source, snapshot_id, guest_names, show_tags, show_rsvp, auto_revoke_on_anomaly";
+
+type ShareLinkRow = Pick<
+  Tables<"share_links">,
+  | "id"
+  | "event_id"
+  | "token"
+  | "password_hash"
+  | "expires_at"
+  | "include_pii"
+  | "revoked_at"
+  | "created_at"
+  | "created_by"
+  | "last_accessed_at"
+  | "source"
+  | "snapshot_id"
+  | "guest_names"
+  | "show_tags"
+  | "show_rsvp"
+  | "auto_revoke_on_anomaly"
+>;
+
+type SharedEventRow = Pick<
+  Tables<"events">,
+  "id" | "name" | "event_date" | "grid_rows" | "grid_cols" | "plan_data" | "updated_at"
+>;
+
+// Request details of a public share link call, used for access checks and access_logs.
+export interface PublicAccessContext {
+  authorization: string | null;
+  client_ip: string;
+  user_agent: string | null;
+}
+
+export interface PublicViewOptions extends PublicAccessContext {
+  pii: boolean; // Viewer opt-out of notes; cannot show more than the link's policy
+}
+
+export interface ShareLinkQrImage {
+  content_type: string;
+  body: Uint8Array | string;
+}
+
+function shareUrl(origin: string, token: string): string {
+  return `${origin}/share/${token}`;
+}
+
+function toShareLinkDTO({ password_hash, ...row }: ShareLinkRow, origin: string): ShareLinkDTO {
+  return { ...row, password_protected: password_hash !== null, url: shareUrl(origin, row.token) };
+}
+
+// Link settings as recorded in audit_log details; the token and password hash never are.
+function auditedSettings(row: ShareLinkRow): Record<string, unknown> {
+  return {
+    password_protected: row.password_hash !== null,
+    expires_at: row.expires_at,
+    include_pii: row.include_pii,
+    guest_names: row.guest_names,
+    show_tags: row.show_tags,
+    show_rsvp: row.show_rsvp,
+    auto_revoke_on_anomaly: row.auto_revoke_on_anomaly,
+    source: row.source,
+    snapshot_id: row.snapshot_id,
+  };
+}
+
+function changedSettings(before: ShareLinkRow, after: ShareLinkRow): Record<string, unknown> {
+  const previous = auditedSettings(before);
+  const next = auditedSettings(after);
+  const keys = Object.keys(next).filter((key) => previous[key] !== next[key]);
+  return {
+    before: Object.fromEntries(keys.map((key) => [key, previous[key]])),
+    after: Object.fromEntries(keys.map((key) => [key, next[key]])),
+  };
+}
+
+function newShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+async function requireEvent(supabase: SupabaseClient, eventId: UUID): Promise<void> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("id")
+    .eq("id", eventId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "EVENT_NOT_FOUND", "Event not found", { event_id: eventId });
+  }
+}
+
+export async function createShareLink(
+  supabase: SupabaseClient,
+  userId: UUID,
+  eventId: UUID,
+  command: CreateShareLinkCommand,
+  origin: string
+): Promise<ShareLinkDTO> {
+  await requireEvent(supabase, eventId);
+  if (command.snapshot_id) {
+    await getSnapshot(supabase, eventId, command.snapshot_id);
+  }
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert({
+      event_id: eventId,
+      created_by: userId,
+      token: newShareToken(),
+      password_hash: command.password ? await hashSharePassword(command.password) : null,
+      expires_at: command.expires_at ?? null,
+      include_pii: command.include_pii ?? false,
+      guest_names: command.guest_names ?? "full",
+      show_tags: command.show_tags ?? true,
+      show_rsvp: command.show_rsvp ?? true,
+      auto_revoke_on_anomaly: command.auto_revoke_on_anomaly ?? false,
+      source: command.source ?? "live",
+      snapshot_id: command.snapshot_id ?? null,
+    })
+    .select(SHARE_LINK_COLUMNS)
+    .single();
+  if (error) {
+    throw error;
+  }
+  await recordAuditEntries(supabase, eventId, [
+    {
+      action_type: "share_link_created",
+      details: { share_link_id: data.id, before: null, after: auditedSettings(data) },
+    },
+  ]);
+  return toShareLinkDTO(data, origin);
+}
+
+/**
+ * Applies a PATCH. A new password replaces the hash and an empty one removes protection;
+ * either way access tokens issued for the old password stop working.
+ */
+export async function updateShareLink(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  shareLinkId: UUID,
+  command: UpdateShareLinkCommand,
+  origin: string
+): Promise<ShareLinkDTO> {
+  const current = await requireActiveShareLink(supabase, eventId, shareLinkId);
+  if (command.snapshot_id) {
+    await getSnapshot(supabase, eventId, command.snapshot_id);
+  }
+
+  const update: TablesUpdate<"share_links"> = {};
+  if (command.password !== undefined) {
+    update.password_hash = command.password === "" ? null : await hashSharePassword(command.password);
+  }
+  if (command.expires_at !== undefined) {
+    update.expires_at = command.expires_at;
+  }
+  if (command.include_pii !== undefined) {
+    update.include_pii = command.include_pii;
+  }
+  if (command.guest_names !== undefined) {
+    update.guest_names = command.guest_names;
+  }
+  if (command.show_tags !== undefined) {
+    update.show_tags = command.show_tags;
+  }
+  if (command.show_rsvp !== undefined) {
+    update.show_rsvp = command.show_rsvp;
+  }
+  if (command.auto_revoke_on_anomaly !== undefined) {
+    update.auto_revoke_on_anomaly = command.auto_revoke_on_anomaly;
+  }
+  if (command.source !== undefined) {
+    update.source = command.source;
+    update.snapshot_id = command.source === "snapshot" ? command.snapshot_id : null;
+  }
+  const link = await writeShareLink(supabase, eventId, shareLinkId, update);
+  await recordAuditEntries(supabase, eventId, [
+    {
+      action_type: "share_link_updated",
+      details: {
+        share_link_id: shareLinkId,
+        ...changedSettings(current, link),
+        // A replaced password leaves password_protected unchanged
+        ...(command.password ? { password_changed: true } : {}),
+      },
+    },
+  ]);
+  return toShareLinkDTO(link, origin);
+}
+
+/** Captures the live plan as a manual snapshot and pins the link to it. */
+export async function publishShareLink(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  shareLinkId: UUID,
+  command: PublishShareLinkCommand,
+  origin: string
+): Promise<PublishShareLinkResultDTO> {
+  const current = await requireActiveShareLink(supabase, eventId, shareLinkId);
+  const snapshot = await createSnapshot(supabase, eventId, { label: command.label }, true);
+  const link = await writeShareLink(supabase, eventId, shareLinkId, { source: "snapshot", snapshot_id: snapshot.id });
+  await recordAuditEntries(supabase, eventId, [
+    {
+      action_type: "share_link_published",
+      details: {
+        share_link_id: shareLinkId,
+        before: { source: current.source, snapshot_id: current.snapshot_id },
+        after: { source: link.source, snapshot_id: link.snapshot_id },
+      },
+    },
+  ]);
+  return { share_link: toShareLinkDTO(link, origin), snapshot };
+}
+
+/**
+ * QR code of the link's public URL, or of its "find my seat" page, for printing at the venue.
+ * Revoked links get no code (410).
+ */
+export async function renderShareLinkQr(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  shareLinkId: UUID,
+  query: ShareLinkQrQuery,
+  origin: string
+): Promise<ShareLinkQrImage> {
+  const { token } = await requireActiveShareLink(supabase, eventId, shareLinkId);
+  const url = shareUrl(origin, token);
+  const qr = encodeQr(query.target === "seat_lookup" ? `${url}/seat` : url);
+  return query.format === "png"
+    ? { content_type: QR_PNG_CONTENT_TYPE, body: qrCodePng(qr, query.size) }
+    : { content_type: QR_SVG_CONTENT_TYPE, body: qrCodeSvg(qr, query.size) };
+}
+
+async function requireActiveShareLink(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  shareLinkId: UUID
+): Promise<ShareLinkRow> {
+  const { data, error } = await supabase
+    .from("share_links")
+    .select(SHARE_LINK_COLUMNS)
+    .eq("event_id", eventId)
+    .eq("id", shareLinkId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "SHARE_LINK_NOT_FOUND", "Share link not found", { share_link_id: shareLinkId });
+  }
+  if (data.revoked_at) {
+    throw new ApiError(410, "SHARE_LINK_REVOKED", "Share link has been revoked", { share_link_id: shareLinkId });
+  }
+  return data;
+}
+
+async function writeShareLink(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  shareLinkId: UUID,
+  update: TablesUpdate<"share_links">
+): Promise<ShareLinkRow> {
+  const { data, error } = await supabase
+    .from("share_links")
+    .update(update)
+    .eq("event_id", eventId)
+    .eq("id", shareLinkId)
+    .select(SHARE_LINK_COLUMNS)
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+// --------------------------------------------------------
+// Public access
+// --------------------------------------------------------
+
+/** Live link for a public token; revoked and expired links are gone (410). */
+export async function loadPublicShareLink(
+  admin: SupabaseClient,
+  token: string,
+  now = new Date()
+): Promise<ShareLinkRow> {
+  const { data, error } = await admin.from("share_links").select(SHARE_LINK_COLUMNS).eq("token", token).maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "SHARE_LINK_NOT_FOUND", "Share link not found");
+  }
+  if (data.revoked_at) {
+    throw new ApiError(410, "SHARE_LINK_REVOKED", "Share link has been revoked");
+  }
+  if (data.expires_at && Date.parse(data.expires_at) <= now.getTime()) {
+    throw new ApiError(410, "SHARE_LINK_EXPIRED", "Share link has expired");
+  }
+  return data;
+}
+
+/**
+ * POST /api/public/events/{token}/auth. Failed attempts are throttled per link and client IP
+ * before the (deliberately slow) hash is checked, so guessing is capped either way.
+ */
+export async function authenticateShareLink(
+  admin: SupabaseClient,
+  token: string,
+  command: ShareLinkAuthCommand,
+  clientIp: string
+): Promise<ShareLinkAuthResultDTO> {
+  const link = await loadPublicShareLink(admin, token);
+  if (!link.password_hash) {
+    throw new ApiError(400, "SHARE_LINK_NOT_PROTECTED", "Share link does not require a password");
+  }
+  const retryAfter = shareAuthThrottle.retryAfter(link.id, clientIp);
+  if (retryAfter > 0) {
+    throw rateLimitError(retryAfter, "Too many failed attempts; try again later");
+  }
+  if (!(await verifySharePassword(command.password, link.password_hash))) {
+    shareAuthThrottle.record(link.id, clientIp);
+    throw new ApiError(401, "PASSWORD_INVALID", "Password is incorrect");
+  }
+  shareAuthThrottle.clear(link.id, clientIp);
+  await recordAuditEntries(admin, link.event_id, [{ action_type: "share_link_authenticated", details: {} }], link.id);
+  return {
+    access_token: issueShareAccessToken({
+      sub: link.id,
+      share_event_id: link.event_id,
+      pwd: passwordFingerprint(link.password_hash),
+    }),
+    expires_in: SHARE_ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Gate for public reads of a password-protected link: the bearer token must have been issued
+ * for this link under its current password.
+ */
+export function requireShareAccess(
+  link: Pick<ShareLinkRow, "id" | "password_hash">,
+  authorization: string | null
+): void {
+  if (!link.password_hash) {
+    return;
+  }
+  const token = authorization?.replace(/^Bearer\s+/i, "");
+  const claims = token ? readShareAccessToken(token) : undefined;
+  if (!claims || claims.sub !== link.id || claims.pwd !== passwordFingerprint(link.password_hash)) {
+    throw new ApiError(401, "PASSWORD_REQUIRED", "Share link requires a password");
+  }
+}
+
+/**
+ * GET /api/public/events/{token}: the event as the link publishes it — live plan, pinned
+ * snapshot or newest manual snapshot — redacted per the link's policy, with the version shown
+ * to the viewer.
+ */
+export async function getPublicEventView(
+  admin: SupabaseClient,
+  token: string,
+  options: PublicViewOptions
+): Promise<PublicEventViewDTO> {
+  const link = await loadPublicShareLink(admin, token);
+  requireShareAccess(link, options.authorization);
+
+  const event = await loadSharedEvent(admin, link);
+  const published = await publishedPlan(admin, link, event);
+  const redaction = redactionPolicy(link, options.pii);
+  await recordShareAccess(admin, accessEntry(link, "view", policyExposesPii(redaction), options));
+
+  return {
+    id: event.id,
+    name: event.name,
+    event_date: event.event_date,
+    grid: { rows: event.grid_rows, cols: event.grid_cols },
+    plan_data: toPublicPlanData(planDataFromJson(published.plan_data), redaction),
+    version: published.version,
+    redaction,
+  };
+}
+
+function accessEntry(
+  link: ShareLinkRow,
+  kind: AccessLogKind,
+  piiExposed: boolean,
+  context: PublicAccessContext
+): ShareAccessEntry {
+  return {
+    share_link_id: link.id,
+    event_id: link.event_id,
+    kind,
+    pii_exposed: piiExposed,
+    ip: context.client_ip,
+    user_agent: context.user_agent,
+  };
+}
+
+function redactionPolicy(link: ShareLinkRow, viewerPii: boolean): RedactionPolicyDTO {
+  return {
+    names: link.guest_names,
+    tags: link.show_tags,
+    rsvp: link.show_rsvp,
+    notes: link.include_pii && viewerPii,
+  };
+}
+
+/**
+ * POST /api/public/events/{token}/seat-lookup: table label and seat number for a guest name,
+ * searched in the plan the link publishes. Every lookup counts towards the per-IP throttle and
+ * is logged; notes are never part of the answer, whatever the link's include_pii.
+ */
+export async function lookupSeat(
+  admin: SupabaseClient,
+  token: string,
+  command: SeatLookupCommand,
+  context: PublicAccessContext
+): Promise<SeatLookupResultDTO> {
+  const link = await loadPublicShareLink(admin, token);
+  requireShareAccess(link, context.authorization);
+  const retryAfter = seatLookupThrottle.retryAfter(link.id, context.client_ip);
+  if (retryAfter > 0) {
+    throw rateLimitError(retryAfter, "Too many lookups; try again later");
+  }
+  seatLookupThrottle.record(link.id, context.client_ip);
+
+  const event = await loadSharedEvent(admin, link);
+  const published = await publishedPlan(admin, link, event);
+  await recordShareAccess(admin, accessEntry(link, "seat_lookup", false, context));
+  return { matches: findSeats(planDataFromJson(published.plan_data), command.name) };
+}
+
+async function loadSharedEvent(admin: SupabaseClient, link: ShareLinkRow): Promise<SharedEventRow> {
+  const { data, error } = await admin
+    .from("events")
+    .select("id, name, event_date, grid_rows, grid_cols, plan_data, updated_at")
+    .eq("id", link.event_id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "SHARE_LINK_NOT_FOUND", "Share link not found");
+  }
+  return data;
+}
+
+async function publishedPlan(
+  admin: SupabaseClient,
+  link: ShareLinkRow,
+  event: SharedEventRow
+): Promise<{ plan_data: Tables<"events">["plan_data"]; version: PublishedVersionDTO }> {
+  if (link.source === "live") {
+    return {
+      plan_data: event.plan_data,
+      version: { source: "live", snapshot_id: null, label: null, published_at: event.updated_at },
+    };
+  }
+  let query = admin.from("snapshots").select("id, label, created_at, plan_data").eq("event_id", link.event_id);
+  query =
+    link.source === "snapshot"
+      ? query.eq("id", link.snapshot_id as string)
+      : query.eq("is_manual", true).order("created_at", { ascending: false }).limit(1);
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "SHARE_LINK_NOT_PUBLISHED", "Nothing has been published on this share link yet");
+  }
+  return {
+    plan_data: data.plan_data,
+    version: { source: link.source, snapshot_id: data.id, label: data.label, published_at: data.created_at },
+  };
+}
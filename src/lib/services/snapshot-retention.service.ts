@@ -0,0 +1,56 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json } from "../../db/database.types";
+import type { PruneSnapshotsCommand, SnapshotPruneReportDTO } from "../../types";
+import { diffPlans, summarizeDiff } from "../plan/plan-diff";
+import { planDataFromJson } from "../plan/plan-utils";
+
+export const AUTO_SNAPSHOT_RETENTION_DAYS = 30;
+
+/**
+ * Deletes automatic snapshots past retention (see prune_expired_snapshots()). Runs with the
+ * service-role client. After a real prune, relinked snapshots get their diff_summary
+ * recomputed against their new previous snapshot.
+ */
+export async function pruneSnapshots(
+  admin: SupabaseClient,
+  command: PruneSnapshotsCommand
+): Promise<SnapshotPruneReportDTO> {
+  const { data, error } = await admin.rpc("prune_expired_snapshots", {
+    p_dry_run: command.dry_run ?? true,
+    p_retention: `${command.retention_days ?? AUTO_SNAPSHOT_RETENTION_DAYS} days`,
+    ...(command.event_id ? { p_event_id: command.event_id } : {}),
+  });
+  if (error) {
+    throw error;
+  }
+  const report = data as unknown as SnapshotPruneReportDTO;
+  if (!report.dry_run) {
+    for (const link of report.relinked) {
+      if (link.new_previous_snapshot_id) {
+        await refreshDiffSummary(admin, link.snapshot_id, link.new_previous_snapshot_id);
+      }
+    }
+  }
+  return report;
+}
+
+async function refreshDiffSummary(admin: SupabaseClient, snapshotId: string, previousId: string): Promise<void> {
+  const { data, error } = await admin.from("snapshots").select("id, plan_data").in("id", [snapshotId, previousId]);
+  if (error) {
+    throw error;
+  }
+  const snapshot = data.find((row) => row.id === snapshotId);
+  const previous = data.find((row) => row.id === previousId);
+  if (!snapshot || !previous) {
+    return;
+  }
+
+  const summary = summarizeDiff(diffPlans(planDataFromJson(previous.plan_data), planDataFromJson(snapshot.plan_data)));
+  const { error: updateError } = await admin
+    .from("snapshots")
+    .update({ diff_summary: summary as unknown as Json })
+    .eq("id", snapshotId);
+  if (updateError) {
+    throw updateError;
+  }
+}
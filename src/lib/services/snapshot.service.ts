@@ -0,0 +1,179 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json, Tables } from "../../db/database.types";
+import type {
+  CreateSnapshotCommand,
+  PaginatedDTO,
+  PlanDataDTO,
+  PlanDiffSummaryDTO,
+  SnapshotDiffDTO,
+  SnapshotDTO,
+  UUID,
+} from "../../types";
+import { ApiError } from "../api/api-error";
+import { decodeCursor, encodeCursor, keysetFilter } from "../api/cursor";
+import { diffPlans, summarizeDiff } from "../plan/plan-diff";
+import { planDataFromJson } from "../plan/plan-utils";
+import { getEventPlanState } from "./event-plan.service";
+
+const SNAPSHOT_COLUMNS = "id, event_id, created_at, created_by, is_manual, label, previous_snapshot_id, diff_summary";
+
+type SnapshotRow = Pick<
+  Tables<"snapshots">,
+  "id" | "event_id" | "created_at" | "created_by" | "is_manual" | "label" | "previous_snapshot_id" | "diff_summary"
+>;
+
+export interface ListSnapshotsOptions {
+  limit: number;
+  cursor?: string;
+  manual_only?: boolean;
+}
+
+function toSnapshotDTO(row: SnapshotRow): SnapshotDTO {
+  return { ...row, diff_summary: row.diff_summary as unknown as PlanDiffSummaryDTO | null };
+}
+
+// create_snapshot() reports the cap as a JSON object in the exception detail.
+function parseErrorDetails(details: string | null): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = details ? JSON.parse(details) : undefined;
+    return value && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function getSnapshotPlan(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  snapshotId: UUID
+): Promise<{ plan_data: PlanDataDTO; created_at: string }> {
+  const { data, error } = await supabase
+    .from("snapshots")
+    .select("plan_data, created_at")
+    .eq("event_id", eventId)
+    .eq("id", snapshotId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "SNAPSHOT_NOT_FOUND", "Snapshot not found", { snapshot_id: snapshotId });
+  }
+  return { plan_data: planDataFromJson(data.plan_data), created_at: data.created_at };
+}
+
+export async function getSnapshot(supabase: SupabaseClient, eventId: UUID, snapshotId: UUID): Promise<SnapshotDTO> {
+  const { data, error } = await supabase
+    .from("snapshots")
+    .select(SNAPSHOT_COLUMNS)
+    .eq("event_id", eventId)
+    .eq("id", snapshotId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError(404, "SNAPSHOT_NOT_FOUND", "Snapshot not found", { snapshot_id: snapshotId });
+  }
+  return toSnapshotDTO(data);
+}
+
+/**
+ * Captures the event's current plan_data. The diff summary against the latest snapshot is
+ * computed here and handed to create_snapshot(), which discards it if a newer snapshot was
+ * written concurrently.
+ */
+export async function createSnapshot(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  command: CreateSnapshotCommand,
+  isManual: boolean
+): Promise<SnapshotDTO> {
+  const current = await getEventPlanState(supabase, eventId);
+  const { data: previous, error: previousError } = await supabase
+    .from("snapshots")
+    .select("id, plan_data")
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (previousError) {
+    throw previousError;
+  }
+
+  const summary = previous ? summarizeDiff(diffPlans(planDataFromJson(previous.plan_data), current.plan_data)) : null;
+  const { data: snapshotId, error } = await supabase.rpc("create_snapshot", {
+    p_event_id: eventId,
+    p_label: command.label,
+    p_is_manual: isManual,
+    ...(summary && previous ? { p_diff_summary: summary as unknown as Json, p_diff_base: previous.id } : {}),
+  });
+  if (error) {
+    if (error.message.includes("event not found")) {
+      throw new ApiError(404, "EVENT_NOT_FOUND", "Event not found", { event_id: eventId });
+    }
+    if (error.message.includes("manual snapshot limit reached")) {
+      throw new ApiError(
+        409,
+        "MANUAL_SNAPSHOT_LIMIT_REACHED",
+        "Manual snapshot limit reached for this event",
+        parseErrorDetails(error.details)
+      );
+    }
+    throw error;
+  }
+  return getSnapshot(supabase, eventId, snapshotId);
+}
+
+export async function listSnapshots(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  options: ListSnapshotsOptions
+): Promise<PaginatedDTO<SnapshotDTO>> {
+  let query = supabase
+    .from("snapshots")
+    .select(SNAPSHOT_COLUMNS)
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(options.limit + 1);
+  if (options.manual_only) {
+    query = query.eq("is_manual", true);
+  }
+  if (options.cursor) {
+    query = query.or(keysetFilter(decodeCursor(options.cursor)));
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+  const items = data.slice(0, options.limit).map(toSnapshotDTO);
+  const last = items.at(-1);
+  return { items, next_cursor: data.length > options.limit && last ? encodeCursor(last) : null };
+}
+
+/** Diff from a snapshot to another snapshot of the same event, or to the live plan. */
+export async function diffSnapshot(
+  supabase: SupabaseClient,
+  eventId: UUID,
+  snapshotId: UUID,
+  against: UUID | "live"
+): Promise<SnapshotDiffDTO> {
+  const from = await getSnapshotPlan(supabase, eventId, snapshotId);
+  if (against === "live") {
+    const live = await getEventPlanState(supabase, eventId);
+    return {
+      from: { snapshot_id: snapshotId, created_at: from.created_at },
+      to: { snapshot_id: null, created_at: live.updated_at },
+      diff: diffPlans(from.plan_data, live.plan_data),
+    };
+  }
+
+  const to = await getSnapshotPlan(supabase, eventId, against);
+  return {
+    from: { snapshot_id: snapshotId, created_at: from.created_at },
+    to: { snapshot_id: against, created_at: to.created_at },
+    diff: diffPlans(from.plan_data, to.plan_data),
+  };
+}
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { issueShareAccessToken, readShareAccessToken, SHARE_ACCESS_TOKEN_TTL_SECONDS } from "./access-token";
+
+const CLAIMS = { sub: "link-1", share_event_id: "event-1", pwd: "fingerprint" };
+const NOW = new Date("2025-11-01T10:00:00Z");
+
+function resign(token: string, payload: Record<string, unknown>): string {
+  const [header, , signature] = token.split(".");
+  return [header, Buffer.from(JSON.stringify(payload)).toString("base64url"), signature].join(".");
+}
+
+describe("share access tokens", () => {
+  beforeEach(() => {
+    vi.stubEnv("SHARE_TOKEN_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("round-trips the claims with scope and expiry", () => {
+    const claims = readShareAccessToken(issueShareAccessToken(CLAIMS, NOW), NOW);
+    expect(claims).toEqual({
+      ...CLAIMS,
+      scope: "share_view",
+      iat: NOW.getTime() / 1000,
+      exp: NOW.getTime() / 1000 + SHARE_ACCESS_TOKEN_TTL_SECONDS,
+    });
+  });
+
+  it("expires after the ttl", () => {
+    const token = issueShareAccessToken(CLAIMS, NOW);
+    const later = new Date(NOW.getTime() + SHARE_ACCESS_TOKEN_TTL_SECONDS * 1000);
+    expect(readShareAccessToken(token, later)).toBeUndefined();
+  });
+
+  it("rejects tampered payloads and signatures", () => {
+    const token = issueShareAccessToken(CLAIMS, NOW);
+    expect(readShareAccessToken(resign(token, { ...CLAIMS, sub: "link-2" }), NOW)).toBeUndefined();
+    expect(readShareAccessToken(`${token.slice(0, -2)}AA`, NOW)).toBeUndefined();
+    expect(readShareAccessToken("not.a.token", NOW)).toBeUndefined();
+    expect(readShareAccessToken("", NOW)).toBeUndefined();
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = issueShareAccessToken(CLAIMS, NOW);
+    vi.stubEnv("SHARE_TOKEN_SECRET", "rotated-secret");
+    expect(readShareAccessToken(token, NOW)).toBeUndefined();
+  });
+
+  it("refuses to sign without a configured secret", () => {
+    vi.stubEnv("SHARE_TOKEN_SECRET", "");
+    expect(() => issueShareAccessToken(CLAIMS, NOW)).toThrow("SHARE_TOKEN_SECRET is not configured");
+  });
+});
@@ -0,0 +1,71 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Scoped access tokens for password-protected share links: compact HS256 JWTs signed with
+// SHARE_TOKEN_SECRET. A token only opens the share link it was issued for, and only while the
+// link's password is unchanged (see passwordFingerprint).
+
+export const SHARE_ACCESS_TOKEN_TTL_SECONDS = 3600;
+export const SHARE_ACCESS_SCOPE = "share_view";
+
+export interface ShareAccessClaims {
+  sub: string; // Share link id
+  share_event_id: string;
+  pwd: string; // Password fingerprint at issue time
+  scope: typeof SHARE_ACCESS_SCOPE;
+  iat: number;
+  exp: number;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+
+function secret(): string {
+  const value = import.meta.env.SHARE_TOKEN_SECRET;
+  if (!value) {
+    throw new Error("SHARE_TOKEN_SECRET is not configured");
+  }
+  return value;
+}
+
+function sign(input: string): Buffer {
+  return createHmac("sha256", secret()).update(input).digest();
+}
+
+export function issueShareAccessToken(
+  claims: Pick<ShareAccessClaims, "sub" | "share_event_id" | "pwd">,
+  now: Date = new Date()
+): string {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload: ShareAccessClaims = {
+    ...claims,
+    scope: SHARE_ACCESS_SCOPE,
+    iat,
+    exp: iat + SHARE_ACCESS_TOKEN_TTL_SECONDS,
+  };
+  const body = `${HEADER}.${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+  return `${body}.${sign(body).toString("base64url")}`;
+}
+
+/** Claims of a well-signed, unexpired token; undefined otherwise. */
+export function readShareAccessToken(token: string, now: Date = new Date()): ShareAccessClaims | undefined {
+  const [header, payload, signature] = token.split(".");
+  if (header !== HEADER || !payload || !signature) {
+    return undefined;
+  }
+  const expected = sign(`${header}.${payload}`);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return undefined;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as ShareAccessClaims;
+    const valid =
+      claims.scope === SHARE_ACCESS_SCOPE &&
+      typeof claims.sub === "string" &&
+      typeof claims.pwd === "string" &&
+      typeof claims.exp === "number" &&
+      claims.exp > now.getTime() / 1000;
+    return valid ? claims : undefined;
+  } catch {
+    return undefined;
+  }
+}
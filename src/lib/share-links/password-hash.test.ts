@@ -0,0 +1,46 @@
+import { scryptSync } from "node:crypto";
+
+import { describe, expect, it } from "vitest";
+
+import { hashSharePassword, passwordFingerprint, verifySharePassword } from "./password-hash";
+
+describe("share password hashing", () => {
+  it("stores scrypt parameters and a fresh salt with every hash", async () => {
+    const [first, second] = await Promise.all([hashSharePassword("s3cret"), hashSharePassword("s3cret")]);
+    expect(first).toMatch(/^scrypt\$15\$8\$1\$[\w-]{22}\$[\w-]{43}$/);
+    expect(second).not.toBe(first);
+  });
+
+  it("verifies the right password only", async () => {
+    const stored = await hashSharePassword("s3cret");
+    expect(await verifySharePassword("s3cret", stored)).toBe(true);
+    expect(await verifySharePassword("s3cret ", stored)).toBe(false);
+    expect(await verifySharePassword("S3cret", stored)).toBe(false);
+  });
+
+  it("normalizes unicode before hashing", async () => {
+    const stored = await hashSharePassword("caf\u00e9");
+    expect(await verifySharePassword("cafe\u0301", stored)).toBe(true);
+  });
+
+  it("verifies with the parameters stored in the hash", async () => {
+    // Cheaper parameters than the current default, as an older hash would carry
+    const salt = Buffer.alloc(16, 7);
+    const key = scryptSync("s3cret", salt, 32, { N: 2 ** 10, r: 8, p: 1 });
+    const legacy = ["scrypt", 10, 8, 1, salt.toString("base64url"), key.toString("base64url")].join("$");
+    expect(await verifySharePassword("s3cret", legacy)).toBe(true);
+    expect(await verifySharePassword("other", legacy)).toBe(false);
+  });
+
+  it("rejects hashes in an unknown format", async () => {
+    expect(await verifySharePassword("s3cret", "")).toBe(false);
+    expect(await verifySharePassword("s3cret", "bcrypt$2b$10$abc")).toBe(false);
+  });
+
+  it("fingerprints change with every new hash", async () => {
+    const [first, second] = await Promise.all([hashSharePassword("s3cret"), hashSharePassword("s3cret")]);
+    expect(passwordFingerprint(first)).toHaveLength(16);
+    expect(passwordFingerprint(first)).toBe(passwordFingerprint(first));
+    expect(passwordFingerprint(second)).not.toBe(passwordFingerprint(first));
+  });
+});
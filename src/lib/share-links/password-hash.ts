@@ -0,0 +1,51 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto";
+
+// Share link passwords are stored as scrypt hashes:
+// "scrypt$<log2 N>$<r>$<p>$<salt base64url>$<hash base64url>". Parameters travel with the hash
+// so they can be raised later without invalidating existing links.
+
+const COST_LOG2 = 15; // N = 32768, ~100 ms per attempt
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const MAX_MEMORY = 64 * 1024 * 1024;
+
+function derive(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, { ...options, maxmem: MAX_MEMORY }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await derive(password, salt, { N: 2 ** COST_LOG2, r: BLOCK_SIZE, p: PARALLELISM });
+  return ["scrypt", COST_LOG2, BLOCK_SIZE, PARALLELISM, salt.toString("base64url"), key.toString("base64url")].join(
+    "$"
+  );
+}
+
+/** False for a wrong password and for hashes in an unknown format. */
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, costLog2, blockSize, parallelism, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64url");
+  const key = await derive(password, Buffer.from(salt, "base64url"), {
+    N: 2 ** Number(costLog2),
+    r: Number(blockSize),
+    p: Number(parallelism),
+  });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+/**
+ * Short fingerprint of the stored hash, embedded in access tokens. Every hash has a fresh
+ * salt, so rotating or removing the password changes it and earlier tokens stop verifying.
+ */
+export function passwordFingerprint(stored: string): string {
+  return createHash("sha256").update(stored).digest("base64url").slice(0, 16);
+}
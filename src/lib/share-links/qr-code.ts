@@ -0,0 +1,401 @@
+import { Resvg } from "@resvg/resvg-js";
+
+// Minimal QR code encoder (ISO/IEC 18004) for share link URLs: byte mode, error correction
+// level M, versions 1-10 (up to 213 bytes), mask chosen by the standard penalty score.
+
+export const QR_QUIET_ZONE = 4; // Modules of light margin required around the symbol
+export const QR_SVG_CONTENT_TYPE = "image/svg+xml; charset=utf-8";
+export const QR_PNG_CONTENT_TYPE = "image/png";
+
+export interface QrCode {
+  size: number; // Modules per side
+  modules: boolean[][]; // [row][col], true = dark
+}
+
+interface VersionSpec {
+  ecPerBlock: number;
+  blocks: number[]; // Data codewords per block
+  alignment: number[];
+}
+
+// Level M block structure per version.
+const VERSIONS: VersionSpec[] = [
+  { ecPerBlock: 10, blocks: [16], alignment: [] },
+  { ecPerBlock: 16, blocks: [28], alignment: [6, 18] },
+  { ecPerBlock: 26, blocks: [44], alignment: [6, 22] },
+  { ecPerBlock: 18, blocks: [32, 32], alignment: [6, 26] },
+  { ecPerBlock: 24, blocks: [43, 43], alignment: [6, 30] },
+  { ecPerBlock: 16, blocks: [27, 27, 27, 27], alignment: [6, 34] },
+  { ecPerBlock: 18, blocks: [31, 31, 31, 31], alignment: [6, 22, 38] },
+  { ecPerBlock: 22, blocks: [38, 38, 39, 39], alignment: [6, 24, 42] },
+  { ecPerBlock: 22, blocks: [36, 36, 36, 37, 37], alignment: [6, 26, 46] },
+  { ecPerBlock: 26, blocks: [43, 43, 43, 43, 44], alignment: [6, 28, 50] },
+];
+
+const EC_LEVEL_M_BITS = 0b00;
+
+const MASKS: ((row: number, col: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+/** Encodes text as UTF-8 in the smallest version that fits; throws when it needs more than version 10. */
+export function encodeQr(text: string): QrCode {
+  const data = Buffer.from(text, "utf8");
+  const version = VERSIONS.findIndex((spec, index) => capacityBits(spec) >= dataBits(data.length, index + 1)) + 1;
+  if (version === 0) {
+    throw new Error(`Text of ${data.length} bytes is too long for a QR code`);
+  }
+  const spec = VERSIONS[version - 1];
+  const symbol = new QrSymbol(version);
+  symbol.drawFunctionPatterns(spec);
+  symbol.drawCodewords(interleave(spec, dataCodewords(data, version, spec)));
+
+  let best = { penalty: Infinity, modules: [] as boolean[][] };
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const modules = symbol.masked(mask);
+    const penalty = penaltyScore(modules);
+    if (penalty < best.penalty) {
+      best = { penalty, modules };
+    }
+  }
+  return { size: symbol.size, modules: best.modules };
+}
+
+/** Single-path SVG with the quiet zone included; one user unit per module. */
+export function qrCodeSvg(qr: QrCode, pixels: number): string {
+  const extent = qr.size + QR_QUIET_ZONE * 2;
+  const path: string[] = [];
+  qr.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) {
+        path.push(`M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z`);
+      }
+    })
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">`,
+    `<rect width="${extent}" height="${extent}" fill="#fff"/>`,
+    `<path fill="#000" d="${path.join("")}"/>`,
+    "</svg>",
+  ].join("");
+}
+
+export function qrCodePng(qr: QrCode, pixels: number): Uint8Array {
+  const resvg = new Resvg(qrCodeSvg(qr, pixels), {
+    font: { loadSystemFonts: false },
+    fitTo: { mode: "width", value: pixels },
+    shapeRendering: 1,
+  });
+  return new Uint8Array(resvg.render().asPng());
+}
+
+// --------------------------------------------------------
+// Data encoding
+// --------------------------------------------------------
+
+function capacityBits(spec: VersionSpec): number {
+  return spec.blocks.reduce((sum, count) => sum + count, 0) * 8;
+}
+
+function dataBits(bytes: number, version: number): number {
+  return 4 + (version < 10 ? 8 : 16) + bytes * 8;
+}
+
+function dataCodewords(data: Buffer, version: number, spec: VersionSpec): number[] {
+  const capacity = capacityBits(spec);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      bits.push((value >>> bit) & 1);
+    }
+  };
+  append(0b0100, 4); // Byte mode
+  append(data.length, version < 10 ? 8 : 16);
+  data.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let index = 0; index < bits.length; index += 8) {
+    codewords.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0; codewords.length < capacity / 8; pad++) {
+    codewords.push(pad % 2 === 0 ? 0xec : 0x11);
+  }
+  return codewords;
+}
+
+// Splits data into blocks, appends Reed-Solomon error correction to each, then interleaves
+// data codewords followed by EC codewords column by column.
+function interleave(spec: VersionSpec, data: number[]): number[] {
+  const divisor = reedSolomonDivisor(spec.ecPerBlock);
+  const blocks: { data: number[]; ec: number[] }[] = [];
+  let offset = 0;
+  for (const count of spec.blocks) {
+    const block = data.slice(offset, offset + count);
+    offset += count;
+    blocks.push({ data: block, ec: reedSolomonRemainder(block, divisor) });
+  }
+  const result: number[] = [];
+  const longest = Math.max(...spec.blocks);
+  for (let index = 0; index < longest; index++) {
+    blocks.forEach((block) => index < block.data.length && result.push(block.data[index]));
+  }
+  for (let index = 0; index < spec.ecPerBlock; index++) {
+    blocks.forEach((block) => result.push(block.ec[index]));
+  }
+  return result;
+}
+
+// GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+function gfMultiply(x: number, y: number): number {
+  let product = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> bit) & 1) * x;
+  }
+  return product;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let step = 0; step < degree; step++) {
+    for (let index = 0; index < degree; index++) {
+      result[index] = gfMultiply(result[index], root);
+      if (index + 1 < degree) {
+        result[index] ^= result[index + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => (result[index] ^= gfMultiply(coefficient, factor)));
+  }
+  return result;
+}
+
+// --------------------------------------------------------
+// Module placement
+// --------------------------------------------------------
+
+class QrSymbol {
+  readonly size: number;
+  private readonly modules: boolean[][];
+  private readonly reserved: boolean[][]; // Function patterns, never masked
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns(spec: VersionSpec): void {
+    for (let index = 0; index < this.size; index++) {
+      this.set(6, index, index % 2 === 0); // Timing patterns
+      this.set(index, 6, index % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(3, this.size - 4);
+    this.drawFinder(this.size - 4, 3);
+
+    const last = spec.alignment.length - 1;
+    spec.alignment.forEach((row, i) =>
+      spec.alignment.forEach((col, j) => {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+        if (!overlapsFinder) {
+          this.drawAlignment(row, col);
+        }
+      })
+    );
+
+    this.drawFormatBits(0); // Reserve the format areas; real bits are written per mask
+    this.drawVersionBits();
+  }
+
+  // Zigzag placement in two-module columns from the bottom-right corner, skipping the
+  // vertical timing column.
+  drawCodewords(codewords: number[]): void {
+    let bit = 0;
+    const total = codewords.length * 8;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let step = 0; step < this.size; step++) {
+        for (let offset = 0; offset < 2; offset++) {
+          const col = right - offset;
+          const upward = ((right + 1) & 2) === 0;
+          const row = upward ? this.size - 1 - step : step;
+          if (!this.reserved[row][col] && bit < total) {
+            this.modules[row][col] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+            bit++;
+          }
+        }
+      }
+    }
+  }
+
+  masked(mask: number): boolean[][] {
+    const copy = new QrSymbol(this.version);
+    this.modules.forEach((row, r) =>
+      row.forEach((dark, c) => {
+        copy.modules[r][c] = this.reserved[r][c] ? dark : dark !== MASKS[mask](r, c);
+        copy.reserved[r][c] = this.reserved[r][c];
+      })
+    );
+    copy.drawFormatBits(mask);
+    return copy.modules;
+  }
+
+  private set(row: number, col: number, dark: boolean): void {
+    this.modules[row][col] = dark;
+    this.reserved[row][col] = true;
+  }
+
+  private drawFinder(centerRow: number, centerCol: number): void {
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) {
+        const row = centerRow + dr;
+        const col = centerCol + dc;
+        if (row >= 0 && row < this.size && col >= 0 && col < this.size) {
+          const ring = Math.max(Math.abs(dr), Math.abs(dc));
+          this.set(row, col, ring !== 2 && ring !== 4); // Ring 4 is the separator
+        }
+      }
+    }
+  }
+
+  private drawAlignment(centerRow: number, centerCol: number): void {
+    for (let dr = -2; dr <= 2; dr++) {
+      for (let dc = -2; dc <= 2; dc++) {
+        this.set(centerRow + dr, centerCol + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1);
+      }
+    }
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (EC_LEVEL_M_BITS << 3) | mask;
+    const bits = (((data << 10) | bchRemainder(data, 0x537, 10)) ^ 0x5412) >>> 0;
+    const bitAt = (index: number) => ((bits >>> index) & 1) === 1;
+
+    for (let index = 0; index <= 5; index++) {
+      this.set(index, 8, bitAt(index));
+    }
+    this.set(7, 8, bitAt(6));
+    this.set(8, 8, bitAt(7));
+    this.set(8, 7, bitAt(8));
+    for (let index = 9; index < 15; index++) {
+      this.set(8, 14 - index, bitAt(index));
+    }
+
+    for (let index = 0; index < 8; index++) {
+      this.set(8, this.size - 1 - index, bitAt(index));
+    }
+    for (let index = 8; index < 15; index++) {
+      this.set(this.size - 15 + index, 8, bitAt(index));
+    }
+    this.set(this.size - 8, 8, true); // Dark module
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) {
+      return;
+    }
+    const bits = (this.version << 12) | bchRemainder(this.version, 0x1f25, 12);
+    for (let index = 0; index < 18; index++) {
+      const dark = ((bits >>> index) & 1) === 1;
+      const a = this.size - 11 + (index % 3);
+      const b = Math.floor(index / 3);
+      this.set(a, b, dark);
+      this.set(b, a, dark);
+    }
+  }
+}
+
+function bchRemainder(data: number, generator: number, degree: number): number {
+  let remainder = data << degree;
+  const top = Math.floor(Math.log2(generator));
+  for (let bit = Math.floor(Math.log2(remainder || 1)); bit >= top; bit--) {
+    if ((remainder >>> bit) & 1) {
+      remainder ^= generator << (bit - top);
+    }
+  }
+  return remainder;
+}
+
+// --------------------------------------------------------
+// Mask selection
+// --------------------------------------------------------
+
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  const columns = modules.map((_, col) => modules.map((row) => row[col]));
+  let penalty = 0;
+
+  for (const line of [...modules, ...columns]) {
+    penalty += runPenalty(line) + finderLikePenalty(line);
+  }
+  for (let row = 0; row < size - 1; row++) {
+    for (let col = 0; col < size - 1; col++) {
+      const dark = modules[row][col];
+      if (dark === modules[row][col + 1] && dark === modules[row + 1][col] && dark === modules[row + 1][col + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const percent = (darkCount * 100) / (size * size);
+  penalty += Math.floor(Math.abs(percent - 50) / 5) * 10;
+  return penalty;
+}
+
+// Runs of five or more same-coloured modules: 3 points plus 1 per module beyond five.
+function runPenalty(line: boolean[]): number {
+  let penalty = 0;
+  let run = 1;
+  for (let index = 1; index <= line.length; index++) {
+    if (index < line.length && line[index] === line[index - 1]) {
+      run++;
+      continue;
+    }
+    if (run >= 5) {
+      penalty += run - 2;
+    }
+    run = 1;
+  }
+  return penalty;
+}
+
+// 1:1:3:1:1 finder-like patterns with four light modules on either side (40 points each).
+function finderLikePenalty(line: boolean[]): number {
+  const pattern = [true, false, true, true, true, false, true];
+  const light = (index: number) => index < 0 || index >= line.length || !line[index];
+  let penalty = 0;
+  for (let start = 0; start + pattern.length <= line.length; start++) {
+    if (!pattern.every((dark, offset) => line[start + offset] === dark)) {
+      continue;
+    }
+    const before = [1, 2, 3, 4].every((distance) => light(start - distance));
+    const after = [1, 2, 3, 4].every((distance) => light(start + pattern.length - 1 + distance));
+    if (before || after) {
+      penalty += 40;
+    }
+  }
+  return penalty;
+}
@@ -0,0 +1,36 @@
+import type { PlanDataDTO, SeatLookupMatchDTO } from "../../types";
+import { tableLabel } from "../exports/floorplan-scene";
+import { foldName, nameSimilarity, SUGGEST_THRESHOLD } from "../imports/duplicate-matcher";
+import { seatDisplayNumber } from "../plan/seat-geometry";
+
+// "Find my seat" for guests on a share link. The typed name is scored against seated guests
+// with the import matcher, so typos, diacritics, word order and nicknames are tolerated.
+// Only the table label and seat number (as printed on place cards and the floorplan) of the best
+// matches are returned: no names, no notes.
+
+export const SEAT_LOOKUP_MIN_LENGTH = 3; // Folded characters; shorter queries match nothing
+const MAX_MATCHES = 3; // Namesakes beyond this are not reported
+const TIE_MARGIN = 0.02; // Matches this close to the best one are reported alongside it
+
+export function findSeats(plan: PlanDataDTO, name: string): SeatLookupMatchDTO[] {
+  if (foldName(name).replace(/\s/g, "").length < SEAT_LOOKUP_MIN_LENGTH) {
+    return [];
+  }
+  const guests = new Map(plan.guests.filter((guest) => !guest.is_placeholder).map((guest) => [guest.id, guest]));
+  const scored: (SeatLookupMatchDTO & { score: number })[] = [];
+  for (const table of plan.tables) {
+    for (const seat of table.seats) {
+      const guest = seat.guest_id ? guests.get(seat.guest_id) : undefined;
+      const score = guest ? nameSimilarity(name, guest.name) : 0;
+      if (score >= SUGGEST_THRESHOLD) {
+        scored.push({ table_label: tableLabel(plan, table), seat_no: seatDisplayNumber(table, seat.seat_no), score });
+      }
+    }
+  }
+  const best = Math.max(0, ...scored.map((match) => match.score));
+  return scored
+    .filter((match) => match.score >= best - TIE_MARGIN)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES)
+    .map(({ table_label, seat_no }) => ({ table_label, seat_no }));
+}
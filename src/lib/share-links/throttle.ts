@@ -0,0 +1,56 @@
+// Sliding-window attempt counters for the public share link endpoints, kept in process memory
+// and keyed by share link and client IP. Once `limit` attempts fall within the window further
+// attempts are refused until the oldest one ages out. Each server instance counts on its own.
+
+const MAX_KEYS = 10_000; // Expired entries are swept once a counter grows past this
+
+export interface AttemptThrottle {
+  /** Seconds until another attempt is allowed, or 0 when the caller may try now. */
+  retryAfter(shareLinkId: string, ip: string, now?: number): number;
+  record(shareLinkId: string, ip: string, now?: number): void;
+  clear(shareLinkId: string, ip: string): void;
+}
+
+export function createAttemptThrottle(limit: number, windowMs: number): AttemptThrottle {
+  const attempts = new Map<string, number[]>();
+  const key = (shareLinkId: string, ip: string) => `${shareLinkId}|${ip}`;
+
+  const recent = (entryKey: string, now: number): number[] => {
+    const times = (attempts.get(entryKey) ?? []).filter((time) => now - time < windowMs);
+    if (times.length === 0) {
+      attempts.delete(entryKey);
+    } else {
+      attempts.set(entryKey, times);
+    }
+    return times;
+  };
+
+  return {
+    retryAfter(shareLinkId, ip, now = Date.now()) {
+      const times = recent(key(shareLinkId, ip), now);
+      if (times.length < limit) {
+        return 0;
+      }
+      return Math.max(1, Math.ceil((times[times.length - limit] + windowMs - now) / 1000));
+    },
+    record(shareLinkId, ip, now = Date.now()) {
+      if (attempts.size >= MAX_KEYS) {
+        for (const entryKey of [...attempts.keys()]) {
+          recent(entryKey, now);
+        }
+      }
+      const entryKey = key(shareLinkId, ip);
+      attempts.set(entryKey, [...recent(entryKey, now), now]);
+    },
+    clear(shareLinkId, ip) {
+      attempts.delete(key(shareLinkId, ip));
+    },
+  };
+}
+
+// Failed password attempts; a successful login clears the counter.
+export const shareAuthThrottle = createAttemptThrottle(5, 15 * 60 * 1000);
+
+// Every "find my seat" lookup counts, hit or miss, to cap name guessing. Generous enough for
+// a venue where many guests share one network address.
+export const seatLookupThrottle = createAttemptThrottle(30, 10 * 60 * 1000);
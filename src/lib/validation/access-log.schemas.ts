@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+const timestamp = z.string().datetime({ offset: true });
+
+export const accessSummaryQuerySchema = z
+  .object({
+    from: timestamp.optional(),
+    to: timestamp.optional(),
+  })
+  .refine((value) => !value.from || !value.to || Date.parse(value.from) < Date.parse(value.to), {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export const reviewShareLinkAccessSchema = z.object({
+  dry_run: z.boolean().default(true),
+  window_minutes: z.number().int().min(5).max(1440).optional(),
+  country_threshold: z.number().int().min(2).max(250).optional(),
+  pii_min_hits: z.number().int().min(1).max(100_000).optional(),
+  pii_spike_factor: z.number().min(1).max(1000).optional(),
+  pii_min_baseline_hours: z.number().int().min(0).max(168).optional(),
+});
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+import { Constants } from "../../db/database.types";
+
+export const ANALYTICS_BATCH_LIMIT = 50;
+
+const timestamp = z.string().datetime({ offset: true });
+
+export const analyticsIngestSchema = z.object({
+  events: z
+    .array(
+      z.object({
+        event_type: z.enum(Constants.public.Enums.analytics_event_type_enum),
+        event_id: z.string().uuid().nullish(),
+        metadata: z.record(z.unknown()).optional(),
+      })
+    )
+    .min(1)
+    .max(ANALYTICS_BATCH_LIMIT),
+});
+
+export const analyticsFunnelQuerySchema = z
+  .object({
+    from: timestamp.optional(),
+    to: timestamp.optional(),
+  })
+  .refine((value) => !value.from || !value.to || Date.parse(value.from) < Date.parse(value.to), {
+    message: "from must be before to",
+    path: ["from"],
+  });
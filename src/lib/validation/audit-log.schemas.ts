@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+import { Constants } from "../../db/database.types";
+
+const timestamp = z.string().datetime({ offset: true });
+const actionType = z.enum(Constants.public.Enums.action_type_enum);
+
+export const auditLogQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    cursor: z.string().min(1).optional(),
+    // Comma-separated list, e.g. action_type=guest_add,guest_delete
+    action_type: z
+      .string()
+      .transform((value) => value.split(",").map((part) => part.trim()))
+      .pipe(z.array(actionType).min(1))
+      .optional(),
+    user_id: z.string().uuid().optional(),
+    from: timestamp.optional(),
+    to: timestamp.optional(),
+  })
+  .refine((value) => !value.from || !value.to || Date.parse(value.from) < Date.parse(value.to), {
+    message: "from must be before to",
+    path: ["from"],
+  });
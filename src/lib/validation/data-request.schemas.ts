@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const processDataRequestsSchema = z.object({
+  dry_run: z.boolean().default(true),
+  limit: z.number().int().min(1).max(50).optional(),
+});
+
+export const dataExportDownloadQuerySchema = z.object({
+  expires: z.coerce.number().int().positive(),
+  signature: z.string().min(1).max(100),
+});
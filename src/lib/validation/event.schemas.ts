@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+const gridSize = z.number().int().positive();
+
+export const updateEventSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(150, "Name must not exceed 150 characters").optional(),
+    event_date: z.string().date().nullable().optional(),
+    grid_rows: gridSize.optional(),
+    grid_cols: gridSize.optional(),
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), "Nothing to update");
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+const booleanFlag = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((value) => value === "true");
+
+export const renderExportQuerySchema = z.object({
+  type: z.enum(["pdf", "png", "xlsx", "csv", "place_cards", "escort_poster"]),
+  orientation: z.enum(["landscape", "portrait"]).default("landscape"),
+  include_notes: booleanFlag,
+  scale: z.coerce.number().min(0.25).max(2).default(1),
+  table_id: z.string().min(1).max(100).optional(),
+  hide_names: booleanFlag,
+  sort: z.enum(["table", "name"]).default("table"),
+  paper: z.enum(["a4", "a3", "letter", "tabloid"]).optional(),
+  meal_icons: booleanFlag,
+});
@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+import { MAX_IMPORT_FILE_BYTES } from "../imports/xlsx-reader";
+
+const columnIndex = z.number().int().min(0).nullable().optional();
+
+export const uploadImportFormSchema = z.object({
+  file: z
+    .instanceof(File, { message: "file is required" })
+    .refine((file) => file.size > 0, "file is empty")
+    .refine((file) => file.size <= MAX_IMPORT_FILE_BYTES, "file is too large"),
+  consent_text: z.string().trim().min(1, "Consent is required to import guests").max(2000),
+  previous_import_id: z.string().uuid().optional(),
+});
+
+export const updateImportMappingSchema = z.object({
+  mapping: z
+    .object({
+      Name: columnIndex,
+      InitialTable: columnIndex,
+      Note: columnIndex,
+      OptionalTag: columnIndex,
+      Party: columnIndex,
+      Child: columnIndex,
+    })
+    .strict(),
+});
+
+export const importPreviewQuerySchema = z.object({
+  rows: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const importErrorReportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("xlsx"),
+  only_errors: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export const resolveDuplicatesSchema = z.object({
+  decisions: z
+    .array(
+      z.object({
+        group_id: z.string().min(1).max(64),
+        action: z.enum(["merge", "reject"]),
+        keep_id: z.string().min(1).max(64).optional(),
+      })
+    )
+    .min(1)
+    .max(500),
+});
@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+const password = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(200, "Password must not exceed 200 characters");
+
+const expiresAt = z
+  .string()
+  .datetime({ offset: true })
+  .refine((value) => Date.parse(value) > Date.now(), "expires_at must be in the future")
+  .nullable();
+
+const source = z.enum(["live", "snapshot", "latest_manual"]);
+
+const guestNames = z.enum(["full", "first_last_initial", "initials", "hidden"]);
+
+// snapshot_id goes with source "snapshot" and nothing else.
+const pinnedSnapshot = (value: { source?: string; snapshot_id?: string }) =>
+  (value.source === "snapshot") === (value.snapshot_id !== undefined);
+const pinnedSnapshotMessage = {
+  message: 'snapshot_id is required with source "snapshot" and not allowed otherwise',
+  path: ["snapshot_id"],
+};
+
+export const createShareLinkSchema = z
+  .object({
+    password: password.optional(),
+    expires_at: expiresAt.optional(),
+    include_pii: z.boolean().optional(),
+    guest_names: guestNames.optional(),
+    show_tags: z.boolean().optional(),
+    show_rsvp: z.boolean().optional(),
+    auto_revoke_on_anomaly: z.boolean().optional(),
+    source: source.optional(),
+    snapshot_id: z.string().uuid().optional(),
+  })
+  .refine(pinnedSnapshot, pinnedSnapshotMessage);
+
+export const updateShareLinkSchema = z
+  .object({
+    password: z.union([z.literal(""), password]).optional(), // "" removes protection
+    expires_at: expiresAt.optional(),
+    include_pii: z.boolean().optional(),
+    guest_names: guestNames.optional(),
+    show_tags: z.boolean().optional(),
+    show_rsvp: z.boolean().optional(),
+    auto_revoke_on_anomaly: z.boolean().optional(),
+    source: source.optional(),
+    snapshot_id: z.string().uuid().optional(),
+  })
+  .refine(
+    (value) => (value.source === undefined ? value.snapshot_id === undefined : pinnedSnapshot(value)),
+    pinnedSnapshotMessage
+  );
+
+export const publishShareLinkSchema = z.object({
+  label: z.string().trim().max(150, "Label must not exceed 150 characters").optional(),
+});
+
+export const publicEventQuerySchema = z.object({
+  pii: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+});
+
+export const seatLookupSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must not exceed 100 characters"),
+});
+
+export const shareLinkQrQuerySchema = z.object({
+  format: z.enum(["svg", "png"]).default("svg"),
+  size: z.coerce.number().int().min(64).max(2048).default(512),
+  target: z.enum(["view", "seat_lookup"]).default("view"),
+});
+
+export const shareLinkAuthSchema = z.object({
+  password: z.string().min(1, "Password is required").max(200),
+});
+
+export const shareTokenSchema = z.string().regex(/^[A-Za-z0-9_-]{16,64}$/, "Share token is malformed");
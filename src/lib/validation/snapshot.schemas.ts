@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+export const createSnapshotSchema = z.object({
+  label: z.string().trim().max(150, "Label must not exceed 150 characters").optional(),
+});
+
+export const listSnapshotsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+  manual_only: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export const snapshotDiffQuerySchema = z.object({
+  against: z.union([z.literal("live"), z.string().uuid()]).default("live"),
+});
+
+export const pruneSnapshotsSchema = z.object({
+  dry_run: z.boolean().default(true),
+  retention_days: z.number().int().min(1).max(3650).optional(),
+  event_id: z.string().uuid().optional(),
+});
@@ -1,9 +1,42 @@
+import type { User } from "@supabase/supabase-js";
 import { defineMiddleware } from "astro:middleware";
 
-import { supabaseClient } from "../db/supabase.client";
+import { createSupabaseAdminClient, createSupabaseClient } from "../db/supabase.client";
+import { handleError } from "../lib/api/http";
+import { createMemoryRateLimitStore } from "../lib/rate-limits/rate-limit-store";
+import { enforceRateLimit } from "../lib/services/rate-limit.service";
 
-export const onRequest = defineMiddleware((context, next) => {
-  // Attach typed supabase client to locals
-  context.locals.supabase = supabaseClient;
+// Per-instance counters; swap in a shared RateLimitStore when running more than one instance.
+const rateLimitStore = createMemoryRateLimitStore();
+
+export const onRequest = defineMiddleware(async (context, next) => {
+  // Attach typed supabase client (scoped to the caller's token) and, for API routes, the authenticated user to locals
+  const authorization = context.request.headers.get("Authorization");
+  context.locals.supabase = createSupabaseClient(authorization);
+  context.locals.user = null;
+  if (!context.url.pathname.startsWith("/api/")) {
+    return next();
+  }
+
+  // Public share endpoints carry share access tokens and admin endpoints the cron secret, not Supabase sessions.
+  const sessionRoute = !/^\/api\/(?:public|admin)\//.test(context.url.pathname);
+  // Looked up at most once: by the rate limiter when the matched policy counts per user, else for the route.
+  let user: Promise<User | null> | undefined;
+  const resolveUser = () =>
+    (user ??=
+      authorization && sessionRoute
+        ? context.locals.supabase.auth.getUser(authorization.replace(/^Bearer\s+/i, "")).then(({ data }) => data.user)
+        : Promise.resolve(null));
+  try {
+    await enforceRateLimit(createSupabaseAdminClient, rateLimitStore, {
+      method: context.request.method,
+      pathname: context.url.pathname,
+      userId: async () => (await resolveUser())?.id ?? null,
+      clientIp: () => context.clientAddress || "unknown",
+    });
+    context.locals.user = await resolveUser();
+  } catch (error) {
+    return handleError(error);
+  }
   return next();
 });
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { handleError, json, parseJsonBody, requireCronSecret } from "../../../../lib/api/http";
+import { reviewShareLinkAccess } from "../../../../lib/services/access-log.service";
+import { reviewShareLinkAccessSchema } from "../../../../lib/validation/access-log.schemas";
+
+export const prerender = false;
+
+// Called by the scheduler (every window, hourly by default). Body `{ "dry_run": true }` (the
+// default) only reports what would be flagged and revoked.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    requireCronSecret(request);
+    const command = await parseJsonBody(request, reviewShareLinkAccessSchema);
+    return json(await reviewShareLinkAccess(createSupabaseAdminClient(), command));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,19 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { handleError, json, parseQuery, requireCronSecret } from "../../../../lib/api/http";
+import { getAnalyticsFunnel } from "../../../../lib/services/analytics.service";
+import { analyticsFunnelQuerySchema } from "../../../../lib/validation/analytics.schemas";
+
+export const prerender = false;
+
+// Internal report (dashboards, scheduled digests). Query `from` / `to`; defaults to the last 30 days.
+export const GET: APIRoute = async ({ request, url }) => {
+  try {
+    requireCronSecret(request);
+    const query = parseQuery(url, analyticsFunnelQuerySchema);
+    return json(await getAnalyticsFunnel(createSupabaseAdminClient(), query));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { handleError, json, parseJsonBody, requireCronSecret } from "../../../../lib/api/http";
+import { processDataErasures } from "../../../../lib/services/data-request.service";
+import { processDataRequestsSchema } from "../../../../lib/validation/data-request.schemas";
+
+export const prerender = false;
+
+// Called by the scheduler (e.g. hourly). Body `{ "dry_run": true }` (the default) only reports
+// which deletion requests would be processed.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    requireCronSecret(request);
+    const command = await parseJsonBody(request, processDataRequestsSchema);
+    return json(await processDataErasures(createSupabaseAdminClient(), command));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { handleError, json, parseJsonBody, requireCronSecret } from "../../../../lib/api/http";
+import { processDataExports } from "../../../../lib/services/data-request.service";
+import { processDataRequestsSchema } from "../../../../lib/validation/data-request.schemas";
+
+export const prerender = false;
+
+// Called by the scheduler (every few minutes). Body `{ "dry_run": true }` (the default) only
+// reports which requests would be processed and which archives purged.
+export const POST: APIRoute = async ({ request, url }) => {
+  try {
+    requireCronSecret(request);
+    const command = await parseJsonBody(request, processDataRequestsSchema);
+    return json(await processDataExports(createSupabaseAdminClient(), command, url.origin));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { handleError, json, parseJsonBody, requireCronSecret } from "../../../../lib/api/http";
+import { pruneSnapshots } from "../../../../lib/services/snapshot-retention.service";
+import { pruneSnapshotsSchema } from "../../../../lib/validation/snapshot.schemas";
+
+export const prerender = false;
+
+// Called by the scheduler (daily). Body `{ "dry_run": true }` (the default) only reports what
+// would be deleted.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    requireCronSecret(request);
+    const command = await parseJsonBody(request, pruneSnapshotsSchema);
+    return json(await pruneSnapshots(createSupabaseAdminClient(), command));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,18 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../db/supabase.client";
+import { handleError, json, parseJsonBody, requireUser } from "../../lib/api/http";
+import { ingestAnalyticsEvents } from "../../lib/services/analytics.service";
+import { analyticsIngestSchema } from "../../lib/validation/analytics.schemas";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const user = requireUser(locals.user);
+    const command = await parseJsonBody(request, analyticsIngestSchema);
+    return json(await ingestAnalyticsEvents(locals.supabase, createSupabaseAdminClient(), user.id, command), 202);
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,27 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { handleError, parseQuery, parseWith, uuidSchema } from "../../../../lib/api/http";
+import { downloadDataExport } from "../../../../lib/services/data-request.service";
+import { dataExportDownloadQuerySchema } from "../../../../lib/validation/data-request.schemas";
+
+export const prerender = false;
+
+// Signed link from data_requests.result_url; no session needed until it expires.
+export const GET: APIRoute = async ({ params, url }) => {
+  try {
+    const requestId = parseWith(uuidSchema, params.request_id, "INVALID_DATA_REQUEST_ID");
+    const query = parseQuery(url, dataExportDownloadQuerySchema);
+    const file = await downloadDataExport(createSupabaseAdminClient(), requestId, query);
+    return new Response(typeof file.body === "string" ? file.body : new Uint8Array(file.body), {
+      status: 200,
+      headers: {
+        "Content-Type": file.content_type,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,18 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseQuery, parseWith, requireUser, uuidSchema } from "../../../../lib/api/http";
+import { listAuditLog } from "../../../../lib/services/audit-log.service";
+import { auditLogQuerySchema } from "../../../../lib/validation/audit-log.schemas";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const query = parseQuery(url, auditLogQuerySchema);
+    return json(await listAuditLog(locals.supabase, eventId, query));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,27 @@
+import type { APIRoute } from "astro";
+
+import { handleError, parseQuery, parseWith, requireUser, uuidSchema } from "../../../../../lib/api/http";
+import { renderEventExport } from "../../../../../lib/services/export.service";
+import { renderExportQuerySchema } from "../../../../../lib/validation/export.schemas";
+
+export const prerender = false;
+
+// Synchronous download of an export rendered from the live plan.
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const command = parseQuery(url, renderExportQuerySchema);
+    const file = await renderEventExport(locals.supabase, eventId, command);
+    return new Response(typeof file.body === "string" ? file.body : new Uint8Array(file.body), {
+      status: 200,
+      headers: {
+        "Content-Type": file.content_type,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+};
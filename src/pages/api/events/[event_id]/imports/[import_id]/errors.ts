@@ -0,0 +1,28 @@
+import type { APIRoute } from "astro";
+
+import { handleError, parseQuery, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { getImportErrorReport } from "../../../../../../lib/services/guest-import.service";
+import { importErrorReportQuerySchema } from "../../../../../../lib/validation/import.schemas";
+
+export const prerender = false;
+
+// Query: `format` (xlsx | csv, default xlsx), `only_errors` (default false).
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const importId = parseWith(uuidSchema, params.import_id, "INVALID_IMPORT_ID");
+    const { format, only_errors } = parseQuery(url, importErrorReportQuerySchema);
+    const report = await getImportErrorReport(locals.supabase, eventId, importId, format, { only_errors });
+    return new Response(typeof report.body === "string" ? report.body : new Uint8Array(report.body), {
+      status: 200,
+      headers: {
+        "Content-Type": report.content_type,
+        "Content-Disposition": `attachment; filename="${report.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+};
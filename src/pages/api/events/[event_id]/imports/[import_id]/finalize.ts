@@ -0,0 +1,17 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { finalizeGuestImport } from "../../../../../../lib/services/guest-import.service";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    const user = requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const importId = parseWith(uuidSchema, params.import_id, "INVALID_IMPORT_ID");
+    return json(await finalizeGuestImport(locals.supabase, user.id, eventId, importId));
+  } catch (error) {
+    return handleError(error);
+  }
+};
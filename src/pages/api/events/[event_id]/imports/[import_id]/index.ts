@@ -0,0 +1,17 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { getGuestImport } from "../../../../../../lib/services/guest-import.service";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const importId = parseWith(uuidSchema, params.import_id, "INVALID_IMPORT_ID");
+    return json(await getGuestImport(locals.supabase, eventId, importId));
+  } catch (error) {
+    return handleError(error);
+  }
+};
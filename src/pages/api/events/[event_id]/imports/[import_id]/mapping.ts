@@ -0,0 +1,29 @@
+import type { APIRoute } from "astro";
+
+import {
+  handleError,
+  json,
+  parseJsonBody,
+  parseQuery,
+  parseWith,
+  requireUser,
+  uuidSchema,
+} from "../../../../../../lib/api/http";
+import { updateImportMapping } from "../../../../../../lib/services/guest-import.service";
+import { importPreviewQuerySchema, updateImportMappingSchema } from "../../../../../../lib/validation/import.schemas";
+
+export const prerender = false;
+
+// Overrides the detected column mapping, revalidates and returns the refreshed preview.
+export const PUT: APIRoute = async ({ params, request, url, locals }) => {
+  try {
+    const user = requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const importId = parseWith(uuidSchema, params.import_id, "INVALID_IMPORT_ID");
+    const command = await parseJsonBody(request, updateImportMappingSchema);
+    const { rows } = parseQuery(url, importPreviewQuerySchema);
+    return json(await updateImportMapping(locals.supabase, user.id, eventId, importId, command, rows));
+  } catch (error) {
+    return handleError(error);
+  }
+};
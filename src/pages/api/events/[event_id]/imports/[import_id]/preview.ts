@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseQuery, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { getImportPreview } from "../../../../../../lib/services/guest-import.service";
+import { importPreviewQuerySchema } from "../../../../../../lib/validation/import.schemas";
+
+export const prerender = false;
+
+// GET /api/events/{event_id}/imports/{import_id}/preview?rows=50
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const importId = parseWith(uuidSchema, params.import_id, "INVALID_IMPORT_ID");
+    const { rows } = parseQuery(url, importPreviewQuerySchema);
+    return json(await getImportPreview(locals.supabase, eventId, importId, rows));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseFormData, parseWith, requireUser, uuidSchema } from "../../../../../lib/api/http";
+import { uploadGuestImport } from "../../../../../lib/services/guest-import.service";
+import { uploadImportFormSchema } from "../../../../../lib/validation/import.schemas";
+
+export const prerender = false;
+
+// multipart/form-data: `file` (XLSX) and `consent_text` (the consent statement the user accepted).
+export const POST: APIRoute = async ({ params, request, locals, clientAddress }) => {
+  try {
+    const user = requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const form = await parseFormData(request, uploadImportFormSchema);
+    const result = await uploadGuestImport(locals.supabase, user.id, eventId, { ...form, ip: clientAddress || null });
+    return json(result, 202, { Location: `/api/events/${eventId}/imports/${result.import_id}` });
+  } catch (error) {
+    return handleError(error);
+  }
+};
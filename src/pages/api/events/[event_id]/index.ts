@@ -0,0 +1,18 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseJsonBody, parseWith, requireUser, uuidSchema } from "../../../../lib/api/http";
+import { updateEvent } from "../../../../lib/services/event.service";
+import { updateEventSchema } from "../../../../lib/validation/event.schemas";
+
+export const prerender = false;
+
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const command = await parseJsonBody(request, updateEventSchema);
+    return json(await updateEvent(locals.supabase, eventId, command));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseQuery, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { getShareLinkAccessSummary } from "../../../../../../lib/services/access-log.service";
+import { accessSummaryQuerySchema } from "../../../../../../lib/validation/access-log.schemas";
+
+export const prerender = false;
+
+// Who opened the link, from where and on what, plus anomalies flagged by the access review.
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const shareLinkId = parseWith(uuidSchema, params.share_link_id, "INVALID_SHARE_LINK_ID");
+    const query = parseQuery(url, accessSummaryQuerySchema);
+    return json(await getShareLinkAccessSummary(locals.supabase, eventId, shareLinkId, query));
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseJsonBody, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { updateShareLink } from "../../../../../../lib/services/share-link.service";
+import { updateShareLinkSchema } from "../../../../../../lib/validation/share-link.schemas";
+
+export const prerender = false;
+
+// Changing or removing the password invalidates access tokens issued for the old one.
+export const PATCH: APIRoute = async ({ params, request, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const shareLinkId = parseWith(uuidSchema, params.share_link_id, "INVALID_SHARE_LINK_ID");
+    const command = await parseJsonBody(request, updateShareLinkSchema);
+    return json(await updateShareLink(locals.supabase, eventId, shareLinkId, command, url.origin));
+  } catch (error) {
+    return handleError(error);
+  }
+};
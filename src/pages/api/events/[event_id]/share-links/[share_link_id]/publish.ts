@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseJsonBody, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { publishShareLink } from "../../../../../../lib/services/share-link.service";
+import { publishShareLinkSchema } from "../../../../../../lib/validation/share-link.schemas";
+
+export const prerender = false;
+
+// Snapshots the live plan (manual snapshot) and pins the share link to it.
+export const POST: APIRoute = async ({ params, request, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const shareLinkId = parseWith(uuidSchema, params.share_link_id, "INVALID_SHARE_LINK_ID");
+    const command = await parseJsonBody(request, publishShareLinkSchema);
+    return json(await publishShareLink(locals.supabase, eventId, shareLinkId, command, url.origin), 201);
+  } catch (error) {
+    return handleError(error);
+  }
+};
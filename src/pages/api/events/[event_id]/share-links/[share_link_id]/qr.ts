@@ -0,0 +1,24 @@
+import type { APIRoute } from "astro";
+
+import { handleError, parseQuery, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { renderShareLinkQr } from "../../../../../../lib/services/share-link.service";
+import { shareLinkQrQuerySchema } from "../../../../../../lib/validation/share-link.schemas";
+
+export const prerender = false;
+
+// QR code (SVG or PNG) pointing at the share link or its "find my seat" page.
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const shareLinkId = parseWith(uuidSchema, params.share_link_id, "INVALID_SHARE_LINK_ID");
+    const query = parseQuery(url, shareLinkQrQuerySchema);
+    const image = await renderShareLinkQr(locals.supabase, eventId, shareLinkId, query, url.origin);
+    return new Response(typeof image.body === "string" ? image.body : new Uint8Array(image.body), {
+      status: 200,
+      headers: { "Content-Type": image.content_type, "Cache-Control": "private, no-store" },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,19 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseJsonBody, parseWith, requireUser, uuidSchema } from "../../../../../lib/api/http";
+import { createShareLink } from "../../../../../lib/services/share-link.service";
+import { createShareLinkSchema } from "../../../../../lib/validation/share-link.schemas";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, url, locals }) => {
+  try {
+    const user = requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const command = await parseJsonBody(request, createShareLinkSchema);
+    const link = await createShareLink(locals.supabase, user.id, eventId, command, url.origin);
+    return json(link, 201, { Location: `/api/events/${eventId}/share-links/${link.id}` });
+  } catch (error) {
+    return handleError(error);
+  }
+};
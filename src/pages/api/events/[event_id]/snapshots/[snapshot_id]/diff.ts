@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { handleError, json, parseQuery, parseWith, requireUser, uuidSchema } from "../../../../../../lib/api/http";
+import { diffSnapshot } from "../../../../../../lib/services/snapshot.service";
+import { snapshotDiffQuerySchema } from "../../../../../../lib/validation/snapshot.schemas";
+
+export const prerender = false;
+
+// GET /api/events/{event_id}/snapshots/{snapshot_id}/diff?against=<snapshot_id|live>
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const snapshotId = parseWith(uuidSchema, params.snapshot_id, "INVALID_SNAPSHOT_ID");
+    const { against } = parseQuery(url, snapshotDiffQuerySchema);
+    return json(await diffSnapshot(locals.supabase, eventId, snapshotId, against));
+  } catch (error) {
+    return handleError(error);
+  }
+};
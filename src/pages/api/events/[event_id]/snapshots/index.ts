@@ -0,0 +1,38 @@
+import type { APIRoute } from "astro";
+
+import {
+  handleError,
+  json,
+  parseJsonBody,
+  parseQuery,
+  parseWith,
+  requireUser,
+  uuidSchema,
+} from "../../../../../lib/api/http";
+import { createSnapshot, listSnapshots } from "../../../../../lib/services/snapshot.service";
+import { createSnapshotSchema, listSnapshotsQuerySchema } from "../../../../../lib/validation/snapshot.schemas";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const query = parseQuery(url, listSnapshotsQuerySchema);
+    return json(await listSnapshots(locals.supabase, eventId, query));
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    requireUser(locals.user);
+    const eventId = parseWith(uuidSchema, params.event_id, "INVALID_EVENT_ID");
+    const command = await parseJsonBody(request, createSnapshotSchema);
+    const snapshot = await createSnapshot(locals.supabase, eventId, command, true);
+    return json(snapshot, 201, { Location: `/api/events/${eventId}/snapshots/${snapshot.id}` });
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -0,0 +1,21 @@
+import type { APIRoute } from "astro";
+
+import { handleError } from "../../../lib/api/http";
+import { buildTemplateWorkbook, XLSX_CONTENT_TYPE } from "../../../lib/imports/template-workbook";
+
+export const prerender = false;
+
+export const GET: APIRoute = async () => {
+  try {
+    const body = await buildTemplateWorkbook();
+    return new Response(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        "Content-Type": XLSX_CONTENT_TYPE,
+        "Content-Disposition": 'attachment; filename="guest-import-template.xlsx"',
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+};
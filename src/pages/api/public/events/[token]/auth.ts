@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../../db/supabase.client";
+import { handleError, json, parseJsonBody, parseWith } from "../../../../../lib/api/http";
+import { authenticateShareLink } from "../../../../../lib/services/share-link.service";
+import { shareLinkAuthSchema, shareTokenSchema } from "../../../../../lib/validation/share-link.schemas";
+
+export const prerender = false;
+
+// Exchanges a share link password for a short-lived access token scoped to that link.
+export const POST: APIRoute = async ({ params, request, clientAddress }) => {
+  try {
+    const token = parseWith(shareTokenSchema, params.token, "SHARE_LINK_NOT_FOUND");
+    const command = await parseJsonBody(request, shareLinkAuthSchema);
+    const result = await authenticateShareLink(createSupabaseAdminClient(), token, command, clientAddress);
+    return json(result, 200, { "Cache-Control": "no-store" });
+  } catch (error) {
+    return handleError(error);
+  }
+};
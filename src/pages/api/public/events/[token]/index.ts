@@ -0,0 +1,26 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../../db/supabase.client";
+import { handleError, json, parseQuery, parseWith } from "../../../../../lib/api/http";
+import { getPublicEventView } from "../../../../../lib/services/share-link.service";
+import { publicEventQuerySchema, shareTokenSchema } from "../../../../../lib/validation/share-link.schemas";
+
+export const prerender = false;
+
+// Sanitised event view for share link viewers; password-protected links need the bearer
+// token from POST ./auth.
+export const GET: APIRoute = async ({ params, url, request, clientAddress }) => {
+  try {
+    const token = parseWith(shareTokenSchema, params.token, "SHARE_LINK_NOT_FOUND");
+    const query = parseQuery(url, publicEventQuerySchema);
+    const view = await getPublicEventView(createSupabaseAdminClient(), token, {
+      pii: query.pii,
+      authorization: request.headers.get("Authorization"),
+      client_ip: clientAddress,
+      user_agent: request.headers.get("User-Agent"),
+    });
+    return json(view, 200, { "Cache-Control": "private, no-store" });
+  } catch (error) {
+    return handleError(error);
+  }
+};
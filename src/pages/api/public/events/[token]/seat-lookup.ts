@@ -0,0 +1,25 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "../../../../../db/supabase.client";
+import { handleError, json, parseJsonBody, parseWith } from "../../../../../lib/api/http";
+import { lookupSeat } from "../../../../../lib/services/share-link.service";
+import { seatLookupSchema, shareTokenSchema } from "../../../../../lib/validation/share-link.schemas";
+
+export const prerender = false;
+
+// "Find my seat": a guest's table and seat by (typo-tolerant) name. POST keeps names out of
+// URLs and request logs.
+export const POST: APIRoute = async ({ params, request, clientAddress }) => {
+  try {
+    const token = parseWith(shareTokenSchema, params.token, "SHARE_LINK_NOT_FOUND");
+    const command = await parseJsonBody(request, seatLookupSchema);
+    const result = await lookupSeat(createSupabaseAdminClient(), token, command, {
+      authorization: request.headers.get("Authorization"),
+      client_ip: clientAddress,
+      user_agent: request.headers.get("User-Agent"),
+    });
+    return json(result, 200, { "Cache-Control": "private, no-store" });
+  } catch (error) {
+    return handleError(error);
+  }
+};
@@ -54,14 +54,44 @@ export interface SeatAssignmentDTO {
   guest_id?: string; // Undefined if seat empty
 }
 
+export type GuestAgeGroup = "adult" | "child";
+
 export interface GuestDTO {
   id: string;
   name: string; // Required <=150 chars
   note?: string; // Dietary, etc.
   tag?: string; // Group label
   rsvp?: string; // Canonicalized RSVP status string (e.g. Yes/No/Maybe)
+  party_id?: string; // Household / party membership (PartyDTO.id)
+  plus_one_of?: string; // Host guest id when this guest is a plus-one
+  is_placeholder?: boolean; // Unnamed plus-one ("Guest of John"); cleared once renamed
+  age_group?: GuestAgeGroup; // Default adult
+}
+
+// Party / household grouping guests that should be seated together.
+export interface PartyDTO {
+  id: string;
+  name: string; // e.g. "Smith family"; <=150 chars
+  primary_contact_id?: string; // Guest id of the main contact
+}
+
+// Floorplan grid dimensions (events.grid_rows / events.grid_cols).
+export interface GridSizeDTO {
+  rows: number;
+  cols: number;
+}
+
+// Top-left grid cell occupied by a table footprint (0-based).
+export interface GridPositionDTO {
+  row: number;
+  col: number;
 }
 
+export type TableRotation = 0 | 90 | 180 | 270; // Degrees clockwise
+
+// Direction seat numbers advance around a table, starting from the head seat at 12 o'clock.
+export type SeatDirection = "clockwise" | "counterclockwise";
+
 export interface TableDTO {
   id: string;
   shape: Enums<"table_shape_enum">;
@@ -69,7 +99,10 @@ export interface TableDTO {
   label?: string; // Display label ("Table 1")
   start_index: number; // Seat numbering start (>=1)
   head_seat: number; // Seat considered head (1..capacity)
+  direction?: SeatDirection; // Default clockwise
   seats: SeatAssignmentDTO[]; // Length <= capacity; missing entries treated as empty
+  position?: GridPositionDTO; // Absent until the table is placed on the floorplan
+  rotation?: TableRotation; // Default 0
 }
 
 export interface PlanSettingsDTO {
@@ -79,15 +112,32 @@ export interface PlanSettingsDTO {
 export interface PlanDataDTO {
   tables: TableDTO[];
   guests: GuestDTO[];
+  parties?: PartyDTO[]; // Absent in plans created before parties existed
   settings: PlanSettingsDTO;
 }
 
-// Public (sanitized) guest variant – may omit sensitive fields when include_pii=false.
-export interface PublicGuestDTO extends Pick<GuestDTO, "id" | "name" | "tag" | "rsvp"> {
-  note?: string; // Present only if share link allows PII
+// How guest names appear on a share link: "Zofia Kowalska", "Zofia K.", "Z. K." or not at all.
+export type GuestNameDisplay = Enums<"guest_name_display_enum">;
+
+// Per-link redaction applied to public plan views (share_links.guest_names / show_tags /
+// show_rsvp / include_pii).
+export interface RedactionPolicyDTO {
+  names: GuestNameDisplay;
+  tags: boolean;
+  rsvp: boolean;
+  notes: boolean; // include_pii, unless the viewer opted out with pii=false
+}
+
+// Public (sanitized) guest variant; every field but id is subject to the link's redaction policy.
+export interface PublicGuestDTO extends Pick<GuestDTO, "id"> {
+  name?: string; // Absent when names are hidden; possibly shortened otherwise
+  tag?: string;
+  rsvp?: string;
+  note?: string;
 }
 
-export interface PublicPlanDataDTO extends Omit<PlanDataDTO, "guests"> {
+// Parties are never published: their names often carry surnames.
+export interface PublicPlanDataDTO extends Omit<PlanDataDTO, "guests" | "parties"> {
   guests: PublicGuestDTO[];
 }
 
@@ -101,7 +151,7 @@ export interface EventDTO {
   owner_id: UUID;
   name: string;
   event_date: string | null; // 'YYYY-MM-DD' or null
-  grid: { rows: number; cols: number }; // Derived from grid_rows / grid_cols
+  grid: GridSizeDTO; // Derived from grid_rows / grid_cols
   plan_data: PlanDataDTO; // Refined JSONB
   autosave_version: number;
   lock: LockStatusDTO; // Derived from lock_held_by / lock_expires_at
@@ -131,6 +181,12 @@ export interface UpdateEventCommand {
   grid_cols?: number; // Structural change may trigger snapshot
 }
 
+// Tables that would no longer fit when grid_rows / grid_cols shrink (409 GRID_RESIZE_CONFLICT details).
+export interface GridResizeConflictDTO {
+  grid: GridSizeDTO; // Requested grid
+  tables: { table_id: string; label?: string; position: GridPositionDTO }[];
+}
+
 // Empty body marker for restore endpoint – represented as an object type.
 export type RestoreEventCommand = Record<string, never>; // Explicitly no properties
 
@@ -148,6 +204,10 @@ export interface SeatRefDTO {
   seat_no: number;
 }
 
+// Fields to change on a table, guest or party. An optional field set to null is cleared; null is
+// used rather than undefined because ops travel as JSON, where undefined values are dropped.
+export type PlanPatch<T> = { [K in keyof T]?: undefined extends T[K] ? T[K] | null : T[K] };
+
 // Discriminated union representing atomic plan modifications.
 export type PlanOperation =
   | {
@@ -157,7 +217,7 @@ export type PlanOperation =
   | {
       op: "update_table";
       id: string;
-      patch: Partial<Omit<TableDTO, "id" | "seats">> & { capacity?: number };
+      patch: PlanPatch<Omit<TableDTO, "id" | "seats">> & { capacity?: number };
     }
   | {
       op: "remove_table";
@@ -170,17 +230,35 @@ export type PlanOperation =
   | {
       op: "update_guest";
       id: string;
-      patch: Partial<Omit<GuestDTO, "id">>;
+      patch: PlanPatch<Omit<GuestDTO, "id">>;
     }
   | {
       op: "remove_guest";
       id: string;
     }
+  | {
+      op: "add_party";
+      party: PartyDTO;
+    }
+  | {
+      op: "update_party";
+      id: string;
+      patch: PlanPatch<Omit<PartyDTO, "id">>;
+    }
+  | {
+      op: "remove_party"; // Members stay in the guest list without a party
+      id: string;
+    }
   | {
       op: "assign_guest_seat";
       guest_id: string;
       table_id: string;
       seat_no?: number; // seat_no optional for random assignment
+      seed?: string; // PRNG seed used when seat_no is omitted; recorded for exact replay
+    }
+  | {
+      op: "unassign_guest_seat"; // Returns guest to the unseated list (inverse of a first assignment)
+      guest_id: string;
     }
   | {
       op: "swap_seats";
@@ -192,13 +270,14 @@ export type PlanOperation =
       guest_id: string;
       to_table_id: string;
       seat_no?: number;
+      seed?: string; // PRNG seed used when seat_no is omitted; recorded for exact replay
     }
   | {
       op: "change_seat_order_settings";
       table_id: string;
       start_index: number;
       head_seat: number;
-      direction?: "clockwise";
+      direction?: SeatDirection;
     };
 
 // Single-operation command shortcuts mirroring dedicated endpoints.
@@ -215,6 +294,13 @@ export type DeleteGuestCommand = Record<string, never>; // Path-driven marker
 export interface AssignGuestSeatCommand {
   guest_id: string;
   table_id: string;
+  seed?: string; // Optional; generated server-side when absent
+}
+// Randomly seats several guests on one table at once ("fill table" mode).
+export interface FillTableCommand {
+  table_id: string;
+  guest_ids: string[];
+  seed?: string;
 }
 export interface SeatSwapCommand {
   a: SeatRefDTO;
@@ -224,7 +310,43 @@ export interface ChangeSeatOrderCommand {
   table_id: string;
   start_index: number;
   head_seat: number;
-  direction?: "clockwise";
+  direction?: SeatDirection;
+}
+
+// --------------------------------------------------------
+// Auto-seating (proposal only; accepted ops are applied through plan/bulk)
+// --------------------------------------------------------
+// Soft rules carry an optional weight (higher = more important); pin_to_table is hard.
+export type AutoSeatRuleDTO =
+  | { rule: "keep_together"; tag: string; weight?: number }
+  | { rule: "keep_together"; party_id: string; weight?: number }
+  | { rule: "keep_apart"; guest_ids: [string, string]; weight?: number }
+  | { rule: "pin_to_table"; guest_id: string; table_id: string }
+  | { rule: "fill_head_table_first"; table_id: string; weight?: number }
+  | { rule: "balance_tables"; weight?: number };
+
+export interface AutoSeatCommand {
+  rules: AutoSeatRuleDTO[];
+  seed?: string; // Reproducible search; generated when absent
+  keep_seated?: boolean; // Keep currently seated guests where they are (default false)
+  include_declined?: boolean; // Seat guests whose RSVP is "No" (default false)
+  max_iterations?: number; // Local search budget (default 5000, capped at 50000)
+}
+
+export interface AutoSeatViolationDTO {
+  rule_index: number; // Index into AutoSeatCommand.rules
+  rule: AutoSeatRuleDTO["rule"];
+  message: string;
+  guest_ids?: string[];
+  table_ids?: string[];
+}
+
+export interface AutoSeatProposalDTO {
+  ops: PlanOperation[]; // Reviewable diff against the current plan
+  score: number; // 0..100, share of rule weight satisfied
+  violations: AutoSeatViolationDTO[];
+  unseated_guest_ids: string[]; // Guests that did not fit anywhere
+  seed: string;
 }
 
 // --------------------------------------------------------
@@ -245,10 +367,13 @@ export type EventLockDTO = LockStatusDTO; // Alias for clarity within EventDTO
 // --------------------------------------------------------
 export type DBSnapshotRow = Tables<"snapshots">;
 
-export type SnapshotDTO = Pick<
-  DBSnapshotRow,
-  "id" | "event_id" | "created_at" | "created_by" | "is_manual" | "label" | "previous_snapshot_id"
->;
+export interface SnapshotDTO
+  extends Pick<
+    DBSnapshotRow,
+    "id" | "event_id" | "created_at" | "created_by" | "is_manual" | "label" | "previous_snapshot_id"
+  > {
+  diff_summary: PlanDiffSummaryDTO | null; // Change summary vs previous snapshot (null for the first)
+}
 export interface SnapshotDetailDTO extends SnapshotDTO {
   plan_data: PlanDataDTO;
 }
@@ -257,10 +382,84 @@ export interface CreateSnapshotCommand {
 }
 export type RestoreSnapshotCommand = Record<string, never>; // Path-driven marker
 
+// Structured plan diff (snapshot version browser, FR-032).
+export interface ValueChangeDTO<T> {
+  from: T | null;
+  to: T | null;
+}
+
+export interface GuestRefDTO {
+  id: string;
+  name: string;
+}
+
+export interface SeatMoveDTO {
+  guest_id: string;
+  name: string;
+  from: SeatRefDTO | null; // null = was unseated
+  to: SeatRefDTO | null; // null = now unseated
+}
+
+export interface TableRefDTO {
+  id: string;
+  label: string | null;
+}
+
+export interface TableChangeDTO extends TableRefDTO {
+  changes: {
+    capacity?: ValueChangeDTO<number>;
+    label?: ValueChangeDTO<string>;
+    shape?: ValueChangeDTO<Enums<"table_shape_enum">>;
+  };
+}
+
+export interface PlanDiffDTO {
+  guests_added: GuestRefDTO[];
+  guests_removed: GuestRefDTO[];
+  guests_renamed: (GuestRefDTO & { previous_name: string })[];
+  seat_moves: SeatMoveDTO[];
+  tables_added: TableRefDTO[];
+  tables_removed: TableRefDTO[];
+  tables_changed: TableChangeDTO[];
+}
+
+// Compact form stored in snapshots.diff_summary: full counts, capped item lists.
+export interface PlanDiffSummaryDTO {
+  counts: Record<keyof PlanDiffDTO, number>;
+  changes: PlanDiffDTO;
+  truncated: boolean; // True when any list was capped
+}
+
+// GET /api/events/{event_id}/snapshots/{snapshot_id}/diff?against=<snapshot_id|live>
+export interface SnapshotDiffDTO {
+  from: { snapshot_id: UUID; created_at: ISO8601Timestamp };
+  to: { snapshot_id: UUID | null; created_at: ISO8601Timestamp }; // snapshot_id null = live event
+  diff: PlanDiffDTO;
+}
+
+// Snapshot retention (automatic snapshots expire after 30 days; manual ones are capped per event).
+export interface SnapshotPruneReportDTO {
+  dry_run: boolean; // True = nothing was deleted, report only
+  cutoff: ISO8601Timestamp; // Automatic snapshots created before this are expired
+  deleted: Pick<SnapshotDTO, "id" | "event_id" | "created_at">[];
+  relinked: {
+    snapshot_id: UUID; // Surviving snapshot whose previous link pointed at a deleted one
+    previous_snapshot_id: UUID; // Deleted parent
+    new_previous_snapshot_id: UUID | null; // Nearest surviving ancestor (null = chain start)
+  }[];
+}
+
+export interface PruneSnapshotsCommand {
+  dry_run?: boolean; // Default true
+  retention_days?: number; // Default 30
+  event_id?: UUID; // Limit to one event
+}
+
 // --------------------------------------------------------
 // Share Links & Public Access
 // --------------------------------------------------------
 export type DBShareLinkRow = Tables<"share_links">;
+export type ShareLinkSource = Enums<"share_link_source_enum">; // live | snapshot (pinned) | latest_manual
 
 export interface ShareLinkDTO
   extends Pick<
@@ -274,20 +473,48 @@ export interface ShareLinkDTO
     | "created_at"
     | "created_by"
     | "last_accessed_at"
+    | "source"
+    | "snapshot_id"
+    | "guest_names"
+    | "show_tags"
+    | "show_rsvp"
+    | "auto_revoke_on_anomaly"
   > {
   url: string; // Computed externally (e.g., `${origin}/share/${token}`)
+  password_protected: boolean; // password_hash is never exposed
 }
 
 export interface CreateShareLinkCommand {
   password?: string; // Optional; min length 8 (runtime validation)
   expires_at?: ISO8601Timestamp | null;
-  include_pii?: boolean; // Default false
+  include_pii?: boolean; // Show guest notes; default false
+  guest_names?: GuestNameDisplay; // Default full
+  show_tags?: boolean; // Default true
+  show_rsvp?: boolean; // Default true
+  auto_revoke_on_anomaly?: boolean; // Revoke when the access review flags the link; default false
+  source?: ShareLinkSource; // Default live
+  snapshot_id?: UUID; // Required with source "snapshot", not allowed otherwise
 }
 
 export interface UpdateShareLinkCommand {
   password?: string; // Empty string => remove password protection
   expires_at?: ISO8601Timestamp | null;
   include_pii?: boolean;
+  guest_names?: GuestNameDisplay;
+  show_tags?: boolean;
+  show_rsvp?: boolean;
+  auto_revoke_on_anomaly?: boolean;
+  source?: ShareLinkSource;
+  snapshot_id?: UUID; // Required with source "snapshot"
+}
+
+// Snapshots the current plan and pins the link to it.
+export interface PublishShareLinkCommand {
+  label?: string; // Snapshot label, e.g. "Sent to venue"
+}
+export interface PublishShareLinkResultDTO {
+  share_link: ShareLinkDTO;
+  snapshot: SnapshotDTO;
 }
 
 export type RevokeShareLinkCommand = Record<string, never>; // Path-driven marker
@@ -300,19 +527,113 @@ export interface ShareLinkAuthResultDTO {
   expires_in: number;
 }
 
-// Public event view (sanitized). Mirror of EventDTO with PublicPlanData.
-export interface PublicEventViewDTO extends Omit<EventDTO, "plan_data"> {
+// Which version of the plan a share link viewer is looking at.
+export interface PublishedVersionDTO {
+  source: ShareLinkSource;
+  snapshot_id: UUID | null; // Null for the live plan
+  label: string | null; // Snapshot label
+  published_at: ISO8601Timestamp; // Snapshot created_at; events.updated_at for the live plan
+}
+
+// Public event view (sanitized). Subset of EventDTO with PublicPlanData; owner and lock are
+// never exposed.
+export interface PublicEventViewDTO extends Pick<EventDTO, "id" | "name" | "event_date" | "grid"> {
   plan_data: PublicPlanDataDTO;
+  version: PublishedVersionDTO;
+  redaction: RedactionPolicyDTO; // Policy applied to plan_data
+}
+
+// "Find my seat" lookup on a share link. Matches carry no guest names or notes.
+export interface SeatLookupCommand {
+  name: string;
+}
+export interface SeatLookupMatchDTO {
+  table_label: string;
+  seat_no: number; // Display number (start_index applied), as on place cards
+}
+export interface SeatLookupResultDTO {
+  matches: SeatLookupMatchDTO[]; // Best matches first; empty when nobody seated matches
+}
+
+// QR code image of a share link (GET .../share-links/{id}/qr).
+export type ShareLinkQrTarget = "view" | "seat_lookup";
+export interface ShareLinkQrQuery {
+  format: "svg" | "png";
+  size: number; // Pixels per side, quiet zone included
+  target: ShareLinkQrTarget;
 }
 
 // --------------------------------------------------------
 // Share Link Access Logs
 // --------------------------------------------------------
+export type AccessLogKind = Enums<"access_log_kind_enum">; // view | seat_lookup
+export type AccessDevice = "desktop" | "mobile" | "tablet" | "bot" | "other"; // access_logs.device
 export type ShareLinkAccessLogDTO = Pick<
   Tables<"access_logs">,
-  "id" | "event_id" | "share_link_id" | "accessed_at" | "geo_country" | "user_agent" | "pii_exposed"
+  | "id"
+  | "event_id"
+  | "share_link_id"
+  | "accessed_at"
+  | "kind"
+  | "geo_country"
+  | "device"
+  | "browser"
+  | "user_agent"
+  | "pii_exposed"
+>;
+
+export interface AccessSummaryQuery {
+  from?: ISO8601Timestamp; // Default 30 days before `to`
+  to?: ISO8601Timestamp; // Default now
+}
+
+// GET /api/events/{event_id}/share-links/{id}/access-summary
+export interface ShareLinkAccessSummaryDTO {
+  share_link_id: UUID;
+  from: ISO8601Timestamp;
+  to: ISO8601Timestamp;
+  total: number;
+  views: number;
+  seat_lookups: number;
+  pii_exposed: number; // Hits whose response included personal data
+  unique_ips: number;
+  first_access_at: ISO8601Timestamp | null;
+  last_access_at: ISO8601Timestamp | null;
+  by_country: { country: string | null; count: number }[]; // Most hits first; null = unresolved
+  by_device: { device: AccessDevice | null; count: number }[];
+  by_browser: { browser: string | null; count: number }[];
+  by_day: { day: string; count: number }[]; // 'YYYY-MM-DD' (UTC), ascending
+  anomalies: AccessAnomalyDTO[]; // Newest first, whole link history
+}
+
+export type AccessAnomalyKind = Enums<"access_anomaly_kind_enum">; // country_burst | pii_spike
+export type AccessAnomalyDTO = Pick<
+  Tables<"access_anomalies">,
+  "id" | "share_link_id" | "kind" | "window_start" | "window_end" | "details" | "link_revoked" | "detected_at"
 >;
 
+export interface ReviewShareLinkAccessCommand {
+  dry_run?: boolean; // Default true
+  window_minutes?: number; // Review window; default 60
+  country_threshold?: number; // Distinct countries within the window; default 5
+  pii_min_hits?: number; // PII-exposing hits within the window; default 50
+  pii_spike_factor?: number; // Multiple of the link's 7-day baseline per window; default 5
+  pii_min_baseline_hours?: number; // Link history needed before a PII spike auto-revokes; default 24
+}
+
+export interface AccessReviewReportDTO {
+  dry_run: boolean;
+  window_start: ISO8601Timestamp;
+  window_end: ISO8601Timestamp;
+  anomalies: {
+    share_link_id: UUID;
+    event_id: UUID;
+    kind: AccessAnomalyKind;
+    details: Record<string, unknown>; // country_burst: { countries, hits }; pii_spike: { hits, baseline, baseline_hours }
+    revoked: boolean; // Link auto-revoked (or would be, on a dry run)
+  }[];
+}
+
 // --------------------------------------------------------
 // Audit Log
 // --------------------------------------------------------
@@ -321,6 +642,24 @@ export type AuditLogEntryDTO = Pick<
   "id" | "event_id" | "share_link_id" | "user_id" | "action_type" | "details" | "created_at"
 >;
 
+export type AuditActionType = Enums<"action_type_enum">;
+
+// Entry about to be written; event, acting user and share link are supplied by the writer.
+export interface AuditEntryDraft {
+  action_type: AuditActionType;
+  details: Record<string, unknown>; // Plan ops: { op, <entity>_id, before, after }; null side = created/deleted
+}
+
+// GET /api/events/{event_id}/audit-log
+export interface AuditLogQuery {
+  limit: number;
+  cursor?: CursorToken;
+  action_type?: AuditActionType[]; // Any of these
+  user_id?: UUID;
+  from?: ISO8601Timestamp; // Inclusive
+  to?: ISO8601Timestamp; // Exclusive
+}
+
 // --------------------------------------------------------
 // Guest Imports
 // --------------------------------------------------------
@@ -336,10 +675,12 @@ export type GuestImportStatusDTO = Pick<
   | "started_at"
   | "completed_at"
   | "audit_trail"
+  | "previous_import_id"
 >;
 
 export interface UploadGuestImportMetaCommand {
   consent_text: string;
+  previous_import_id?: UUID; // Re-upload of a corrected file; links to the import it replaces
 }
 
 export interface DuplicateDecisionDTO {
@@ -351,6 +692,23 @@ export interface DuplicateDecisionDTO {
 export interface ResolveDuplicatesCommand {
   decisions: DuplicateDecisionDTO[];
 }
+
+export interface DuplicateMemberDTO {
+  id: string; // Existing guest id, or "row:<row_number>" for an import row
+  source: "plan" | "import";
+  row_number?: number; // Present for import rows
+  name: string;
+}
+
+// Likely-duplicate cluster found in an import (FR-013).
+export interface DuplicateGroupDTO {
+  group_id: string; // Stable while membership is unchanged
+  members: DuplicateMemberDTO[];
+  confidence: number; // 0..1 similarity of the weakest link
+  ambiguous: boolean; // Needs an explicit decision before finalize
+  suggested_keep_id: string; // Existing guest when present, else the first row
+  decision: DuplicateDecisionDTO | null; // Latest recorded decision
+}
 export type FinalizeImportCommand = Record<string, never>; // Path-driven marker
 
 // Optional internal representation of import error rows (for CSV/XLSX streaming).
@@ -360,10 +718,90 @@ export interface ImportErrorRowDTO {
   error: string;
 }
 
+// GET /api/events/{event_id}/imports/{import_id}/errors
+export type ImportErrorReportFormat = "csv" | "xlsx";
+
+// Canonical template columns (FR-010); Party and Child are optional extensions.
+export type GuestImportColumn = "Name" | "InitialTable" | "Note" | "OptionalTag" | "Party" | "Child";
+
+// Canonical column -> 0-based source column index (null = not mapped).
+export type ImportColumnMappingDTO = Record<GuestImportColumn, number | null>;
+
+// PUT /api/events/{event_id}/imports/{import_id}/mapping
+export interface UpdateImportMappingCommand {
+  mapping: Partial<ImportColumnMappingDTO>; // Omitted columns keep their current mapping
+}
+
+export interface ImportSourceColumnDTO {
+  index: number;
+  header: string; // As written in the sheet's first row ('' when blank)
+  mapped_to: GuestImportColumn | null; // null = ignored
+}
+
+export type ImportRowStatus = "ok" | "error" | "duplicate";
+
+export interface ImportPreviewRowDTO {
+  row_number: number;
+  status: ImportRowStatus;
+  values: Partial<Record<GuestImportColumn, string>>; // Mapped cell values
+  errors: ImportErrorRowDTO[];
+}
+
+// GET /api/events/{event_id}/imports/{import_id}/preview
+export interface ImportPreviewDTO {
+  import: GuestImportStatusDTO;
+  sheet_name: string;
+  columns: ImportSourceColumnDTO[];
+  mapping: ImportColumnMappingDTO;
+  rows: ImportPreviewRowDTO[]; // First N data rows
+  errors: ImportErrorRowDTO[]; // Every validation error in the sheet
+  duplicate_groups: DuplicateGroupDTO[];
+  unresolved_group_ids: string[]; // Ambiguous groups still blocking finalize
+}
+
+export interface ImportAuditEntryDTO {
+  at: ISO8601Timestamp;
+  user_id: UUID;
+  action:
+    | "uploaded"
+    | "mapping_updated"
+    | "validated"
+    | "duplicate_resolved" // details: decision, members, confidence
+    | "duplicate_auto_merged" // Unambiguous group merged at finalize without a decision
+    | "completed"
+    | "failed";
+  details?: Record<string, unknown>;
+}
+
+// Shape of guest_imports.audit_trail.
+export interface ImportAuditTrailDTO {
+  entries: ImportAuditEntryDTO[];
+}
+
+// Returned by upload (202).
+export interface UploadGuestImportResultDTO {
+  import_id: UUID;
+  status: Enums<"import_status_enum">;
+}
+
+// Returned by finalize.
+export interface FinalizeImportResultDTO {
+  import: GuestImportStatusDTO;
+  guests_added: number;
+  merged_rows: number; // Import rows folded into another guest by duplicate merges
+  seated: number;
+  unseated_guest_ids: UUID[]; // InitialTable unknown or full
+  autosave_version: number;
+  snapshot_id: UUID | null;
+}
+
 // --------------------------------------------------------
 // Flattened Guest Projection
 // --------------------------------------------------------
-export interface GuestListItemDTO extends Pick<GuestDTO, "id" | "name" | "tag" | "rsvp"> {
+export interface GuestListItemDTO
+  extends Pick<GuestDTO, "id" | "name" | "tag" | "rsvp" | "party_id" | "plus_one_of" | "is_placeholder" | "age_group"> {
+  party_name?: string; // Resolved from party_id
+  is_primary_contact?: boolean; // True for the party's primary contact
   table_id?: string; // Present if seated
   seat_no?: number; // Present if seated
   unseated: boolean; // Convenience flag
@@ -373,9 +811,15 @@ export interface GuestListItemDTO extends Pick<GuestDTO, "id" | "name" | "tag" |
 // Exports
 // --------------------------------------------------------
 export interface CreateExportCommand {
-  type: "pdf" | "png" | "xlsx" | "csv";
+  type: "pdf" | "png" | "xlsx" | "csv" | "place_cards" | "escort_poster";
   include_notes?: boolean; // default false
   orientation?: "landscape" | "portrait"; // default landscape for PDF/PNG
+  scale?: number; // PNG only: multiple of 300 dpi, default 1
+  table_id?: string; // PNG only: render a single table
+  hide_names?: boolean; // PNG only: chairs without guest names, default false
+  sort?: "table" | "name"; // XLSX/CSV: table then seat (default) or alphabetical
+  paper?: "a4" | "a3" | "letter" | "tabloid"; // Place cards (default a4) and escort poster (default a3)
+  meal_icons?: boolean; // Place cards: meal badges from guest notes, default false
 }
 
 export interface ExportStatusDTO {
@@ -394,14 +838,97 @@ export interface CreateDataRequestCommand {
 
 export type DataRequestDTO = Pick<
   Tables<"data_requests">,
-  "id" | "user_id" | "event_id" | "type" | "status" | "requested_at" | "processed_at" | "result_url"
+  | "id"
+  | "user_id"
+  | "event_id"
+  | "type"
+  | "status"
+  | "requested_at"
+  | "processed_at"
+  | "result_url"
+  | "result_expires_at"
+  | "rejection_reason"
+  | "report"
 >;
 
+export type DataRequestType = Enums<"data_request_type_enum">;
+export type DataRequestStatus = Enums<"data_request_status_enum">;
+
+// POST /api/admin/data-requests/process-exports and process-deletions (scheduler)
+export interface ProcessDataRequestsCommand {
+  dry_run?: boolean; // Default true: report what would be processed (and purged)
+  limit?: number; // Requests handled per run; default 5
+}
+
+export interface DataRequestRunItemDTO {
+  request_id: UUID;
+  user_id: UUID;
+  event_id: UUID | null;
+  outcome: "completed" | "rejected" | "failed" | "pending"; // failed = released for retry; pending on dry runs
+  reason?: string; // Rejection or failure code
+}
+
+export interface DataExportReportDTO {
+  dry_run: boolean;
+  requests: DataRequestRunItemDTO[];
+  purged: UUID[]; // Requests whose expired archives were deleted
+}
+
+export interface DataErasureRunReportDTO {
+  dry_run: boolean;
+  requests: (DataRequestRunItemDTO & { verified?: boolean })[]; // verified: completed erasures only
+}
+
+// data_requests.report of a completed deletion request. Holds no personal data.
+export interface DataErasureReportDTO {
+  scope: "event" | "account";
+  event_ids: UUID[];
+  erased_at: ISO8601Timestamp;
+  counts: {
+    events: number;
+    snapshots: number;
+    guests_pseudonymized: number; // Summed over the live plans
+    parties_pseudonymized: number;
+    access_log_ips_cleared: number;
+    import_consent_ips_cleared: number;
+    audit_entries_scrubbed: number;
+    snapshot_summaries_scrubbed: number;
+    guest_imports_scrubbed: number;
+    profiles_anonymized: number;
+    export_archives_deleted: number;
+  };
+  verification: {
+    terms_checked: number; // Distinct guest and party names captured before erasure
+    export_archives: UUID[]; // Export requests whose archives were deleted
+    residual: { table: string; row_id: string | number }[]; // Rows still containing one of them, or archives left
+    verified: boolean; // No residual rows
+  };
+}
+
+// manifest.json at the root of a data export archive.
+export interface DataExportManifestDTO {
+  format: "seating-data-export";
+  version: 1;
+  request_id: UUID;
+  user_id: UUID;
+  event_id: UUID | null; // Null for an account-wide export
+  generated_at: ISO8601Timestamp;
+  files: { name: string; records: number }[];
+}
+
+// GET /api/data-requests/{request_id}/download (signed link)
+export interface DataExportDownloadQuery {
+  expires: number; // Unix seconds
+  signature: string;
+}
+
 // --------------------------------------------------------
 // Analytics Events
 // --------------------------------------------------------
+export type AnalyticsEventType = Enums<"analytics_event_type_enum">;
+
 export interface AnalyticsEventCommandItem {
-  event_type: Enums<"analytics_event_type_enum">;
+  event_type: AnalyticsEventType;
   event_id?: UUID | null;
   metadata?: Record<string, unknown>; // Sanitized server-side; PII stripped
 }
@@ -411,6 +938,27 @@ export interface AnalyticsEventIngestCommand {
 }
 export interface AnalyticsIngestResultDTO {
   accepted: number;
+  dropped: number; // Events referencing an event the caller cannot access
+  dropped_fields: string[]; // Metadata keys removed by the per-type allow-lists
+}
+
+// Stored analytics_events.metadata after sanitizing.
+export type AnalyticsMetadata = Record<string, string | number | boolean>;
+
+// GET /api/admin/analytics/funnel
+export interface AnalyticsFunnelQuery {
+  from?: ISO8601Timestamp; // Default: 30 days before `to`
+  to?: ISO8601Timestamp; // Default: now
+}
+
+export interface AnalyticsFunnelDTO {
+  from: ISO8601Timestamp;
+  to: ISO8601Timestamp;
+  steps: {
+    event_type: AnalyticsEventType;
+    events: number; // Events (by hash) that reached this step in order
+    conversion: number | null; // Share of the previous step; null for the first step or when it is empty
+  }[];
 }
 
 // --------------------------------------------------------
@@ -0,0 +1,36 @@
+-- migration: store structured diff summaries on snapshots
+-- timestamp (utc): 2025-11-04 12:00:00
+-- description: extends create_snapshot() with an optional diff summary computed by the api
+-- design notes:
+--   * the diff itself is computed in the application (src/lib/plan/plan-diff.ts); postgres only stores it
+--   * p_diff_base names the snapshot the summary was computed against; if another snapshot was
+--     created in the meantime the summary would be stale, so it is dropped (diff_summary stays null)
+--   * the old 3-argument signature is dropped so rpc resolution stays unambiguous
+
+drop function if exists create_snapshot(uuid, text, boolean);
+
+create or replace function create_snapshot(
+  p_event_id uuid,
+  p_label text default null,
+  p_is_manual boolean default false,
+  p_diff_summary jsonb default null,
+  p_diff_base uuid default null
+)
+returns uuid language plpgsql security definer set search_path = public, pg_temp as $$
+declare v_plan jsonb; v_id uuid := gen_random_uuid(); v_prev uuid; v_summary jsonb;
+begin
+  select plan_data into v_plan from events where id = p_event_id and owner_id = auth.uid();
+  if v_plan is null then
+    raise exception 'event not found or not owned by user';
+  end if;
+  select id into v_prev from snapshots where event_id = p_event_id order by created_at desc limit 1;
+  if p_diff_summary is not null and v_prev is not distinct from p_diff_base then
+    v_summary := p_diff_summary;
+  end if;
+  insert into snapshots(id,event_id,created_by,label,is_manual,plan_data,previous_snapshot_id,diff_summary)
+    values (v_id,p_event_id,auth.uid(),p_label,coalesce(p_is_manual,false),v_plan,v_prev,v_summary);
+  return v_id;
+end;$$;
+comment on function create_snapshot(uuid, text, boolean, jsonb, uuid) is 'capture current plan_data of an owned event into snapshots, with an optional diff summary vs the previous snapshot';
+
+-- end of migration
@@ -0,0 +1,106 @@
+-- migration: snapshot retention (automatic snapshot expiry, manual snapshot cap)
+-- timestamp (utc): 2025-11-05 09:00:00
+-- description: adds prune_expired_snapshots() and enforces admin_flags.max_manual_snapshots in create_snapshot()
+-- design notes:
+--   * automatic snapshots older than the retention window (default 30 days) are deleted; manual ones never expire
+--   * the newest snapshot of every event is always kept so each event retains a restore point
+--   * survivors pointing at a deleted snapshot are relinked to their nearest surviving ancestor; their
+--     diff_summary is cleared because it described the change vs the deleted parent (the api recomputes it)
+--   * prune runs as service role only (snapshots are immutable for clients via rls)
+--   * max_manual_snapshots is a per-event cap taken from the owner's admin_flags row; 0 or no row = unlimited
+
+-- =============================================
+-- 1. manual snapshot cap
+-- =============================================
+
+create or replace function create_snapshot(
+  p_event_id uuid,
+  p_label text default null,
+  p_is_manual boolean default false,
+  p_diff_summary jsonb default null,
+  p_diff_base uuid default null
+)
+returns uuid language plpgsql security definer set search_path = public, pg_temp as $$
+declare v_plan jsonb; v_id uuid := gen_random_uuid(); v_prev uuid; v_summary jsonb; v_limit int; v_count int;
+begin
+  -- row lock serializes snapshot creation per event (cap check + chain head)
+  select plan_data into v_plan from events where id = p_event_id and owner_id = auth.uid() for update;
+  if v_plan is null then
+    raise exception 'event not found or not owned by user';
+  end if;
+  if coalesce(p_is_manual, false) then
+    select max_manual_snapshots into v_limit from admin_flags where user_id = auth.uid();
+    if coalesce(v_limit, 0) > 0 then
+      select count(*) into v_count from snapshots where event_id = p_event_id and is_manual;
+      if v_count >= v_limit then
+        raise exception using
+          message = 'manual snapshot limit reached',
+          detail = json_build_object('limit', v_limit, 'count', v_count)::text;
+      end if;
+    end if;
+  end if;
+  select id into v_prev from snapshots where event_id = p_event_id order by created_at desc limit 1;
+  if p_diff_summary is not null and v_prev is not distinct from p_diff_base then
+    v_summary := p_diff_summary;
+  end if;
+  insert into snapshots(id,event_id,created_by,label,is_manual,plan_data,previous_snapshot_id,diff_summary)
+    values (v_id,p_event_id,auth.uid(),p_label,coalesce(p_is_manual,false),v_plan,v_prev,v_summary);
+  return v_id;
+end;$$;
+
+-- =============================================
+-- 2. automatic snapshot pruning
+-- =============================================
+
+create or replace function prune_expired_snapshots(
+  p_dry_run boolean default true,
+  p_retention interval default interval '30 days',
+  p_event_id uuid default null
+)
+returns jsonb language plpgsql set search_path = public, pg_temp as $$
+declare v_cutoff timestamptz := now() - p_retention; v_expired uuid[]; v_deleted jsonb; v_relinked jsonb;
+begin
+  select coalesce(array_agg(s.id), '{}') into v_expired
+  from snapshots s
+  where not s.is_manual
+    and s.created_at < v_cutoff
+    and (p_event_id is null or s.event_id = p_event_id)
+    and s.id <> (select l.id from snapshots l where l.event_id = s.event_id order by l.created_at desc limit 1);
+
+  select coalesce(jsonb_agg(jsonb_build_object('id', s.id, 'event_id', s.event_id, 'created_at', s.created_at)
+           order by s.event_id, s.created_at), '[]'::jsonb)
+    into v_deleted
+  from snapshots s where s.id = any(v_expired);
+
+  -- walk each survivor's chain past expired ancestors
+  with recursive walk(snapshot_id, previous_id, cursor_id) as (
+    select s.id, s.previous_snapshot_id, s.previous_snapshot_id
+    from snapshots s
+    where s.previous_snapshot_id = any(v_expired) and not (s.id = any(v_expired))
+    union all
+    select w.snapshot_id, w.previous_id, p.previous_snapshot_id
+    from walk w join snapshots p on p.id = w.cursor_id
+    where w.cursor_id = any(v_expired)
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'snapshot_id', w.snapshot_id, 'previous_snapshot_id', w.previous_id, 'new_previous_snapshot_id', w.cursor_id)), '[]'::jsonb)
+    into v_relinked
+  from walk w
+  where w.cursor_id is null or not (w.cursor_id = any(v_expired));
+
+  if not p_dry_run then
+    update snapshots s
+      set previous_snapshot_id = (r ->> 'new_previous_snapshot_id')::uuid, diff_summary = null
+      from jsonb_array_elements(v_relinked) r
+      where s.id = (r ->> 'snapshot_id')::uuid;
+    delete from snapshots where id = any(v_expired);
+  end if;
+
+  return jsonb_build_object('dry_run', p_dry_run, 'cutoff', v_cutoff, 'deleted', v_deleted, 'relinked', v_relinked);
+end;$$;
+comment on function prune_expired_snapshots(boolean, interval, uuid) is 'delete automatic snapshots past retention, relinking previous_snapshot_id chains; report only when p_dry_run';
+
+revoke execute on function prune_expired_snapshots(boolean, interval, uuid) from public, anon, authenticated;
+grant execute on function prune_expired_snapshots(boolean, interval, uuid) to service_role;
+
+-- end of migration
@@ -0,0 +1,18 @@
+-- migration: guest import pipeline state
+-- timestamp (utc): 2025-11-06 10:00:00
+-- description: stores the parsed sheet and column mapping on guest_imports and links each import to its consent record
+-- design notes:
+--   * source holds the parsed single-sheet contents ({ sheet_name, headers, rows }) so mapping changes can be
+--     revalidated without re-uploading; it is cleared when the import completes (data minimisation)
+--   * column_mapping maps canonical template columns to 0-based source column indexes
+--   * consent_id is nullable for imports created before this migration
+
+alter table guest_imports
+  add column if not exists consent_id uuid null references import_consent (id) on delete set null,
+  add column if not exists column_mapping jsonb null,
+  add column if not exists source jsonb null;
+
+comment on column guest_imports.source is 'parsed sheet contents kept until the import completes';
+comment on column guest_imports.column_mapping is 'canonical column -> source column index mapping';
+
+-- end of migration
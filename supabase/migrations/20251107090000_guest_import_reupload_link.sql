@@ -0,0 +1,18 @@
+-- migration: link re-uploaded guest imports to the import they replace
+-- timestamp (utc): 2025-11-07 09:00:00
+-- description: adds guest_imports.previous_import_id so a corrected file uploaded from an error report
+--              points back at the import whose errors it fixes
+-- design notes:
+--   * the link is informational; the previous import keeps its own status and audit trail
+--   * on delete set null keeps later imports when an older one is removed (e.g. data requests)
+
+alter table guest_imports
+  add column if not exists previous_import_id uuid null references guest_imports (id) on delete set null;
+
+create index if not exists guest_imports_previous_import_id_idx
+  on guest_imports (previous_import_id)
+  where previous_import_id is not null;
+
+comment on column guest_imports.previous_import_id is 'import this upload replaces (re-upload after fixing errors)';
+
+-- end of migration
@@ -0,0 +1,81 @@
+-- migration: share links pinned to a published snapshot
+-- timestamp (utc): 2025-11-08 09:00:00
+-- description: adds share_links.source / share_links.snapshot_id so a link can show a published
+--              snapshot instead of the live plan, and keeps pinned snapshots out of retention pruning
+-- design notes:
+--   * source 'live' (default, previous behaviour) reads events.plan_data; 'snapshot' reads the pinned
+--     snapshot_id; 'latest_manual' follows the newest manual snapshot of the event at view time
+--   * snapshot_id uses the default no action fk: a pinned snapshot cannot be deleted on its own, but
+--     deleting the event still cascades to both tables in one statement
+--   * prune_expired_snapshots() is recreated unchanged apart from skipping snapshots a link pins
+
+create type share_link_source_enum as enum ('live','snapshot','latest_manual');
+
+alter table share_links
+  add column if not exists source share_link_source_enum not null default 'live',
+  add column if not exists snapshot_id uuid null references snapshots (id);
+
+alter table share_links
+  add constraint share_links_snapshot_source_check
+  check ((source = 'snapshot') = (snapshot_id is not null));
+
+create index if not exists share_links_snapshot_id_idx
+  on share_links (snapshot_id)
+  where snapshot_id is not null;
+
+comment on column share_links.source is 'which plan a viewer sees: live plan, pinned snapshot or latest manual snapshot';
+comment on column share_links.snapshot_id is 'published snapshot shown when source = snapshot';
+
+create or replace function prune_expired_snapshots(
+  p_dry_run boolean default true,
+  p_retention interval default interval '30 days',
+  p_event_id uuid default null
+)
+returns jsonb language plpgsql set search_path = public, pg_temp as $$
+declare v_cutoff timestamptz := now() - p_retention; v_expired uuid[]; v_deleted jsonb; v_relinked jsonb;
+begin
+  select coalesce(array_agg(s.id), '{}') into v_expired
+  from snapshots s
+  where not s.is_manual
+    and s.created_at < v_cutoff
+    and (p_event_id is null or s.event_id = p_event_id)
+    and s.id <> (select l.id from snapshots l where l.event_id = s.event_id order by l.created_at desc limit 1)
+    and not exists (select 1 from share_links sl where sl.snapshot_id = s.id);
+
+  select coalesce(jsonb_agg(jsonb_build_object('id', s.id, 'event_id', s.event_id, 'created_at', s.created_at)
+           order by s.event_id, s.created_at), '[]'::jsonb)
+    into v_deleted
+  from snapshots s where s.id = any(v_expired);
+
+  -- walk each survivor's chain past expired ancestors
+  with recursive walk(snapshot_id, previous_id, cursor_id) as (
+    select s.id, s.previous_snapshot_id, s.previous_snapshot_id
+    from snapshots s
+    where s.previous_snapshot_id = any(v_expired) and not (s.id = any(v_expired))
+    union all
+    select w.snapshot_id, w.previous_id, p.previous_snapshot_id
+    from walk w join snapshots p on p.id = w.cursor_id
+    where w.cursor_id = any(v_expired)
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'snapshot_id', w.snapshot_id, 'previous_snapshot_id', w.previous_id, 'new_previous_snapshot_id', w.cursor_id)), '[]'::jsonb)
+    into v_relinked
+  from walk w
+  where w.cursor_id is null or not (w.cursor_id = any(v_expired));
+
+  if not p_dry_run then
+    update snapshots s
+      set previous_snapshot_id = (r ->> 'new_previous_snapshot_id')::uuid, diff_summary = null
+      from jsonb_array_elements(v_relinked) r
+      where s.id = (r ->> 'snapshot_id')::uuid;
+    delete from snapshots where id = any(v_expired);
+  end if;
+
+  return jsonb_build_object('dry_run', p_dry_run, 'cutoff', v_cutoff, 'deleted', v_deleted, 'relinked', v_relinked);
+end;$$;
+comment on function prune_expired_snapshots(boolean, interval, uuid) is 'delete automatic snapshots past retention (except pinned by share links), relinking previous_snapshot_id chains; report only when p_dry_run';
+
+revoke execute on function prune_expired_snapshots(boolean, interval, uuid) from public, anon, authenticated;
+grant execute on function prune_expired_snapshots(boolean, interval, uuid) to service_role;
+
+-- end of migration
@@ -0,0 +1,15 @@
+-- migration: access log kind
+-- timestamp (utc): 2025-11-09 10:00:00
+-- description: adds access_logs.kind to tell full share link views from guest "find my seat" lookups
+-- design notes:
+--   * existing rows are all plan views, hence the 'view' default
+--   * lookups never expose notes, so their pii_exposed is always false
+
+create type access_log_kind_enum as enum ('view','seat_lookup');
+
+alter table access_logs
+  add column if not exists kind access_log_kind_enum not null default 'view';
+
+comment on column access_logs.kind is 'view = share link plan view, seat_lookup = guest find-my-seat lookup';
+
+-- end of migration
@@ -0,0 +1,23 @@
+-- migration: share link redaction policy
+-- timestamp (utc): 2025-11-10 09:00:00
+-- description: per-link redaction of guest fields in public plan views
+-- design notes:
+--   * guest_names picks how names appear ('full', 'first_last_initial', 'initials', 'hidden');
+--     show_tags / show_rsvp toggle those fields; include_pii keeps its meaning as the notes switch
+--   * defaults reproduce what existing links showed (full names, tags and rsvp)
+--   * access_logs.pii_exposed is now set from the applied policy: identifying names or notes
+
+create type guest_name_display_enum as enum ('full','first_last_initial','initials','hidden');
+
+alter table share_links
+  add column if not exists guest_names guest_name_display_enum not null default 'full',
+  add column if not exists show_tags boolean not null default true,
+  add column if not exists show_rsvp boolean not null default true;
+
+comment on column share_links.guest_names is 'how guest names appear in public views';
+comment on column share_links.show_tags is 'whether public views include guest tags';
+comment on column share_links.show_rsvp is 'whether public views include guest rsvp status';
+comment on column share_links.include_pii is 'whether public views include guest notes';
+comment on column access_logs.pii_exposed is 'whether the applied redaction policy showed identifying names or notes';
+
+-- end of migration
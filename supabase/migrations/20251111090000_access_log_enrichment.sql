@@ -0,0 +1,183 @@
+-- migration: share link access enrichment and anomaly review
+-- timestamp (utc): 2025-11-11 09:00:00
+-- description: device / browser columns on access_logs, per-link access summary, anomaly detection with
+--              optional auto-revoke
+-- design notes:
+--   * geo_country, device and browser are filled by the api when the row is written (offline geo-ip
+--     database, user agent parsing); rows written before this migration keep nulls
+--   * review_share_link_access() is run by the scheduler as service role. it flags two patterns per live
+--     link within the review window: hits from many distinct countries (country_burst), and pii-exposing
+--     hits far above the link's own 7-day baseline (pii_spike)
+--   * a link/kind pair is flagged at most once per window; links with auto_revoke_on_anomaly are revoked
+--     when flagged (revoked_by stays null = revoked by the system)
+--   * share_link_access_summary() is security invoker, so the access_logs owner policy applies
+
+-- =============================================
+-- 1. schema
+-- =============================================
+
+alter table access_logs
+  add column if not exists device text null,
+  add column if not exists browser text null;
+
+alter table access_logs
+  add constraint access_logs_device_check
+  check (device is null or device in ('desktop','mobile','tablet','bot','other'));
+
+comment on column access_logs.device is 'device class parsed from user_agent: desktop, mobile, tablet, bot or other';
+comment on column access_logs.browser is 'browser family parsed from user_agent (e.g. Chrome, Safari)';
+comment on column access_logs.geo_country is 'iso 3166-1 alpha-2 country resolved from ip with the offline geo-ip database';
+
+alter table share_links
+  add column if not exists auto_revoke_on_anomaly boolean not null default false;
+
+comment on column share_links.auto_revoke_on_anomaly is 'revoke the link automatically when the access review flags it';
+
+create type access_anomaly_kind_enum as enum ('country_burst','pii_spike');
+
+create table if not exists access_anomalies (
+  id bigserial primary key,
+  share_link_id uuid not null references share_links (id) on delete cascade,
+  event_id uuid not null references events (id) on delete cascade,
+  kind access_anomaly_kind_enum not null,
+  window_start timestamptz not null,
+  window_end timestamptz not null,
+  details jsonb not null default '{}'::jsonb,
+  link_revoked boolean not null default false,
+  detected_at timestamptz not null default now()
+);
+comment on table access_anomalies is 'suspicious share link access patterns flagged by review_share_link_access()';
+
+create index if not exists access_anomalies_share_link_idx on access_anomalies (share_link_id, detected_at desc);
+create index if not exists access_anomalies_event_idx on access_anomalies (event_id);
+create index if not exists access_logs_accessed_at_idx on access_logs (accessed_at);
+
+alter table access_anomalies enable row level security;
+
+create policy access_anomalies_owner_select_authenticated on access_anomalies for select to authenticated
+  using (auth.uid() = (select owner_id from events e where e.id = access_anomalies.event_id));
+
+-- =============================================
+-- 2. per-link access summary
+-- =============================================
+
+create or replace function share_link_access_summary(
+  p_share_link_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns jsonb language sql stable set search_path = public, pg_temp as $$
+  with logs as (
+    select accessed_at, kind, ip, geo_country, device, browser, pii_exposed
+    from access_logs
+    where share_link_id = p_share_link_id and accessed_at >= p_from and accessed_at < p_to
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from logs),
+    'views', (select count(*) from logs where kind = 'view'),
+    'seat_lookups', (select count(*) from logs where kind = 'seat_lookup'),
+    'pii_exposed', (select count(*) from logs where pii_exposed),
+    'unique_ips', (select count(distinct ip) from logs),
+    'first_access_at', (select min(accessed_at) from logs),
+    'last_access_at', (select max(accessed_at) from logs),
+    'by_country', (select coalesce(jsonb_agg(jsonb_build_object('country', geo_country, 'count', n) order by n desc, geo_country), '[]'::jsonb)
+                   from (select geo_country, count(*) n from logs group by geo_country) g),
+    'by_device', (select coalesce(jsonb_agg(jsonb_build_object('device', device, 'count', n) order by n desc, device), '[]'::jsonb)
+                  from (select device, count(*) n from logs group by device) d),
+    'by_browser', (select coalesce(jsonb_agg(jsonb_build_object('browser', browser, 'count', n) order by n desc, browser), '[]'::jsonb)
+                   from (select browser, count(*) n from logs group by browser) b),
+    'by_day', (select coalesce(jsonb_agg(jsonb_build_object('day', day, 'count', n) order by day), '[]'::jsonb)
+               from (select (accessed_at at time zone 'utc')::date as day, count(*) n from logs group by 1) t)
+  );
+$$;
+comment on function share_link_access_summary(uuid, timestamptz, timestamptz) is 'access counts for one share link in [p_from, p_to), broken down by country, device, browser and utc day';
+
+revoke execute on function share_link_access_summary(uuid, timestamptz, timestamptz) from public, anon;
+grant execute on function share_link_access_summary(uuid, timestamptz, timestamptz) to authenticated, service_role;
+
+-- =============================================
+-- 3. anomaly review
+-- =============================================
+
+create or replace function review_share_link_access(
+  p_dry_run boolean default true,
+  p_window interval default interval '1 hour',
+  p_country_threshold int default 5,
+  p_pii_min_hits int default 50,
+  p_pii_spike_factor numeric default 5
+)
+returns jsonb language plpgsql set search_path = public, pg_temp as $$
+declare
+  v_end timestamptz := now();
+  v_start timestamptz := now() - p_window;
+  v_baseline_start timestamptz := now() - p_window - interval '7 days';
+  -- share of the 7-day baseline that corresponds to one review window
+  v_scale numeric := extract(epoch from p_window) / extract(epoch from interval '7 days');
+  v_found jsonb;
+begin
+  with live_links as (
+    select id, event_id, auto_revoke_on_anomaly
+    from share_links
+    where revoked_at is null and (expires_at is null or expires_at > v_end)
+  ),
+  bursts as (
+    select l.id, l.event_id, 'country_burst'::access_anomaly_kind_enum as kind,
+      jsonb_build_object('countries', to_jsonb(array_agg(distinct a.geo_country)), 'hits', count(*)) as details
+    from live_links l join access_logs a on a.share_link_id = l.id
+    where a.accessed_at >= v_start and a.geo_country is not null
+    group by l.id, l.event_id
+    having count(distinct a.geo_country) >= p_country_threshold
+  ),
+  pii_window as (
+    select share_link_id, count(*) as hits
+    from access_logs
+    where pii_exposed and accessed_at >= v_start
+    group by share_link_id
+  ),
+  pii_baseline as (
+    select share_link_id, count(*) * v_scale as hits
+    from access_logs
+    where pii_exposed and accessed_at >= v_baseline_start and accessed_at < v_start
+    group by share_link_id
+  ),
+  spikes as (
+    select l.id, l.event_id, 'pii_spike'::access_anomaly_kind_enum as kind,
+      jsonb_build_object('hits', w.hits, 'baseline', round(coalesce(b.hits, 0), 2)) as details
+    from live_links l
+    join pii_window w on w.share_link_id = l.id
+    left join pii_baseline b on b.share_link_id = l.id
+    where w.hits >= p_pii_min_hits and w.hits >= p_pii_spike_factor * coalesce(b.hits, 0)
+  ),
+  found as (
+    select f.id, f.event_id, f.kind, f.details, l.auto_revoke_on_anomaly
+    from (select * from bursts union all select * from spikes) f
+    join live_links l on l.id = f.id
+    where not exists (
+      select 1 from access_anomalies x where x.share_link_id = f.id and x.kind = f.kind and x.detected_at > v_start
+    )
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'share_link_id', id, 'event_id', event_id, 'kind', kind, 'details', details, 'revoked', auto_revoke_on_anomaly)
+           order by event_id, id, kind), '[]'::jsonb)
+    into v_found
+  from found;
+
+  if not p_dry_run then
+    insert into access_anomalies (share_link_id, event_id, kind, window_start, window_end, details, link_revoked, detected_at)
+      select (f ->> 'share_link_id')::uuid, (f ->> 'event_id')::uuid, (f ->> 'kind')::access_anomaly_kind_enum,
+             v_start, v_end, f -> 'details', (f ->> 'revoked')::boolean, v_end
+      from jsonb_array_elements(v_found) f;
+    update share_links
+      set revoked_at = v_end
+      where revoked_at is null
+        and id in (select (f ->> 'share_link_id')::uuid from jsonb_array_elements(v_found) f where (f ->> 'revoked')::boolean);
+  end if;
+
+  return jsonb_build_object('dry_run', p_dry_run, 'window_start', v_start, 'window_end', v_end, 'anomalies', v_found);
+end;$$;
+comment on function review_share_link_access(boolean, interval, int, int, numeric) is 'flag country bursts and pii spikes on live share links, auto-revoking opted-in links; report only when p_dry_run';
+
+revoke execute on function review_share_link_access(boolean, interval, int, int, numeric) from public, anon, authenticated;
+grant execute on function review_share_link_access(boolean, interval, int, int, numeric) to service_role;
+
+-- end of migration
@@ -0,0 +1,55 @@
+-- migration: audit log writer
+-- timestamp (utc): 2025-11-12 09:00:00
+-- description: action types for every plan operation and share action, owner insert policy and feed index
+--              for audit_log
+-- design notes:
+--   * plan operations are written one row per op; batches too large to itemize are written as a single
+--     bulk_update row carrying op counts and a diff summary
+--   * owners write through their own client: user_id defaults to auth.uid() and the insert policy only
+--     accepts rows stamped with the caller, for events they own, without a share link
+--   * public (share link) actions are written by the api with the service role: user_id stays null and
+--     share_link_id names the link
+--   * new enum values are only added here, never used, so the migration can run in one transaction
+
+-- =============================================
+-- 1. action types
+-- =============================================
+
+alter type action_type_enum add value if not exists 'table_delete';
+alter type action_type_enum add value if not exists 'guest_move';
+alter type action_type_enum add value if not exists 'seat_assign';
+alter type action_type_enum add value if not exists 'seat_unassign';
+alter type action_type_enum add value if not exists 'party_create';
+alter type action_type_enum add value if not exists 'party_update';
+alter type action_type_enum add value if not exists 'party_delete';
+alter type action_type_enum add value if not exists 'bulk_update';
+alter type action_type_enum add value if not exists 'share_link_updated';
+alter type action_type_enum add value if not exists 'share_link_published';
+alter type action_type_enum add value if not exists 'share_link_authenticated';
+
+-- =============================================
+-- 2. writer
+-- =============================================
+
+alter table audit_log alter column user_id set default auth.uid();
+
+comment on column audit_log.user_id is 'acting user; null for public share link actions and system jobs';
+comment on column audit_log.details is 'structured before/after state of the affected entity, shape depends on action_type';
+
+create policy audit_log_owner_insert_authenticated on audit_log for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and share_link_id is null
+    and auth.uid() = (select owner_id from events e where e.id = audit_log.event_id)
+  );
+
+-- =============================================
+-- 3. feed
+-- =============================================
+
+-- keyset pagination over (created_at desc, id desc), optionally narrowed to one user
+drop index if exists audit_log_event_created_idx;
+create index if not exists audit_log_event_created_idx on audit_log (event_id, created_at desc, id desc);
+create index if not exists audit_log_event_user_created_idx on audit_log (event_id, user_id, created_at desc);
+
+-- end of migration
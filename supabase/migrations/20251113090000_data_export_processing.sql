@@ -0,0 +1,24 @@
+-- migration: data export processing
+-- timestamp (utc): 2025-11-13 09:00:00
+-- description: bookkeeping columns on data_requests for the export worker
+-- design notes:
+--   * the worker (service role) claims a pending export by flipping it to processing; started_at lets a
+--     claim abandoned by a crashed worker be picked up again
+--   * archives live in the api's local storage, keyed by request id; result_url is a signed link that
+--     stops working at result_expires_at, after which the archive is purged and result_url cleared
+--   * rejection_reason tells the user why a request was rejected (e.g. the event is not theirs)
+
+alter table data_requests
+  add column if not exists started_at timestamptz null,
+  add column if not exists result_expires_at timestamptz null,
+  add column if not exists rejection_reason text null;
+
+comment on column data_requests.started_at is 'when a worker claimed the request (status processing)';
+comment on column data_requests.result_expires_at is 'expiry of the signed result_url; the archive is purged afterwards';
+comment on column data_requests.rejection_reason is 'machine-readable reason for status rejected';
+
+create index if not exists data_requests_queue_idx on data_requests (type, status, requested_at);
+create index if not exists data_requests_result_expiry_idx on data_requests (result_expires_at)
+  where result_expires_at is not null;
+
+-- end of migration
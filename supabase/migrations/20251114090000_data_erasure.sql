@@ -0,0 +1,185 @@
+-- migration: data erasure (dsar deletion requests)
+-- timestamp (utc): 2025-11-14 09:00:00
+-- description: log scrubbing and residual-pii verification for the erasure worker, erasure report on
+--              data_requests, data_erased audit action
+-- design notes:
+--   * guest names and notes inside plan_data (live and every snapshot) are pseudonymized by the api,
+--     which owns the plan format; the functions here handle the retained logs around it
+--   * compliance rows (access_logs, import_consent, audit_log, guest_imports) are kept but anonymized:
+--     ips are nulled, stored import sheets and file names (also in snapshot labels) are dropped, and
+--     personal fields inside jsonb details ("name", "previous_name", "note", "filename", "display_name")
+--     are replaced with "[erased]"
+--   * erasure_residual_matches() scans every row tied to the erased events (whole row as text) for the
+--     guest and party names captured before erasure; the worker stores the outcome in data_requests.report
+--     and in a data_erased audit tombstone per event
+--   * all functions are service role only
+
+-- =============================================
+-- 1. schema
+-- =============================================
+
+alter type action_type_enum add value if not exists 'data_erased';
+
+alter table data_requests
+  add column if not exists report jsonb null;
+
+comment on column data_requests.report is 'processing report; for deletion requests the erasure counts and verification result (never pii)';
+
+-- =============================================
+-- 2. jsonb scrubbing
+-- =============================================
+
+create or replace function erase_personal_fields(p_value jsonb)
+returns jsonb language plpgsql immutable set search_path = public, pg_temp as $$
+begin
+  case jsonb_typeof(p_value)
+    when 'object' then
+      return (
+        select coalesce(jsonb_object_agg(
+          key,
+          case
+            when key in ('name','previous_name','note','filename','display_name') and jsonb_typeof(value) = 'string'
+              then to_jsonb('[erased]'::text)
+            else erase_personal_fields(value)
+          end), '{}'::jsonb)
+        from jsonb_each(p_value)
+      );
+    when 'array' then
+      return (
+        select coalesce(jsonb_agg(erase_personal_fields(value) order by ordinality), '[]'::jsonb)
+        from jsonb_array_elements(p_value) with ordinality
+      );
+    else
+      return p_value;
+  end case;
+end;$$;
+comment on function erase_personal_fields(jsonb) is 'copy of a jsonb document with personal string fields replaced by "[erased]", at any depth';
+
+-- =============================================
+-- 3. log anonymization
+-- =============================================
+
+-- p_user_id is given for account-wide requests only: it extends the scrub to the user's own rows on
+-- other events and to their profile.
+create or replace function erase_event_logs(p_event_ids uuid[], p_user_id uuid default null)
+returns jsonb language plpgsql set search_path = public, pg_temp as $$
+declare
+  v_access_logs int;
+  v_consents int;
+  v_audit int;
+  v_snapshots int;
+  v_imports int;
+  v_profiles int := 0;
+begin
+  update access_logs set ip = null
+    where event_id = any(p_event_ids) and ip is not null;
+  get diagnostics v_access_logs = row_count;
+
+  update import_consent set ip = null
+    where (event_id = any(p_event_ids) or user_id = p_user_id) and ip is not null;
+  get diagnostics v_consents = row_count;
+
+  update audit_log set details = erase_personal_fields(details)
+    where (event_id = any(p_event_ids) or user_id = p_user_id)
+      and details is not null and details <> erase_personal_fields(details);
+  get diagnostics v_audit = row_count;
+
+  -- post-import snapshots are labelled with the uploaded file name
+  update snapshots
+    set diff_summary = case when diff_summary is null then null else erase_personal_fields(diff_summary) end,
+        label = case when label like 'Guest import: %' then 'Guest import' else label end
+    where event_id = any(p_event_ids)
+      and ((diff_summary is not null and diff_summary <> erase_personal_fields(diff_summary))
+           or label like 'Guest import: %');
+  get diagnostics v_snapshots = row_count;
+
+  update guest_imports
+    set source = null,
+        original_filename = null,
+        audit_trail = case when audit_trail is null then null else erase_personal_fields(audit_trail) end
+    where event_id = any(p_event_ids) or user_id = p_user_id;
+  get diagnostics v_imports = row_count;
+
+  if p_user_id is not null then
+    update profiles set display_name = 'Deleted user', avatar_url = null, updated_at = now()
+      where user_id = p_user_id;
+    get diagnostics v_profiles = row_count;
+  end if;
+
+  return jsonb_build_object(
+    'access_log_ips_cleared', v_access_logs,
+    'import_consent_ips_cleared', v_consents,
+    'audit_entries_scrubbed', v_audit,
+    'snapshot_summaries_scrubbed', v_snapshots,
+    'guest_imports_scrubbed', v_imports,
+    'profiles_anonymized', v_profiles
+  );
+end;$$;
+comment on function erase_event_logs(uuid[], uuid) is 'anonymize retained logs of erased events: null ips, drop import sheets, scrub personal jsonb fields';
+
+revoke execute on function erase_event_logs(uuid[], uuid) from public, anon, authenticated;
+grant execute on function erase_event_logs(uuid[], uuid) to service_role;
+
+-- =============================================
+-- 4. verification
+-- =============================================
+
+-- rows (as text, case-insensitive) tied to the events or the user that still contain any of p_terms.
+-- terms shorter than 3 characters are ignored; callers pass terms in batches to keep the pattern small.
+create or replace function erasure_residual_matches(p_event_ids uuid[], p_terms text[], p_user_id uuid default null)
+returns jsonb language plpgsql stable set search_path = public, pg_temp as $$
+declare
+  v_pattern text;
+begin
+  select string_agg(regexp_replace(lower(t), '([.^$*+?()\[\]{}|\\])', '\\\1', 'g'), '|')
+    into v_pattern
+  from unnest(p_terms) t
+  where length(trim(t)) >= 3;
+  if v_pattern is null then
+    return '[]'::jsonb;
+  end if;
+
+  return (
+    select coalesce(jsonb_agg(jsonb_build_object('table', tbl, 'row_id', row_id) order by tbl, row_id::text), '[]'::jsonb)
+    from (
+      select 'events' as tbl, to_jsonb(e.id) as row_id from events e
+        where e.id = any(p_event_ids) and lower(e::text) ~ v_pattern
+      union all
+      select 'snapshots', to_jsonb(s.id) from snapshots s
+        where s.event_id = any(p_event_ids) and lower(s::text) ~ v_pattern
+      union all
+      select 'share_links', to_jsonb(l.id) from share_links l
+        where l.event_id = any(p_event_ids) and lower(l::text) ~ v_pattern
+      union all
+      select 'access_logs', to_jsonb(a.id) from access_logs a
+        where a.event_id = any(p_event_ids) and lower(a::text) ~ v_pattern
+      union all
+      select 'access_anomalies', to_jsonb(x.id) from access_anomalies x
+        where x.event_id = any(p_event_ids) and lower(x::text) ~ v_pattern
+      union all
+      select 'audit_log', to_jsonb(u.id) from audit_log u
+        where (u.event_id = any(p_event_ids) or u.user_id = p_user_id) and lower(u::text) ~ v_pattern
+      union all
+      select 'import_consent', to_jsonb(c.id) from import_consent c
+        where (c.event_id = any(p_event_ids) or c.user_id = p_user_id) and lower(c::text) ~ v_pattern
+      union all
+      select 'guest_imports', to_jsonb(g.id) from guest_imports g
+        where (g.event_id = any(p_event_ids) or g.user_id = p_user_id) and lower(g::text) ~ v_pattern
+      union all
+      select 'data_requests', to_jsonb(d.id) from data_requests d
+        where (d.event_id = any(p_event_ids) or d.user_id = p_user_id) and lower(d::text) ~ v_pattern
+      union all
+      select 'analytics_events', to_jsonb(n.id) from analytics_events n
+        where (n.event_id = any(p_event_ids) or n.user_id = p_user_id) and lower(n::text) ~ v_pattern
+      union all
+      select 'profiles', to_jsonb(p.user_id) from profiles p
+        where p.user_id = p_user_id and lower(p::text) ~ v_pattern
+    ) matches
+  );
+end;$$;
+comment on function erasure_residual_matches(uuid[], text[], uuid) is 'rows of the given events / user whose text still contains any of the terms (erasure verification)';
+
+revoke execute on function erasure_residual_matches(uuid[], text[], uuid) from public, anon, authenticated;
+grant execute on function erasure_residual_matches(uuid[], text[], uuid) to service_role;
+
+-- end of migration
@@ -0,0 +1,116 @@
+-- migration: analytics ingest (hashed identifiers, rotating salts, funnel report)
+-- timestamp (utc): 2025-11-15 09:00:00
+-- description: pseudonymous identifiers on analytics_events, per-month salts, activation funnel aggregation
+-- design notes:
+--   * the ingest api no longer stores user_id / event_id; it stores hmac-sha256 hashes of them keyed with
+--     the salt of the current utc month (salt_period 'yyyy-mm'). analytics_salt() creates the month's salt
+--     on first use and deletes salts of past months, so older hashes can no longer be linked to ids
+--   * hashes are only comparable within one salt_period; the funnel joins steps on (salt_period, event_hash)
+--   * analytics_salts has rls enabled and no policies: service role only, like analytics_events inserts
+--   * analytics_funnel() is an internal report (service role only)
+
+-- =============================================
+-- 1. schema
+-- =============================================
+
+alter table analytics_events
+  add column if not exists user_hash text null,
+  add column if not exists event_hash text null,
+  add column if not exists salt_period text null;
+
+comment on column analytics_events.user_hash is 'hmac of the user id with the salt of salt_period; user_id stays null for ingested events';
+comment on column analytics_events.event_hash is 'hmac of the event id with the salt of salt_period; event_id stays null for ingested events';
+comment on column analytics_events.salt_period is 'utc month (yyyy-mm) whose salt keyed the hashes';
+
+create index if not exists analytics_events_funnel_idx
+  on analytics_events (salt_period, event_hash, event_type, created_at)
+  where event_hash is not null;
+
+create table if not exists analytics_salts (
+  period text primary key,
+  salt text not null,
+  created_at timestamptz not null default now()
+);
+comment on table analytics_salts is 'rotating salts for analytics identifier hashes; only the current month is kept';
+
+alter table analytics_salts enable row level security;
+
+-- =============================================
+-- 2. salt rotation
+-- =============================================
+
+create or replace function analytics_salt(p_period text)
+returns text language plpgsql set search_path = public, pg_temp as $$
+declare
+  v_salt text;
+begin
+  insert into analytics_salts (period, salt)
+    values (p_period, replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''))
+    on conflict (period) do nothing;
+  delete from analytics_salts where period < p_period;
+  select salt into v_salt from analytics_salts where period = p_period;
+  return v_salt;
+end;$$;
+comment on function analytics_salt(text) is 'salt for the given period (created on first use); salts of earlier periods are discarded';
+
+revoke execute on function analytics_salt(text) from public, anon, authenticated;
+grant execute on function analytics_salt(text) to service_role;
+
+-- =============================================
+-- 3. funnel report
+-- =============================================
+
+-- cohort: events (by hash) whose first event_created falls in [p_from, p_to). each later step counts when
+-- it first occurs at or after the previous step, before p_to.
+create or replace function analytics_funnel(p_from timestamptz, p_to timestamptz)
+returns jsonb language sql stable set search_path = public, pg_temp as $$
+  with steps as (
+    select salt_period, event_hash, event_type, created_at
+    from analytics_events
+    where event_hash is not null and created_at >= p_from and created_at < p_to
+      and event_type in ('event_created','import_completed','first_save','share_link_created','export_generated')
+  ),
+  created as (
+    select salt_period, event_hash, min(created_at) as created_at
+    from steps where event_type = 'event_created'
+    group by salt_period, event_hash
+  ),
+  imported as (
+    select c.*, (select min(s.created_at) from steps s
+                 where s.salt_period = c.salt_period and s.event_hash = c.event_hash
+                   and s.event_type = 'import_completed' and s.created_at >= c.created_at) as imported_at
+    from created c
+  ),
+  saved as (
+    select i.*, (select min(s.created_at) from steps s
+                 where s.salt_period = i.salt_period and s.event_hash = i.event_hash
+                   and s.event_type = 'first_save' and s.created_at >= i.imported_at) as saved_at
+    from imported i
+  ),
+  shared as (
+    select v.*, (select min(s.created_at) from steps s
+                 where s.salt_period = v.salt_period and s.event_hash = v.event_hash
+                   and s.event_type = 'share_link_created' and s.created_at >= v.saved_at) as shared_at
+    from saved v
+  ),
+  exported as (
+    select h.*, (select min(s.created_at) from steps s
+                 where s.salt_period = h.salt_period and s.event_hash = h.event_hash
+                   and s.event_type = 'export_generated' and s.created_at >= h.shared_at) as exported_at
+    from shared h
+  )
+  select jsonb_build_object(
+    'event_created', count(*),
+    'import_completed', count(imported_at),
+    'first_save', count(saved_at),
+    'share_link_created', count(shared_at),
+    'export_generated', count(exported_at)
+  )
+  from exported;
+$$;
+comment on function analytics_funnel(timestamptz, timestamptz) is 'activation funnel counts (event_created -> import_completed -> first_save -> share_link_created -> export_generated)';
+
+revoke execute on function analytics_funnel(timestamptz, timestamptz) from public, anon, authenticated;
+grant execute on function analytics_funnel(timestamptz, timestamptz) to service_role;
+
+-- end of migration
@@ -0,0 +1,116 @@
+-- migration: pii spike baseline age
+-- timestamp (utc): 2025-11-16 09:00:00
+-- description: pii_spike measures the baseline over the part of the 7 days the link existed and only
+--              auto-revokes links whose baseline is old enough
+-- design notes:
+--   * before, a link without pii hits in the 7-day baseline (typically one created today) had a baseline of
+--     0, so its first busy hour counted as a spike and opted-in links were revoked on their launch
+--   * the baseline now covers max(link created_at, 7 days before the window) .. window start and is scaled
+--     by that span; details report it as baseline_hours (null when the link was created inside the window)
+--   * spikes on links younger than p_pii_min_baseline_hours are still flagged, but never auto-revoked.
+--     country_burst is unchanged
+--   * the new parameter changes the signature, so the previous function is dropped
+
+-- =============================================
+-- 1. anomaly review
+-- =============================================
+
+drop function if exists review_share_link_access(boolean, interval, int, int, numeric);
+
+create or replace function review_share_link_access(
+  p_dry_run boolean default true,
+  p_window interval default interval '1 hour',
+  p_country_threshold int default 5,
+  p_pii_min_hits int default 50,
+  p_pii_spike_factor numeric default 5,
+  p_pii_min_baseline_hours int default 24
+)
+returns jsonb language plpgsql set search_path = public, pg_temp as $$
+declare
+  v_end timestamptz := now();
+  v_start timestamptz := now() - p_window;
+  v_baseline_start timestamptz := now() - p_window - interval '7 days';
+  v_found jsonb;
+begin
+  with live_links as (
+    select id, event_id, auto_revoke_on_anomaly,
+      -- seconds of history before the window that the baseline can draw on
+      extract(epoch from v_start - greatest(created_at, v_baseline_start)) as baseline_seconds
+    from share_links
+    where revoked_at is null and (expires_at is null or expires_at > v_end)
+  ),
+  bursts as (
+    select l.id, l.event_id, 'country_burst'::access_anomaly_kind_enum as kind,
+      jsonb_build_object('countries', to_jsonb(array_agg(distinct a.geo_country)), 'hits', count(*)) as details,
+      true as established
+    from live_links l join access_logs a on a.share_link_id = l.id
+    where a.accessed_at >= v_start and a.geo_country is not null
+    group by l.id, l.event_id
+    having count(distinct a.geo_country) >= p_country_threshold
+  ),
+  pii_window as (
+    select share_link_id, count(*) as hits
+    from access_logs
+    where pii_exposed and accessed_at >= v_start
+    group by share_link_id
+  ),
+  pii_baseline as (
+    select share_link_id, count(*) as hits
+    from access_logs
+    where pii_exposed and accessed_at >= v_baseline_start and accessed_at < v_start
+    group by share_link_id
+  ),
+  scaled as (
+    -- baseline hits per review window; null when the link has no history before the window
+    select l.id, l.event_id, w.hits, l.baseline_seconds,
+      case when l.baseline_seconds > 0
+        then coalesce(b.hits, 0) * extract(epoch from p_window) / l.baseline_seconds
+      end as baseline
+    from live_links l
+    join pii_window w on w.share_link_id = l.id
+    left join pii_baseline b on b.share_link_id = l.id
+  ),
+  spikes as (
+    select s.id, s.event_id, 'pii_spike'::access_anomaly_kind_enum as kind,
+      jsonb_build_object(
+        'hits', s.hits,
+        'baseline', round(coalesce(s.baseline, 0), 2),
+        'baseline_hours', case when s.baseline_seconds > 0 then round(s.baseline_seconds / 3600, 1) end
+      ) as details,
+      s.baseline_seconds >= p_pii_min_baseline_hours * 3600 as established
+    from scaled s
+    where s.hits >= p_pii_min_hits and s.hits >= p_pii_spike_factor * coalesce(s.baseline, 0)
+  ),
+  found as (
+    select f.id, f.event_id, f.kind, f.details, l.auto_revoke_on_anomaly and f.established as auto_revoke
+    from (select * from bursts union all select * from spikes) f
+    join live_links l on l.id = f.id
+    where not exists (
+      select 1 from access_anomalies x where x.share_link_id = f.id and x.kind = f.kind and x.detected_at > v_start
+    )
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'share_link_id', id, 'event_id', event_id, 'kind', kind, 'details', details, 'revoked', auto_revoke)
+           order by event_id, id, kind), '[]'::jsonb)
+    into v_found
+  from found;
+
+  if not p_dry_run then
+    insert into access_anomalies (share_link_id, event_id, kind, window_start, window_end, details, link_revoked, detected_at)
+      select (f ->> 'share_link_id')::uuid, (f ->> 'event_id')::uuid, (f ->> 'kind')::access_anomaly_kind_enum,
+             v_start, v_end, f -> 'details', (f ->> 'revoked')::boolean, v_end
+      from jsonb_array_elements(v_found) f;
+    update share_links
+      set revoked_at = v_end
+      where revoked_at is null
+        and id in (select (f ->> 'share_link_id')::uuid from jsonb_array_elements(v_found) f where (f ->> 'revoked')::boolean);
+  end if;
+
+  return jsonb_build_object('dry_run', p_dry_run, 'window_start', v_start, 'window_end', v_end, 'anomalies', v_found);
+end;$$;
+comment on function review_share_link_access(boolean, interval, int, int, numeric, int) is 'flag country bursts and pii spikes on live share links, auto-revoking opted-in links (pii spikes only once the baseline is old enough); report only when p_dry_run';
+
+revoke execute on function review_share_link_access(boolean, interval, int, int, numeric, int) from public, anon, authenticated;
+grant execute on function review_share_link_access(boolean, interval, int, int, numeric, int) to service_role;
+
+-- end of migration
@@ -0,0 +1,29 @@
+-- migration: admin_flags writable by operators only
+-- timestamp (utc): 2025-11-16 10:00:00
+-- description: drops the self insert / update policies on admin_flags; limits can no longer be negative
+-- design notes:
+--   * every admin_flags column is a limit enforced on the user: rate_limit_exports_daily (api rate limits) and
+--     max_manual_snapshots (create_snapshot() cap, see 20251105090000). with the self policies a user could raise
+--     their export quota, or set max_manual_snapshots to 0 (= unlimited), through the rest api
+--   * rows are now written by operators with the service role only; users keep read access to their own row
+--   * the api reads rate_limit_exports_daily with the service-role client, so the limit does not depend on rls
+--   * rate_limit_exports_daily = 0 blocks exports for the user; max_manual_snapshots = 0 stays "unlimited"
+
+-- =============================================
+-- 1. policies
+-- =============================================
+
+drop policy if exists admin_flags_self_insert_authenticated on admin_flags;
+drop policy if exists admin_flags_self_update_authenticated on admin_flags;
+
+revoke insert, update, delete on admin_flags from anon, authenticated;
+
+-- =============================================
+-- 2. constraints
+-- =============================================
+
+alter table admin_flags
+  add constraint admin_flags_rate_limit_exports_daily_check check (rate_limit_exports_daily >= 0),
+  add constraint admin_flags_max_manual_snapshots_check check (max_manual_snapshots >= 0);
+
+-- end of migration